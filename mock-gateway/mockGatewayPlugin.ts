@@ -0,0 +1,728 @@
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import type { IncomingMessage } from "node:http";
+import type { Socket } from "node:net";
+import path from "node:path";
+import type { Plugin } from "vite";
+import { WebSocket, WebSocketServer, type RawData } from "ws";
+
+/**
+ * Scripted stand-in for the OpenClaw Gateway. It speaks the same frame protocol as the
+ * real gateway and replays fixture files from `mock-gateway/fixtures/<name>.json`.
+ * Pick a fixture with `?fixture=<name>` on the WebSocket URL.
+ */
+
+type JsonRecord = Record<string, unknown>;
+
+type FixtureMessage = {
+  role: "user" | "assistant" | "toolResult";
+  content: unknown;
+  timestamp?: number;
+  stopReason?: string;
+  errorMessage?: string;
+  /** toolResult entries only. */
+  toolCallId?: string;
+  toolName?: string;
+  isError?: boolean;
+};
+
+type FixtureSession = {
+  key: string;
+  label?: string;
+  model?: string;
+  modelProvider?: string;
+  messages?: FixtureMessage[];
+  /** Prepends `turns` generated user/assistant pairs, one every `stepMs` starting at `from`, to exercise paging. */
+  seedHistory?: { turns: number; from: number; stepMs: number };
+};
+
+type FixtureReply = {
+  /** Case-insensitive substring of the prompt; omit for the fallback reply. */
+  match?: string;
+  /** `{{message}}` is replaced with the prompt text. */
+  text?: string;
+  /** Streams `delta` events and then fails the run with this message instead of `final`. */
+  error?: string;
+  chunkSize?: number;
+  chunkDelayMs?: number;
+  startDelayMs?: number;
+  /** Emits agent tool start/result events before the text streams. */
+  tool?: { name: string; args?: unknown; result?: unknown; durationMs?: number };
+  /** Streamed as an agent `thinking` event first, and stored as a thinking block. */
+  thinking?: string;
+  /** Writes the reply to the transcript without any chat/agent events, like a dropped event stream. */
+  silent?: boolean;
+};
+
+type FixtureAttachmentLimits = {
+  mimeTypes?: string[];
+  maxBytes?: number;
+  maxTotalBytes?: number;
+  maxDimensionPx?: number;
+  maxCount?: number;
+};
+
+type MockGatewayFixture = {
+  hello?: {
+    tickIntervalMs?: number;
+    mainSessionKey?: string;
+    defaultAgentId?: string;
+    methods?: string[];
+    events?: string[];
+    chatAttachments?: FixtureAttachmentLimits | null;
+  };
+  connect?: {
+    /** Rejects this many `connect` attempts with `error` before accepting, e.g. to script pairing. */
+    failAttempts?: number;
+    error?: { code?: string; message: string; details?: unknown };
+    /** Emits `device.pair.resolved` (approved) on the socket that receives the last rejection. */
+    announceApproval?: boolean;
+  };
+  /** `chatAttachments` narrows the hello limits for one agent; null refuses images for it. */
+  agents?: Array<{ id: string; name?: string; chatAttachments?: FixtureAttachmentLimits | null }>;
+  sessions?: FixtureSession[];
+  replies?: FixtureReply[];
+  /** Extra always-online presence entries (e.g. a headless node), listed alongside real connections. */
+  presence?: JsonRecord[];
+  /** Reported in the hello snapshot and re-broadcast with every tick. */
+  health?: { ok: boolean; summary?: string };
+};
+
+type FixtureState = {
+  connectAttempts: number;
+  sessions: Map<string, FixtureSession & { messages: FixtureMessage[] }>;
+  /** Connections that completed the handshake, keyed to their presence entry. */
+  online: Map<MockConnection, JsonRecord>;
+};
+
+type RequestFrame = {
+  type: "req";
+  id: string;
+  method: string;
+  params?: unknown;
+};
+
+type MockConnection = {
+  socket: WebSocket;
+  fixture: MockGatewayFixture;
+  state: FixtureState;
+  seq: number;
+  timers: Set<NodeJS.Timeout>;
+  runs: Map<string, { sessionKey: string; cancel: () => void }>;
+  /** Runs of `silent` replies; their events are never delivered. */
+  mutedRuns: Set<string>;
+};
+
+const DEFAULT_TICK_INTERVAL_MS = 15000;
+const DEFAULT_METHODS = [
+  "connect",
+  "agents.list",
+  "sessions.list",
+  "sessions.resolve",
+  "sessions.patch",
+  "sessions.reset",
+  "sessions.delete",
+  "chat.history",
+  "chat.send",
+  "chat.abort",
+];
+const DEFAULT_EVENTS = ["connect.challenge", "chat", "tick", "device.pair.resolved", "presence", "health", "agent"];
+
+function isRecord(value: unknown): value is JsonRecord {
+  return typeof value === "object" && value !== null;
+}
+
+function matchesApiPath(requestUrl: string | undefined, suffix: string): boolean {
+  const pathname = new URL(requestUrl ?? "/", "http://localhost").pathname;
+  return pathname === suffix || pathname.endsWith(suffix);
+}
+
+function sanitizeFixtureName(name: string | null | undefined, fallback: string): string {
+  const trimmed = (name ?? "").trim();
+  return /^[a-z0-9_-]+$/i.test(trimmed) ? trimmed : fallback;
+}
+
+async function readFixture(fixturesDir: string, name: string): Promise<MockGatewayFixture> {
+  const raw = await fs.readFile(path.join(fixturesDir, `${name}.json`), "utf8");
+  const parsed: unknown = JSON.parse(raw);
+  if (!isRecord(parsed)) {
+    throw new Error(`fixture ${name} is not a JSON object`);
+  }
+  return parsed as MockGatewayFixture;
+}
+
+function createFixtureState(fixture: MockGatewayFixture): FixtureState {
+  const sessions = new Map<string, FixtureSession & { messages: FixtureMessage[] }>();
+  for (const session of fixture.sessions ?? []) {
+    if (typeof session.key === "string" && session.key.trim()) {
+      sessions.set(session.key, { ...session, messages: [...seedHistory(session), ...(session.messages ?? [])] });
+    }
+  }
+  return { connectAttempts: 0, sessions, online: new Map() };
+}
+
+function seedHistory(session: FixtureSession): FixtureMessage[] {
+  const seed = session.seedHistory;
+  if (!seed || seed.turns <= 0) {
+    return [];
+  }
+  const messages: FixtureMessage[] = [];
+  for (let turn = 0; turn < seed.turns; turn += 1) {
+    const timestamp = seed.from + turn * seed.stepMs;
+    messages.push(
+      { role: "user", content: [{ type: "text", text: `第 ${turn + 1} 条历史问题` }], timestamp },
+      { role: "assistant", content: [{ type: "text", text: `第 ${turn + 1} 条历史回答。` }], timestamp: timestamp + 4000 },
+    );
+  }
+  return messages;
+}
+
+function ensureSession(state: FixtureState, key: string): FixtureSession & { messages: FixtureMessage[] } {
+  let session = state.sessions.get(key);
+  if (!session) {
+    session = { key, model: "mock-model", modelProvider: "mock", messages: [] };
+    state.sessions.set(key, session);
+  }
+  return session;
+}
+
+function messageText(message: FixtureMessage): string {
+  if (typeof message.content === "string") {
+    return message.content;
+  }
+  if (!Array.isArray(message.content)) {
+    return "";
+  }
+  return message.content
+    .map((block) => (isRecord(block) && typeof block.text === "string" ? block.text : ""))
+    .join("");
+}
+
+/** Rough 4-characters-per-token usage, enough for the client's session list to show moving numbers. */
+function estimateUsage(messages: FixtureMessage[]): { inputTokens: number; outputTokens: number } {
+  let input = 0;
+  let output = 0;
+  for (const message of messages) {
+    const tokens = Math.ceil(messageText(message).length / 4);
+    if (message.role === "assistant") {
+      output += tokens;
+    } else {
+      input += tokens;
+    }
+  }
+  return { inputTokens: input, outputTokens: output };
+}
+
+function pickReply(fixture: MockGatewayFixture, prompt: string): FixtureReply {
+  const normalized = prompt.toLowerCase();
+  const replies = fixture.replies ?? [];
+  return (
+    replies.find((reply) => typeof reply.match === "string" && normalized.includes(reply.match.toLowerCase())) ??
+    replies.find((reply) => reply.match === undefined) ?? { text: "（mock）收到：{{message}}" }
+  );
+}
+
+function splitIntoChunks(text: string, chunkSize: number): string[] {
+  const size = Math.max(1, Math.floor(chunkSize));
+  const chars = Array.from(text);
+  const chunks: string[] = [];
+  for (let index = 0; index < chars.length; index += size) {
+    chunks.push(chars.slice(index, index + size).join(""));
+  }
+  return chunks;
+}
+
+function send(connection: MockConnection, frame: unknown): void {
+  if (connection.socket.readyState === WebSocket.OPEN) {
+    connection.socket.send(JSON.stringify(frame));
+  }
+}
+
+function sendEvent(connection: MockConnection, event: string, payload: unknown): void {
+  // Behave like an older gateway: never broadcast events the fixture does not advertise.
+  if (!(connection.fixture.hello?.events ?? DEFAULT_EVENTS).includes(event)) {
+    return;
+  }
+  if (isRecord(payload) && typeof payload.runId === "string" && connection.mutedRuns.has(payload.runId)) {
+    return;
+  }
+  connection.seq += 1;
+  send(connection, { type: "event", event, payload, seq: connection.seq });
+}
+
+function respond(connection: MockConnection, id: string, payload: unknown): void {
+  send(connection, { type: "res", id, ok: true, payload });
+}
+
+function fail(connection: MockConnection, id: string, code: string, message: string, details?: unknown): void {
+  send(connection, { type: "res", id, ok: false, error: { code, message, details } });
+}
+
+function schedule(connection: MockConnection, delayMs: number, callback: () => void): () => void {
+  const timer = setTimeout(() => {
+    connection.timers.delete(timer);
+    callback();
+  }, delayMs);
+  connection.timers.add(timer);
+  return () => {
+    clearTimeout(timer);
+    connection.timers.delete(timer);
+  };
+}
+
+function listPresence(connection: MockConnection): JsonRecord[] {
+  return [...(connection.fixture.presence ?? []), ...connection.state.online.values()];
+}
+
+function broadcastPresence(state: FixtureState): void {
+  for (const peer of state.online.keys()) {
+    sendEvent(peer, "presence", { presence: listPresence(peer) });
+  }
+}
+
+function buildHealth(fixture: MockGatewayFixture): JsonRecord {
+  return { ok: fixture.health?.ok ?? true, summary: fixture.health?.summary, ts: Date.now(), durationMs: 3 };
+}
+
+function handleConnect(connection: MockConnection, frame: RequestFrame): void {
+  const { fixture, state } = connection;
+  const params = isRecord(frame.params) ? frame.params : {};
+  const connectScript = fixture.connect;
+  state.connectAttempts += 1;
+
+  if (connectScript?.error && state.connectAttempts <= (connectScript.failAttempts ?? Number.POSITIVE_INFINITY)) {
+    const device = isRecord(params.device) ? params.device : null;
+    fail(connection, frame.id, connectScript.error.code ?? "CONNECT_REJECTED", connectScript.error.message, {
+      deviceId: typeof device?.id === "string" ? device.id : undefined,
+      ...(isRecord(connectScript.error.details) ? connectScript.error.details : {}),
+    });
+    if (connectScript.announceApproval && state.connectAttempts === connectScript.failAttempts) {
+      schedule(connection, 800, () => {
+        sendEvent(connection, "device.pair.resolved", {
+          deviceId: typeof device?.id === "string" ? device.id : undefined,
+          decision: "approved",
+        });
+      });
+    }
+    return;
+  }
+
+  const hello = fixture.hello ?? {};
+  const tickIntervalMs = hello.tickIntervalMs ?? DEFAULT_TICK_INTERVAL_MS;
+  const client = isRecord(params.client) ? params.client : {};
+  const device = isRecord(params.device) ? params.device : {};
+  state.online.set(connection, {
+    instanceId: typeof client.instanceId === "string" ? client.instanceId : randomUUID(),
+    deviceId: typeof device.id === "string" ? device.id : undefined,
+    host: typeof client.id === "string" ? client.id : "mock-client",
+    platform: typeof client.platform === "string" ? client.platform : undefined,
+    mode: typeof client.mode === "string" ? client.mode : undefined,
+    version: typeof client.version === "string" ? client.version : undefined,
+    roles: typeof params.role === "string" ? [params.role] : [],
+    ts: Date.now(),
+  });
+  respond(connection, frame.id, {
+    type: "hello-ok",
+    protocol: 3,
+    features: {
+      methods: hello.methods ?? DEFAULT_METHODS,
+      events: hello.events ?? DEFAULT_EVENTS,
+      chatAttachments: hello.chatAttachments ?? undefined,
+    },
+    snapshot: {
+      sessionDefaults: {
+        defaultAgentId: hello.defaultAgentId ?? "main",
+        mainSessionKey: hello.mainSessionKey ?? "agent:main:main",
+      },
+      presence: listPresence(connection),
+      health: buildHealth(fixture),
+    },
+    policy: { tickIntervalMs },
+    auth: {
+      role: typeof params.role === "string" ? params.role : "operator",
+      scopes: Array.isArray(params.scopes) ? params.scopes : [],
+    },
+  });
+
+  broadcastPresence(state);
+
+  const tick = () => {
+    sendEvent(connection, "tick", { ts: Date.now() });
+    sendEvent(connection, "health", buildHealth(fixture));
+    schedule(connection, tickIntervalMs, tick);
+  };
+  schedule(connection, tickIntervalMs, tick);
+}
+
+function sendAgentEvent(connection: MockConnection, runId: string, sessionKey: string, stream: string, data: JsonRecord): void {
+  sendEvent(connection, "agent", { runId, sessionKey, stream, ts: Date.now(), data });
+}
+
+/** Enforces the advertised limits like a real gateway would, so the client's fallback can be exercised. */
+function checkAttachments(fixture: MockGatewayFixture, sessionKey: string, attachments: unknown): string | null {
+  if (!Array.isArray(attachments) || attachments.length === 0) {
+    return null;
+  }
+  const gatewayLimits = fixture.hello?.chatAttachments;
+  const agentId = /^agent:([^:]+):/.exec(sessionKey)?.[1] ?? fixture.hello?.defaultAgentId ?? "main";
+  const agentLimits = fixture.agents?.find((agent) => agent.id === agentId)?.chatAttachments;
+  if (!gatewayLimits || agentLimits === null) {
+    return `attachments are not supported for agent ${agentId}`;
+  }
+  const limits = { ...gatewayLimits, ...agentLimits };
+  let total = 0;
+  for (const attachment of attachments) {
+    const content = isRecord(attachment) && typeof attachment.content === "string" ? attachment.content : "";
+    const bytes = Math.floor((content.length * 3) / 4);
+    total += bytes;
+    if (limits.maxBytes && bytes > limits.maxBytes) {
+      return `attachment exceeds maxBytes (${bytes} > ${limits.maxBytes})`;
+    }
+    const mimeType = isRecord(attachment) && typeof attachment.mimeType === "string" ? attachment.mimeType : "";
+    if (limits.mimeTypes?.length && !limits.mimeTypes.includes(mimeType)) {
+      return `attachment type ${mimeType || "unknown"} is not accepted`;
+    }
+  }
+  if (limits.maxTotalBytes && total > limits.maxTotalBytes) {
+    return `attachments exceed maxTotalBytes (${total} > ${limits.maxTotalBytes})`;
+  }
+  if (limits.maxCount && attachments.length > limits.maxCount) {
+    return `too many attachments (${attachments.length} > ${limits.maxCount})`;
+  }
+  return null;
+}
+
+function handleChatSend(connection: MockConnection, frame: RequestFrame): void {
+  const params = isRecord(frame.params) ? frame.params : {};
+  const sessionKey = typeof params.sessionKey === "string" ? params.sessionKey : "";
+  const message = typeof params.message === "string" ? params.message : "";
+  if (!sessionKey) {
+    fail(connection, frame.id, "INVALID_PARAMS", "sessionKey is required");
+    return;
+  }
+
+  const attachmentError = checkAttachments(connection.fixture, sessionKey, params.attachments);
+  if (attachmentError) {
+    fail(connection, frame.id, "INVALID_PARAMS", attachmentError);
+    return;
+  }
+
+  const session = ensureSession(connection.state, sessionKey);
+  const userContent: unknown[] = [{ type: "text", text: message }];
+  for (const attachment of Array.isArray(params.attachments) ? params.attachments : []) {
+    if (isRecord(attachment) && attachment.type === "image" && typeof attachment.content === "string") {
+      userContent.push({ type: "image", mimeType: attachment.mimeType, data: attachment.content });
+    }
+  }
+  session.messages.push({ role: "user", content: userContent, timestamp: Date.now() });
+
+  const runId = randomUUID();
+  respond(connection, frame.id, { runId, status: "started" });
+
+  const reply = pickReply(connection.fixture, message);
+  if (reply.silent) {
+    connection.mutedRuns.add(runId);
+  }
+  const fullText = (reply.text ?? "").replace(/\{\{message\}\}/g, message);
+  const chunks = splitIntoChunks(fullText, reply.chunkSize ?? 6);
+  const chunkDelayMs = reply.chunkDelayMs ?? 80;
+  let streamed = "";
+  let cancelCurrent: () => void = () => {};
+  const finish = () => {
+    connection.runs.delete(runId);
+    sendAgentEvent(connection, runId, sessionKey, "lifecycle", reply.error ? { phase: "error", error: reply.error } : { phase: "end" });
+    if (reply.error) {
+      session.messages.push({
+        role: "assistant",
+        content: [],
+        stopReason: "error",
+        errorMessage: reply.error,
+        timestamp: Date.now(),
+      });
+      sendEvent(connection, "chat", { runId, sessionKey, state: "error", errorMessage: reply.error });
+      return;
+    }
+    const assistant: FixtureMessage = {
+      role: "assistant",
+      content: [
+        ...(reply.thinking && !reply.tool ? [{ type: "thinking", thinking: reply.thinking }] : []),
+        { type: "text", text: fullText },
+      ],
+      stopReason: "stop",
+      timestamp: Date.now(),
+    };
+    session.messages.push(assistant);
+    sendEvent(connection, "chat", { runId, sessionKey, state: "final", message: assistant });
+  };
+  const step = (index: number) => {
+    if (index >= chunks.length) {
+      finish();
+      return;
+    }
+    streamed += chunks[index];
+    sendEvent(connection, "chat", {
+      runId,
+      sessionKey,
+      state: "delta",
+      message: { role: "assistant", content: [{ type: "text", text: streamed }] },
+    });
+    cancelCurrent = schedule(connection, chunkDelayMs, () => step(index + 1));
+  };
+
+  connection.runs.set(runId, { sessionKey, cancel: () => cancelCurrent() });
+  cancelCurrent = schedule(connection, reply.startDelayMs ?? 300, () => {
+    sendEvent(connection, "chat", { runId, sessionKey, state: "running" });
+    sendAgentEvent(connection, runId, sessionKey, "lifecycle", { phase: "start" });
+    if (reply.thinking) {
+      sendAgentEvent(connection, runId, sessionKey, "thinking", { text: reply.thinking });
+    }
+    const tool = reply.tool;
+    if (!tool) {
+      step(0);
+      return;
+    }
+    const toolCallId = randomUUID();
+    // Stored like a real transcript: the call, its result, then the answer as a separate entry.
+    session.messages.push({
+      role: "assistant",
+      content: [
+        ...(reply.thinking ? [{ type: "thinking", thinking: reply.thinking }] : []),
+        { type: "toolCall", id: toolCallId, name: tool.name, arguments: tool.args ?? {} },
+      ],
+      stopReason: "toolUse",
+      timestamp: Date.now(),
+    });
+    sendAgentEvent(connection, runId, sessionKey, "tool", { phase: "start", name: tool.name, toolCallId, args: tool.args });
+    cancelCurrent = schedule(connection, tool.durationMs ?? 600, () => {
+      session.messages.push({
+        role: "toolResult",
+        toolCallId,
+        toolName: tool.name,
+        content: [{ type: "text", text: JSON.stringify(tool.result ?? null) }],
+        timestamp: Date.now(),
+      });
+      sendAgentEvent(connection, runId, sessionKey, "tool", {
+        phase: "result",
+        name: tool.name,
+        toolCallId,
+        result: tool.result,
+      });
+      step(0);
+    });
+  });
+}
+
+function handleChatAbort(connection: MockConnection, frame: RequestFrame): void {
+  const params = isRecord(frame.params) ? frame.params : {};
+  const sessionKey = typeof params.sessionKey === "string" ? params.sessionKey : "";
+  const runId = typeof params.runId === "string" ? params.runId : null;
+  const aborted: string[] = [];
+  for (const [id, run] of connection.runs) {
+    if ((runId && id === runId) || (!runId && run.sessionKey === sessionKey)) {
+      run.cancel();
+      connection.runs.delete(id);
+      aborted.push(id);
+      sendAgentEvent(connection, id, run.sessionKey, "lifecycle", { phase: "end", aborted: true });
+      sendEvent(connection, "chat", { runId: id, sessionKey: run.sessionKey, state: "aborted" });
+    }
+  }
+  respond(connection, frame.id, { ok: true, aborted: aborted.length > 0, runIds: aborted });
+}
+
+function handleRequest(connection: MockConnection, frame: RequestFrame): void {
+  const { fixture, state } = connection;
+  const params = isRecord(frame.params) ? frame.params : {};
+
+  switch (frame.method) {
+    case "connect":
+      handleConnect(connection, frame);
+      return;
+    case "agents.list": {
+      const agents = fixture.agents ?? [{ id: "main", name: "Main" }];
+      respond(connection, frame.id, {
+        defaultId: fixture.hello?.defaultAgentId ?? agents[0]?.id ?? "main",
+        agents: agents.map((agent) => ({
+          id: agent.id,
+          name: agent.name,
+          identity: { name: agent.name },
+          chatAttachments: agent.chatAttachments,
+        })),
+      });
+      return;
+    }
+    case "sessions.list": {
+      const agentId = typeof params.agentId === "string" ? params.agentId : "";
+      const sessions = Array.from(state.sessions.values()).filter(
+        (session) => !agentId || session.key.startsWith(`agent:${agentId}:`),
+      );
+      respond(connection, frame.id, {
+        sessions: sessions.map((session) => {
+          const usage = estimateUsage(session.messages);
+          return {
+            key: session.key,
+            label: session.label,
+            model: session.model,
+            modelProvider: session.modelProvider,
+            updatedAt: session.messages.at(-1)?.timestamp,
+            ...usage,
+            totalTokens: usage.inputTokens + usage.outputTokens,
+            contextTokens: 128000,
+          };
+        }),
+      });
+      return;
+    }
+    case "sessions.resolve": {
+      const key = typeof params.key === "string" ? params.key.trim() : "";
+      if (!key) {
+        fail(connection, frame.id, "INVALID_PARAMS", "key is required");
+        return;
+      }
+      ensureSession(state, key);
+      respond(connection, frame.id, { key });
+      return;
+    }
+    case "sessions.patch":
+    case "sessions.reset":
+    case "sessions.delete": {
+      const key = typeof params.key === "string" ? params.key.trim() : "";
+      const session = state.sessions.get(key);
+      if (!key || !session) {
+        fail(connection, frame.id, "INVALID_PARAMS", key ? `unknown session ${key}` : "key is required");
+        return;
+      }
+      if (frame.method === "sessions.patch") {
+        session.label = typeof params.label === "string" && params.label.trim() ? params.label.trim() : undefined;
+      } else if (frame.method === "sessions.reset") {
+        session.messages = [];
+      } else if (/^agent:[^:]+:main$/.test(key)) {
+        fail(connection, frame.id, "INVALID_PARAMS", "cannot delete the main session");
+        return;
+      } else {
+        state.sessions.delete(key);
+        respond(connection, frame.id, { ok: true, deleted: true });
+        return;
+      }
+      respond(connection, frame.id, { ok: true, key, entry: { key, label: session.label } });
+      return;
+    }
+    case "chat.history": {
+      const sessionKey = typeof params.sessionKey === "string" ? params.sessionKey : "";
+      const limit = typeof params.limit === "number" && params.limit > 0 ? params.limit : 200;
+      const messages = state.sessions.get(sessionKey)?.messages ?? [];
+      // Cursor is the index of the oldest message already delivered.
+      const before = typeof params.before === "string" ? Number.parseInt(params.before, 10) : Number.NaN;
+      const end = Number.isFinite(before) ? Math.max(0, Math.min(before, messages.length)) : messages.length;
+      const start = Math.max(0, end - limit);
+      respond(connection, frame.id, {
+        sessionKey,
+        messages: messages.slice(start, end),
+        hasMore: start > 0,
+        nextCursor: start > 0 ? String(start) : undefined,
+      });
+      return;
+    }
+    case "chat.send":
+      handleChatSend(connection, frame);
+      return;
+    case "chat.abort":
+      handleChatAbort(connection, frame);
+      return;
+    default:
+      fail(connection, frame.id, "UNKNOWN_METHOD", `mock gateway does not implement ${frame.method}`);
+  }
+}
+
+export function mockGatewayPlugin(options: { fixturesDir: string; pathSuffix: string; defaultFixture?: string }): Plugin {
+  const defaultFixture = sanitizeFixtureName(options.defaultFixture, "default");
+  const attachedServers = new WeakSet<object>();
+  // Conversation state survives reconnects so history and resume behave like a real gateway.
+  const fixtureStates = new Map<string, FixtureState>();
+
+  type UpgradeCapableServer = {
+    on(event: "upgrade", listener: (request: IncomingMessage, socket: Socket, head: Buffer) => void): void;
+  };
+
+  const wireUpgrades = (httpServer: unknown) => {
+    if (!httpServer || typeof httpServer !== "object" || attachedServers.has(httpServer)) {
+      return;
+    }
+    const server = httpServer as Partial<UpgradeCapableServer>;
+    if (typeof server.on !== "function") {
+      return;
+    }
+    attachedServers.add(httpServer);
+
+    const mockWss = new WebSocketServer({ noServer: true });
+
+    server.on("upgrade", (request, socket, head) => {
+      if (!matchesApiPath(request.url, options.pathSuffix)) {
+        return;
+      }
+      mockWss.handleUpgrade(request, socket, head, (websocket: WebSocket) => {
+        mockWss.emit("connection", websocket, request);
+      });
+    });
+
+    mockWss.on("connection", (socket: WebSocket, request: IncomingMessage) => {
+      const requestUrl = new URL(request.url ?? options.pathSuffix, "http://localhost");
+      const fixtureName = sanitizeFixtureName(requestUrl.searchParams.get("fixture"), defaultFixture);
+
+      void readFixture(options.fixturesDir, fixtureName)
+        .then((fixture) => {
+          let state = fixtureStates.get(fixtureName);
+          if (!state) {
+            state = createFixtureState(fixture);
+            fixtureStates.set(fixtureName, state);
+          }
+          const connection: MockConnection = {
+            socket,
+            fixture,
+            state,
+            seq: 0,
+            timers: new Set(),
+            runs: new Map(),
+            mutedRuns: new Set(),
+          };
+
+          socket.on("message", (data: RawData) => {
+            let frame: unknown;
+            try {
+              frame = JSON.parse(String(data));
+            } catch {
+              return;
+            }
+            if (isRecord(frame) && frame.type === "req" && typeof frame.id === "string" && typeof frame.method === "string") {
+              handleRequest(connection, frame as RequestFrame);
+            }
+          });
+          socket.on("close", () => {
+            for (const timer of connection.timers) {
+              clearTimeout(timer);
+            }
+            connection.timers.clear();
+            connection.runs.clear();
+            if (connection.state.online.delete(connection)) {
+              broadcastPresence(connection.state);
+            }
+          });
+
+          sendEvent(connection, "connect.challenge", { nonce: randomUUID() });
+        })
+        .catch((error: unknown) => {
+          const message = error instanceof Error ? error.message : String(error);
+          socket.close(1011, `mock fixture ${fixtureName}: ${message}`.slice(0, 120));
+        });
+    });
+  };
+
+  return {
+    name: "openclaw-mock-gateway",
+    configureServer(server) {
+      wireUpgrades(server.httpServer);
+    },
+    configurePreviewServer(server) {
+      wireUpgrades(server.httpServer);
+    },
+  };
+}
@@ -1,20 +1,54 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import { type OutboundAttachment, useOpenClawChat } from "./hooks/useOpenClawChat";
+import ChatMessageParts from "./components/ChatMessageParts";
+import FrameInspector from "./components/FrameInspector";
+import SessionBrowser from "./components/SessionBrowser";
+import { useDeviceIdentity } from "./hooks/useDeviceIdentity";
+import { type ConnectionState, useOpenClawChat } from "./hooks/useOpenClawChat";
+import {
+  type AttachmentDelivery,
+  INLINE_ATTACHMENT_MAX_CHARS,
+  type OutboundAttachment,
+  canInlineAttachment,
+  defaultAttachmentDelivery,
+  describeTextKind,
+  isInlineAttachment,
+} from "./lib/attachmentText";
+import { sortPresence } from "./lib/gatewayEventBus";
+import type { ReplyResolution } from "./lib/replyReconciler";
+import { gatewaySupportsMethod } from "./lib/gatewayCapabilities";
+import { isSameSessionKey, normalizeSessionKeyInput, parseSessionAgentId, roomSessionKey } from "./lib/sessionKeys";
+import {
+  GATEWAY_CONNECTION_PROFILES,
+  type GatewayConnectionProfileId,
+  getConnectionProfile,
+  hasAdminScope,
+} from "./lib/connectionProfiles";
 import "./App.css";
 
-const STATUS_TEXT: Record<"idle" | "connecting" | "connected" | "error", string> = {
+const STATUS_TEXT: Record<ConnectionState, string> = {
   idle: "未连接",
   connecting: "连接中",
   connected: "已连接",
+  reconnecting: "重连中",
+  pairing: "待配对",
   error: "连接异常",
 };
 
+const REPLY_RESOLUTION_TEXT: Record<ReplyResolution, { label: string; title: string }> = {
+  event: { label: "实时", title: "由网关的 chat 事件送达" },
+  history: { label: "历史补齐", title: "事件缺失，按本次发送的消息从会话历史中找到回复" },
+  timeout: { label: "超时", title: "长时间没有事件，历史中也没有找到回复" },
+  local: { label: "本地停止", title: "未等到网关确认，在本地结束" },
+};
+
 type RoomConfig = {
   id: string;
   name: string;
   agentId: string;
+  /** Session this room talks in; defaults to `defaultRoomSessionKey`. */
+  sessionKey: string;
 };
 
 type PreviewImageState = {
@@ -29,6 +63,7 @@ const MAIN_ROOM: RoomConfig = {
   id: MAIN_ROOM_ID,
   name: "main",
   agentId: "main",
+  sessionKey: "agent:main:main",
 };
 const LOOPBACK_HOSTS = new Set(["localhost", "127.0.0.1", "::1"]);
 
@@ -49,8 +84,14 @@ type UploadApiFile = {
   size: number;
   relativePath: string;
   absolutePath: string;
+  textKind?: OutboundAttachment["textKind"];
+  textContent?: string;
+  textTruncated?: boolean;
+  textError?: string;
 };
 
+const UPLOAD_TEXT_KINDS = new Set(["text", "pdf", "docx", "xlsx", "pptx"]);
+
 function looksLikeImageFileName(name: string): boolean {
   return /\.(png|jpe?g|gif|webp|bmp|svg|heic|heif|avif)$/i.test(name);
 }
@@ -66,8 +107,8 @@ function isLoopbackHost(hostname: string): boolean {
   return LOOPBACK_HOSTS.has(normalized);
 }
 
-function buildGatewayProxyUrl(basePath: string): string {
-  const proxyUrl = new URL(joinBasePath(basePath, "api/gateway/ws"), window.location.href);
+function buildGatewayProxyUrl(basePath: string, subPath = "api/gateway/ws"): string {
+  const proxyUrl = new URL(joinBasePath(basePath, subPath), window.location.href);
   proxyUrl.protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
   return proxyUrl.toString();
 }
@@ -108,6 +149,21 @@ const CHAT_TIME_FORMATTER = new Intl.DateTimeFormat("zh-CN", {
   hour12: false,
 });
 
+function renderAssistantMarkdown(text: string) {
+  return (
+    <div className="chat-markdown">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        components={{
+          a: ({ ...props }) => <a {...props} target="_blank" rel="noreferrer noopener" />,
+        }}
+      >
+        {text}
+      </ReactMarkdown>
+    </div>
+  );
+}
+
 function formatMessageTime(createdAt: string): string {
   const date = new Date(createdAt);
   if (Number.isNaN(date.getTime())) {
@@ -116,14 +172,48 @@ function formatMessageTime(createdAt: string): string {
   return CHAT_TIME_FORMATTER.format(date);
 }
 
+/** The main room stays on the agent's main session; every other room gets one of its own. */
+function defaultRoomSessionKey(roomId: string, agentId: string): string {
+  return roomId === MAIN_ROOM_ID ? `agent:${agentId}:main` : roomSessionKey(agentId, roomId);
+}
+
+/** The room's stored key when it belongs to `agentId`, otherwise the default for that agent. */
+function roomSessionKeyFor(room: RoomConfig, agentId: string): string {
+  const stored = room.sessionKey?.trim() ?? "";
+  return stored && parseSessionAgentId(stored) === agentId ? stored : defaultRoomSessionKey(room.id, agentId);
+}
+
 function ensureMainRoom(rooms: RoomConfig[]): RoomConfig[] {
-  const cleaned = rooms
-    .filter((room) => room && typeof room.id === "string" && room.id.trim())
-    .map((room) => ({
-      id: room.id.trim(),
-      name: room.name.trim() || room.id.trim(),
-      agentId: room.agentId.trim() || "main",
-    }));
+  const valid = rooms.filter((room) => room && typeof room.id === "string" && room.id.trim());
+  // Rooms saved before per-room sessions have no key and used to show their agent's main session.
+  // The first such room of each agent keeps that session, so its history stays in view.
+  const usedKeys = new Set(
+    valid
+      .map((room) =>
+        room.id.trim() === MAIN_ROOM_ID
+          ? roomSessionKeyFor({ ...room, id: MAIN_ROOM_ID }, room.agentId.trim() || "main")
+          : room.sessionKey?.trim() ?? "",
+      )
+      .filter(Boolean),
+  );
+  if (!valid.some((room) => room.id.trim() === MAIN_ROOM_ID)) {
+    usedKeys.add(MAIN_ROOM.sessionKey);
+  }
+  const cleaned = valid.map((room) => {
+    const id = room.id.trim();
+    const agentId = room.agentId.trim() || "main";
+    const legacyKey = `agent:${agentId}:main`;
+    const inheritsLegacySession = !room.sessionKey?.trim() && !usedKeys.has(legacyKey);
+    if (inheritsLegacySession) {
+      usedKeys.add(legacyKey);
+    }
+    return {
+      id,
+      name: room.name.trim() || id,
+      agentId,
+      sessionKey: inheritsLegacySession ? legacyKey : roomSessionKeyFor({ ...room, id }, agentId),
+    };
+  });
 
   const hasMain = cleaned.some((room) => room.id === MAIN_ROOM_ID);
   if (!hasMain) {
@@ -161,10 +251,11 @@ function parseRoomsCandidate(parsed: unknown): RoomConfig[] {
     const id = rawId || (fallbackName ? `legacy-${index}-${fallbackName}` : "");
     const name = typeof item.name === "string" ? item.name : "";
     const agentId = typeof item.agentId === "string" ? item.agentId : "main";
+    const sessionKey = typeof item.sessionKey === "string" ? item.sessionKey : "";
     if (!id.trim()) {
       continue;
     }
-    rooms.push({ id, name, agentId });
+    rooms.push({ id, name, agentId, sessionKey });
   }
   return rooms;
 }
@@ -219,7 +310,12 @@ function loadRoomsFromStorage(): RoomConfig[] {
   }
 }
 
-function App() {
+type AppProps = {
+  /** Reports whether the current (or requested) gateway scopes allow admin-only pages. */
+  onAdminAccessChange?: (allowed: boolean) => void;
+};
+
+function App({ onAdminAccessChange }: AppProps) {
   const [command, setCommand] = useState("");
   const [pendingAttachments, setPendingAttachments] = useState<OutboundAttachment[]>([]);
   const [uploading, setUploading] = useState(false);
@@ -227,11 +323,19 @@ function App() {
   const [previewImage, setPreviewImage] = useState<PreviewImageState | null>(null);
   const [dragActive, setDragActive] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [showFrameInspector, setShowFrameInspector] = useState(false);
+  const [showSessionBrowser, setShowSessionBrowser] = useState(false);
+  /** Session keys being typed in room settings, committed on blur / Enter. */
+  const [roomSessionKeyDrafts, setRoomSessionKeyDrafts] = useState<Record<string, string>>({});
+  const [roomSessionKeyError, setRoomSessionKeyError] = useState<{ roomId: string; message: string } | null>(null);
   const [showMobileRooms, setShowMobileRooms] = useState(false);
   const [topbarExpanded, setTopbarExpanded] = useState(true);
   const [rooms, setRooms] = useState<RoomConfig[]>(() => loadRoomsFromStorage());
   const [activeRoomId, setActiveRoomId] = useState(MAIN_ROOM_ID);
   const [roomsApiReady, setRoomsApiReady] = useState(false);
+  const [devicePassphrase, setDevicePassphrase] = useState("");
+  const [deviceNotice, setDeviceNotice] = useState<string | null>(null);
+  const device = useDeviceIdentity();
 
   const defaultUrl = useMemo(() => {
     const configured = (import.meta.env.VITE_OPENCLAW_WS_URL ?? "").trim();
@@ -245,6 +349,10 @@ function App() {
       return buildGatewayProxyUrl(basePath);
     }
 
+    if (configured === "mock") {
+      return buildGatewayProxyUrl(basePath, "api/gateway/mock");
+    }
+
     try {
       const configuredUrl = new URL(configured);
       if (isLoopbackHost(configuredUrl.hostname) && !isLoopbackHost(window.location.hostname)) {
@@ -273,29 +381,114 @@ function App() {
     setGatewayUrl,
     token,
     setToken,
+    profileId,
+    setProfileId,
+    grantedAccess,
+    pairingRequest,
     status,
+    reconnectAttempt,
+    liveness,
+    inflightRequests,
+    frameRecorder,
+    presence,
+    gatewayHealth,
+    agentRuns,
+    capabilities,
     lastError,
     sessionKey,
     isStreaming,
+    isAborting,
+    historyPaging,
+    transcriptFromCache,
+    imageAttachmentLimits,
+    runningSessionKeys,
     agents,
     agentModels,
     agentsLoading,
     agentSwitching,
     chatMessages,
+    outboundQueue,
+    removeQueuedPrompt,
     connect,
     disconnect,
-    cancelPending,
+    abortRun,
+    regenerateReply,
+    resendEditedPrompt,
+    forkSession,
+    loadOlderHistory,
+    jumpToDate,
     sendPrompt,
     switchAgent,
+    openCachedSession,
+    sessionList,
+    sessionsLoading,
+    refreshSessions,
+    startNewSession,
+    labelSession,
+    resetSession,
+    deleteSession,
   } = useOpenClawChat(defaultUrl, defaultToken);
 
   const connected = status === "connected";
+  const adminAllowed = hasAdminScope(grantedAccess?.scopes ?? getConnectionProfile(profileId).scopes);
   const topbarCollapsed = connected && !topbarExpanded;
+  const presenceList = useMemo(() => sortPresence(presence), [presence]);
+  const runningAgentRuns = useMemo(
+    () => Object.values(agentRuns).sort((left, right) => left.startedAt - right.startedAt),
+    [agentRuns],
+  );
   const chatScrollRef = useRef<HTMLDivElement>(null);
+  /** Follow new messages only while the reader is at the bottom of the transcript. */
+  const stickToBottomRef = useRef(true);
+  const lastScrollTopRef = useRef(0);
+  const scrolledSessionKeyRef = useRef(sessionKey);
+  /** First visible message before older history is prepended, so its position can be restored. */
+  const historyAnchorRef = useRef<{ messageId: string; offsetTop: number } | null>(null);
+  const [jumpDate, setJumpDate] = useState("");
+  const [jumpingToDate, setJumpingToDate] = useState(false);
+  const [jumpTargetId, setJumpTargetId] = useState<string | null>(null);
+  const [editingPrompt, setEditingPrompt] = useState<{ messageId: string; text: string } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const deviceImportRef = useRef<HTMLInputElement>(null);
   const dragDepthRef = useRef(0);
 
   const roomList = useMemo(() => ensureMainRoom(rooms), [rooms]);
+
+  const rotateDevice = useCallback(async () => {
+    if (!window.confirm("轮换后网关会把本机视为新设备，可能需要重新配对。确定轮换设备密钥？")) {
+      return;
+    }
+    await device.rotate();
+    setDeviceNotice("已生成新设备密钥，下次连接时生效。");
+  }, [device]);
+
+  const exportDevice = useCallback(async () => {
+    const backup = await device.exportBackup(devicePassphrase);
+    if (!backup) {
+      setDeviceNotice(null);
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([backup], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `openclaw-device-${device.identity?.deviceId.slice(0, 8) ?? "key"}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    setDeviceNotice("设备密钥已导出，请妥善保管备份文件和口令。");
+  }, [device, devicePassphrase]);
+
+  const onPickDeviceBackup = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file) {
+        return;
+      }
+      const imported = await device.importBackup(await file.text(), devicePassphrase);
+      setDeviceNotice(imported ? "设备密钥已导入，下次连接时生效。" : null);
+    },
+    [device, devicePassphrase],
+  );
   const activeRoom = useMemo(
     () => roomList.find((room) => room.id === activeRoomId) ?? roomList.find((room) => room.id === MAIN_ROOM_ID),
     [roomList, activeRoomId],
@@ -318,12 +511,24 @@ function App() {
     },
     [agents, defaultAgentId],
   );
+  /** Rooms bound to the same agent have separate sessions, so the badge follows the room's own key. */
+  const isRoomReplying = (room: RoomConfig) => {
+    const roomKey = roomSessionKeyFor(room, resolveRoomAgentId(room));
+    return runningSessionKeys.some((key) => isSameSessionKey(key, roomKey));
+  };
   const activeTargetAgentId = useMemo(() => {
     if (!activeRoom) {
       return defaultAgentId;
     }
     return resolveRoomAgentId(activeRoom);
   }, [activeRoom, defaultAgentId, resolveRoomAgentId]);
+  const activeRoomSessionKey = activeRoom ? roomSessionKeyFor(activeRoom, activeTargetAgentId) : undefined;
+
+  const isRoomReachable = useCallback(
+    (room: RoomConfig) =>
+      !connected || capabilities.enabled.agentSwitching || resolveRoomAgentId(room) === activeTargetAgentId,
+    [activeTargetAgentId, capabilities.enabled.agentSwitching, connected, resolveRoomAgentId],
+  );
 
   const agentOptions = useMemo(() => {
     const map = new Map<string, string>();
@@ -343,18 +548,60 @@ function App() {
     () => pendingAttachments.filter((attachment) => typeof attachment.imageDataUrl === "string" && attachment.imageDataUrl.length > 0),
     [pendingAttachments],
   );
+  const lastAssistantMessageId = useMemo(() => {
+    for (let index = chatMessages.length - 1; index >= 0; index -= 1) {
+      const message = chatMessages[index];
+      if (message.role === "assistant" && !message.pending && !message.seeded) {
+        return message.id;
+      }
+    }
+    return null;
+  }, [chatMessages]);
+  const messageActionsDisabled = isStreaming || agentSwitching;
+  const browsingCache = !connected && transcriptFromCache;
   const nonImageAttachments = useMemo(
     () => pendingAttachments.filter((attachment) => !(typeof attachment.imageDataUrl === "string" && attachment.imageDataUrl.length > 0)),
     [pendingAttachments],
   );
 
-  useEffect(() => {
+  useLayoutEffect(() => {
     const node = chatScrollRef.current;
     if (!node) {
       return;
     }
-    node.scrollTo({ top: node.scrollHeight, behavior: "smooth" });
-  }, [chatMessages, isStreaming]);
+    if (scrolledSessionKeyRef.current !== sessionKey) {
+      scrolledSessionKeyRef.current = sessionKey;
+      stickToBottomRef.current = true;
+      historyAnchorRef.current = null;
+    }
+    const anchor = historyAnchorRef.current;
+    if (anchor) {
+      const element = node.querySelector<HTMLElement>(`[data-message-id="${anchor.messageId}"]`);
+      if (element && chatMessages[0]?.id !== anchor.messageId) {
+        node.scrollTop += element.offsetTop - anchor.offsetTop;
+        historyAnchorRef.current = null;
+      }
+      return;
+    }
+    if (stickToBottomRef.current) {
+      node.scrollTo({ top: node.scrollHeight, behavior: "smooth" });
+    }
+  }, [chatMessages, isStreaming, sessionKey]);
+
+  useEffect(() => {
+    if (!jumpTargetId) {
+      return;
+    }
+    chatScrollRef.current
+      ?.querySelector<HTMLElement>(`[data-message-id="${jumpTargetId}"]`)
+      ?.scrollIntoView({ block: "start", behavior: "smooth" });
+    const timer = window.setTimeout(() => {
+      setJumpTargetId(null);
+    }, 2400);
+    return () => {
+      window.clearTimeout(timer);
+    };
+  }, [jumpTargetId]);
 
   useEffect(() => {
     localStorage.setItem(ROOMS_STORAGE_KEY, JSON.stringify(roomList));
@@ -389,7 +636,8 @@ function App() {
             }
             const name = typeof item.name === "string" ? item.name : id;
             const agentId = typeof item.agentId === "string" ? item.agentId : "main";
-            nextRooms.push({ id, name, agentId });
+            const sessionKey = typeof item.sessionKey === "string" ? item.sessionKey : "";
+            nextRooms.push({ id, name, agentId, sessionKey });
           }
           if (!cancelled) {
             const normalized = ensureMainRoom(nextRooms);
@@ -444,8 +692,20 @@ function App() {
     if (!connected) {
       return;
     }
-    void switchAgent(activeTargetAgentId);
-  }, [connected, activeTargetAgentId, switchAgent]);
+    void switchAgent(activeTargetAgentId, activeRoomSessionKey);
+  }, [connected, activeRoomSessionKey, activeTargetAgentId, switchAgent]);
+
+  useEffect(() => {
+    if (connected) {
+      return;
+    }
+    // Offline, rooms still open their locally cached transcript for reading.
+    void openCachedSession(activeTargetAgentId, activeRoomSessionKey);
+  }, [connected, activeRoomSessionKey, activeTargetAgentId, openCachedSession]);
+
+  useEffect(() => {
+    onAdminAccessChange?.(adminAllowed);
+  }, [adminAllowed, onAdminAccessChange]);
 
   useEffect(() => {
     if (connected) {
@@ -524,6 +784,13 @@ function App() {
         size: typeof first.size === "number" ? first.size : file.size,
         relativePath: typeof first.relativePath === "string" ? first.relativePath : "",
         absolutePath: typeof first.absolutePath === "string" ? first.absolutePath : "",
+        textKind:
+          typeof first.textKind === "string" && UPLOAD_TEXT_KINDS.has(first.textKind)
+            ? (first.textKind as UploadApiFile["textKind"])
+            : undefined,
+        textContent: typeof first.textContent === "string" ? first.textContent : undefined,
+        textTruncated: first.textTruncated === true,
+        textError: typeof first.textError === "string" ? first.textError : undefined,
       };
       const shouldTreatAsImage = saved.mimeType.startsWith("image/") || looksLikeImageFileName(saved.fileName);
       if (shouldTreatAsImage && !imageDataUrl) {
@@ -534,14 +801,19 @@ function App() {
         }
       }
 
-      return {
+      const attachment: OutboundAttachment = {
         fileName: saved.fileName,
         mimeType: saved.mimeType || "application/octet-stream",
         size: saved.size,
         relativePath: saved.relativePath,
         absolutePath: saved.absolutePath,
         imageDataUrl,
+        textKind: saved.textKind,
+        textContent: saved.textContent,
+        textTruncated: saved.textTruncated,
+        textError: saved.textError,
       };
+      return { ...attachment, delivery: defaultAttachmentDelivery(attachment) };
     }
 
     throw new Error(
@@ -640,8 +912,52 @@ function App() {
     setPendingAttachments((current) => current.filter((attachment) => attachment.relativePath !== relativePath));
   };
 
+  const setAttachmentDelivery = (relativePath: string, delivery: AttachmentDelivery) => {
+    setPendingAttachments((current) =>
+      current.map((attachment) => (attachment.relativePath === relativePath ? { ...attachment, delivery } : attachment)),
+    );
+  };
+
+  const loadOlderKeepingPosition = async () => {
+    const node = chatScrollRef.current;
+    const first = chatMessages[0];
+    const element = first ? node?.querySelector<HTMLElement>(`[data-message-id="${first.id}"]`) : null;
+    historyAnchorRef.current = first && element ? { messageId: first.id, offsetTop: element.offsetTop } : null;
+    const older = await loadOlderHistory();
+    if (older.length === 0) {
+      historyAnchorRef.current = null;
+    }
+  };
+
+  const onChatScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    const node = event.currentTarget;
+    // Only the reader scrolling up pages history, not the smooth scroll down after a room loads.
+    const scrolledUp = node.scrollTop < lastScrollTopRef.current;
+    lastScrollTopRef.current = node.scrollTop;
+    stickToBottomRef.current = node.scrollHeight - node.scrollTop - node.clientHeight < 80;
+    if (scrolledUp && node.scrollTop < 80 && connected && historyPaging.hasMore && !historyPaging.loading && !jumpingToDate) {
+      void loadOlderKeepingPosition();
+    }
+  };
+
+  const onJumpToDate = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!jumpDate || jumpingToDate) {
+      return;
+    }
+    stickToBottomRef.current = false;
+    setJumpingToDate(true);
+    try {
+      const targetId = await jumpToDate(new Date(`${jumpDate}T00:00:00`));
+      setJumpTargetId(targetId);
+    } finally {
+      setJumpingToDate(false);
+    }
+  };
+
   const onSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
+    stickToBottomRef.current = true;
     const sent = await sendPrompt(command, pendingAttachments);
     if (sent) {
       setCommand("");
@@ -659,6 +975,10 @@ function App() {
         room.id === roomId
           ? {
               ...room,
+              // A new agent means a new session, unless one is given along with it.
+              ...(patch.agentId && patch.agentId !== room.agentId && patch.sessionKey === undefined
+                ? { sessionKey: defaultRoomSessionKey(room.id, patch.agentId) }
+                : {}),
               ...patch,
             }
           : room,
@@ -666,6 +986,48 @@ function App() {
     );
   };
 
+  /** Makes the active room keep `key` (opened, started or forked from it) across reloads and reconnects. */
+  const bindActiveRoomSession = (key: string) => {
+    if (!activeRoom) {
+      return;
+    }
+    const nextKey = key === "main" ? `agent:${activeTargetAgentId}:main` : key;
+    // Rooms whose configured agent is missing on this gateway borrow the default one; leave those alone.
+    if (activeRoom.agentId !== activeTargetAgentId || parseSessionAgentId(nextKey) !== activeTargetAgentId) {
+      return;
+    }
+    if (nextKey !== activeRoom.sessionKey) {
+      updateRoom(activeRoom.id, { sessionKey: nextKey });
+    }
+  };
+
+  const commitRoomSessionKey = (room: RoomConfig) => {
+    const draft = roomSessionKeyDrafts[room.id];
+    setRoomSessionKeyDrafts((current) => {
+      const next = { ...current };
+      delete next[room.id];
+      return next;
+    });
+    if (draft === undefined) {
+      return;
+    }
+    if (!draft.trim()) {
+      setRoomSessionKeyError(null);
+      updateRoom(room.id, { sessionKey: defaultRoomSessionKey(room.id, room.agentId) });
+      return;
+    }
+    const normalized = normalizeSessionKeyInput(draft, room.agentId);
+    if (!normalized) {
+      setRoomSessionKeyError({
+        roomId: room.id,
+        message: `会话键需属于 Agent ${room.agentId}（agent:${room.agentId}:名称），且不能含空格。`,
+      });
+      return;
+    }
+    setRoomSessionKeyError(null);
+    updateRoom(room.id, { sessionKey: normalized });
+  };
+
   const removeRoom = (roomId: string) => {
     if (roomId === MAIN_ROOM_ID) {
       return;
@@ -678,10 +1040,12 @@ function App() {
 
   const addRoom = () => {
     const defaultAgent = agents.find((agent) => agent.isDefault)?.id ?? agents[0]?.id ?? "main";
+    const id = createRoomId();
     const nextRoom: RoomConfig = {
-      id: createRoomId(),
+      id,
       name: `room-${roomList.length}`,
       agentId: defaultAgent,
+      sessionKey: defaultRoomSessionKey(id, defaultAgent),
     };
     setRooms((current) => ensureMainRoom([...current, nextRoom]));
     setShowSettings(true);
@@ -699,7 +1063,7 @@ function App() {
       return;
     }
     const targetAgentId = resolveRoomAgentId(room);
-    await switchAgent(targetAgentId);
+    await switchAgent(targetAgentId, roomSessionKeyFor(room, targetAgentId));
   };
 
   return (
@@ -710,8 +1074,63 @@ function App() {
       <header className={`topbar ${topbarCollapsed ? "collapsed" : ""}`}>
         <div className="topbar-title-wrap">
           <h1 className="topbar-title">OpenClaw Visual Gateway</h1>
-          <span className={`status-badge status-${status}`}>{STATUS_TEXT[status]}</span>
+          <span className={`status-badge status-${status}`}>
+            {status === "reconnecting" && reconnectAttempt > 0
+              ? `${STATUS_TEXT[status]} (第 ${reconnectAttempt} 次)`
+              : STATUS_TEXT[status]}
+          </span>
           <span className="status-session">Session: {sessionKey}</span>
+          {outboundQueue.length > 0 ? (
+            <span className="status-queue" title="未连接时发送的消息，重连后按顺序自动发送">
+              待发送 {outboundQueue.length}
+            </span>
+          ) : null}
+          {connected && liveness ? (
+            <span className="status-latency" title={`最后收到帧: ${formatMessageTime(new Date(liveness.lastSeenAt).toISOString())}`}>
+              {liveness.latencyMs !== null ? `延迟 ${liveness.latencyMs}ms` : "延迟 --"}
+            </span>
+          ) : null}
+          {inflightRequests.length > 0 ? (
+            <details className="topbar-inspector inflight-inspector">
+              <summary>进行中请求 {inflightRequests.length}</summary>
+              <ul>
+                {inflightRequests.map((request) => (
+                  <li key={request.id}>
+                    <span className="inflight-method">{request.method}</span>
+                    <span className="inflight-meta">
+                      {formatMessageTime(new Date(request.startedAt).toISOString())}
+                      {request.timeoutMs > 0 ? ` · 超时 ${Math.round(request.timeoutMs / 1000)}s` : ""}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </details>
+          ) : null}
+          {connected && capabilities.missing.length > 0 ? (
+            <details className="topbar-inspector capability-inspector">
+              <summary>缺少 {capabilities.missing.length} 项网关能力</summary>
+              <ul>
+                {capabilities.missing.map((item) => (
+                  <li key={item.key}>
+                    <span className="capability-name">{item.label}</span>
+                    <span className="capability-meta">
+                      {[...item.missingMethods, ...item.missingEvents.map((event) => `event:${event}`)].join(", ") || "未声明"}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </details>
+          ) : null}
+          <button
+            type="button"
+            className="frame-inspector-toggle"
+            title="查看与网关往来的帧"
+            onClick={() => {
+              setShowFrameInspector(true);
+            }}
+          >
+            调试
+          </button>
         </div>
 
         {topbarCollapsed ? (
@@ -765,6 +1184,22 @@ function App() {
               />
             </label>
 
+            <label className="field">
+              <span>权限</span>
+              <select
+                value={profileId}
+                disabled={connected}
+                title={getConnectionProfile(profileId).description}
+                onChange={(event) => setProfileId(event.target.value as GatewayConnectionProfileId)}
+              >
+                {GATEWAY_CONNECTION_PROFILES.map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
             <button
               type="button"
               className="connect-button"
@@ -790,6 +1225,60 @@ function App() {
             </button>
           </div>
         )}
+        {connected ? (
+          <div className="gateway-strip" aria-label="网关状态">
+            <span
+              className={`gateway-health ${gatewayHealth ? (gatewayHealth.ok ? "healthy" : "unhealthy") : "unknown"}`}
+              title={
+                gatewayHealth
+                  ? `更新于 ${formatMessageTime(new Date(gatewayHealth.receivedAt).toISOString())}${
+                      gatewayHealth.durationMs !== undefined ? ` · 检查耗时 ${gatewayHealth.durationMs}ms` : ""
+                    }`
+                  : "网关尚未上报健康状态"
+              }
+            >
+              {gatewayHealth
+                ? gatewayHealth.ok
+                  ? "网关正常"
+                  : `网关异常${gatewayHealth.summary ? `: ${gatewayHealth.summary}` : ""}`
+                : "健康状态未知"}
+            </span>
+            {presenceList.length > 0 ? (
+              <details className="topbar-inspector presence-inspector">
+                <summary>在线客户端 {presenceList.length}</summary>
+                <ul>
+                  {presenceList.map((entry) => (
+                    <li key={entry.key}>
+                      <span className="presence-name">
+                        {entry.host ?? entry.instanceId ?? entry.deviceId ?? entry.key}
+                        {device.identity && entry.deviceId === device.identity.deviceId ? "（本机）" : ""}
+                      </span>
+                      <span className="presence-meta">
+                        {[entry.mode, entry.platform, entry.version].filter(Boolean).join(" · ") || "--"}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            ) : null}
+            {runningAgentRuns.length > 0 ? (
+              <details className="topbar-inspector agent-run-inspector">
+                <summary>Agent 运行中 {runningAgentRuns.length}</summary>
+                <ul>
+                  {runningAgentRuns.map((run) => (
+                    <li key={run.runId}>
+                      <span className="presence-name">{run.sessionKey ?? run.runId.slice(0, 8)}</span>
+                      <span className="presence-meta">
+                        {run.toolName ? `调用工具 ${run.toolName}` : "思考中"}
+                        {run.toolCount > 0 ? ` · 已用 ${run.toolCount} 次工具` : ""}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            ) : null}
+          </div>
+        ) : null}
       </header>
 
       <main className="main-grid">
@@ -817,6 +1306,18 @@ function App() {
             >
               房间: {activeRoom?.name ?? "main"}
             </button>
+            <button
+              type="button"
+              className="session-browser-toggle"
+              disabled={!connected || !capabilities.enabled.sessionListing || agentSwitching}
+              title={capabilities.enabled.sessionListing ? "查看并管理该 Agent 的会话" : "网关不支持 sessions.list"}
+              onClick={() => {
+                setShowSessionBrowser(true);
+                void refreshSessions();
+              }}
+            >
+              会话
+            </button>
           </div>
 
           <div className="chat-body">
@@ -828,12 +1329,17 @@ function App() {
                     type="button"
                     key={room.id}
                     className={`agent-item ${effectiveActiveRoomId === room.id ? "active" : ""}`}
-                    disabled={agentSwitching}
+                    disabled={agentSwitching || !isRoomReachable(room)}
                     onClick={async () => {
                       await selectRoom(room.id);
                     }}
                   >
-                    <span className="agent-name">{room.name}</span>
+                    <span className="agent-name">
+                      {room.name}
+                      {isRoomReplying(room) ? (
+                        <span className="agent-streaming" title="该房间正在生成回复">回复中</span>
+                      ) : null}
+                    </span>
                     <span className="agent-id">agent: {room.agentId}</span>
                     <span className="agent-model">{agentModels[resolveRoomAgentId(room)] ?? "模型: auto/default"}</span>
                   </button>
@@ -841,29 +1347,85 @@ function App() {
               </div>
             </aside>
 
-            <div className="chat-scroll" ref={chatScrollRef}>
+            <div className="chat-scroll" ref={chatScrollRef} onScroll={onChatScroll}>
+              {connected && chatMessages.length > 0 ? (
+                <div className="chat-history-bar">
+                  {historyPaging.loading ? (
+                    <span className="chat-history-status">正在加载更早的消息...</span>
+                  ) : historyPaging.hasMore ? (
+                    <button
+                      type="button"
+                      className="chat-history-more"
+                      disabled={jumpingToDate}
+                      onClick={() => {
+                        void loadOlderKeepingPosition();
+                      }}
+                    >
+                      加载更早的消息
+                    </button>
+                  ) : (
+                    <span className="chat-history-status">已到最早的消息</span>
+                  )}
+                  <form className="chat-history-jump" onSubmit={onJumpToDate}>
+                    <input
+                      type="date"
+                      value={jumpDate}
+                      onChange={(event) => setJumpDate(event.target.value)}
+                      aria-label="跳转到日期"
+                    />
+                    <button type="submit" disabled={!jumpDate || jumpingToDate}>
+                      {jumpingToDate ? "查找中..." : "跳转"}
+                    </button>
+                  </form>
+                </div>
+              ) : browsingCache ? (
+                <div className="chat-history-bar">
+                  <span className="chat-history-status">离线浏览本地缓存（只读），连接后自动与网关同步</span>
+                </div>
+              ) : null}
               {chatMessages.map((message) => (
                 <article
                   key={message.id}
-                  className={`chat-row chat-${message.role}${message.streaming ? " chat-streaming" : ""}`}
+                  data-message-id={message.id}
+                  className={`chat-row chat-${message.role}${message.streaming ? " chat-streaming" : ""}${message.pending ? " chat-pending" : ""}${message.seeded ? " chat-seeded" : ""}${message.id === jumpTargetId ? " chat-jump-target" : ""}`}
                 >
                   <div className="chat-role">
                     {message.role === "user" ? "你" : message.role === "assistant" ? "OpenClaw" : "系统"}
                   </div>
-                  {message.text ? (
-                    message.role === "assistant" ? (
-                      <div className="chat-markdown">
-                        <ReactMarkdown
-                          remarkPlugins={[remarkGfm]}
-                          components={{
-                            a: ({ ...props }) => (
-                              <a {...props} target="_blank" rel="noreferrer noopener" />
-                            ),
-                          }}
-                        >
-                          {message.text}
-                        </ReactMarkdown>
+                  {editingPrompt?.messageId === message.id ? (
+                    <form
+                      className="chat-edit-form"
+                      onSubmit={async (event) => {
+                        event.preventDefault();
+                        stickToBottomRef.current = true;
+                        const forkKey = await resendEditedPrompt(message.id, editingPrompt.text);
+                        if (forkKey) {
+                          setEditingPrompt(null);
+                          bindActiveRoomSession(forkKey);
+                        }
+                      }}
+                    >
+                      <textarea
+                        value={editingPrompt.text}
+                        onChange={(event) => setEditingPrompt({ messageId: message.id, text: event.target.value })}
+                        rows={Math.min(8, Math.max(2, editingPrompt.text.split("\n").length))}
+                        autoFocus
+                      />
+                      <div className="chat-edit-actions">
+                        <span>将从这里分支出新会话并发送</span>
+                        <button type="button" onClick={() => setEditingPrompt(null)}>
+                          取消
+                        </button>
+                        <button type="submit" disabled={messageActionsDisabled || !editingPrompt.text.trim()}>
+                          发送
+                        </button>
                       </div>
+                    </form>
+                  ) : message.role === "assistant" && message.parts ? (
+                    <ChatMessageParts parts={message.parts} text={message.text} renderText={renderAssistantMarkdown} />
+                  ) : message.text ? (
+                    message.role === "assistant" ? (
+                      renderAssistantMarkdown(message.text)
                     ) : (
                       <pre className="chat-text">{message.text}</pre>
                     )
@@ -888,7 +1450,76 @@ function App() {
                       ))}
                     </div>
                   ) : null}
-                  <div className="chat-time">{formatMessageTime(message.createdAt)}</div>
+                  {message.pending ? (
+                    <div className="chat-pending-meta">
+                      <span>待发送 · 重连后自动发送</span>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          removeQueuedPrompt(message.id);
+                        }}
+                      >
+                        撤回
+                      </button>
+                    </div>
+                  ) : null}
+                  {(message.role === "user" || message.role === "assistant") &&
+                  !browsingCache &&
+                  !message.pending &&
+                  !message.streaming &&
+                  editingPrompt?.messageId !== message.id ? (
+                    <div className="chat-actions">
+                      {message.role === "user" && message.text ? (
+                        <button
+                          type="button"
+                          disabled={messageActionsDisabled}
+                          onClick={() => setEditingPrompt({ messageId: message.id, text: message.text })}
+                        >
+                          编辑
+                        </button>
+                      ) : null}
+                      {message.id === lastAssistantMessageId ? (
+                        <button
+                          type="button"
+                          disabled={messageActionsDisabled}
+                          onClick={async () => {
+                            stickToBottomRef.current = true;
+                            const forkKey = await regenerateReply();
+                            if (forkKey) {
+                              bindActiveRoomSession(forkKey);
+                            }
+                          }}
+                        >
+                          重新生成
+                        </button>
+                      ) : null}
+                      <button
+                        type="button"
+                        disabled={messageActionsDisabled}
+                        title="带着到这里为止的对话开一个新会话"
+                        onClick={() => {
+                          setEditingPrompt(null);
+                          const forkKey = forkSession(message.id);
+                          if (forkKey) {
+                            bindActiveRoomSession(forkKey);
+                          }
+                        }}
+                      >
+                        分支
+                      </button>
+                    </div>
+                  ) : null}
+                  <div className="chat-time">
+                    {message.resolvedVia ? (
+                      <span
+                        className={`chat-resolution via-${message.resolvedVia}`}
+                        title={REPLY_RESOLUTION_TEXT[message.resolvedVia].title}
+                      >
+                        {REPLY_RESOLUTION_TEXT[message.resolvedVia].label}
+                      </span>
+                    ) : null}
+                    {formatMessageTime(message.createdAt)}
+                  </div>
                 </article>
               ))}
             </div>
@@ -914,7 +1545,7 @@ function App() {
               <button
                 type="button"
                 className="upload-button"
-                disabled={!connected || isStreaming || agentSwitching || uploading}
+                disabled={isStreaming || agentSwitching || uploading}
                 onClick={() => {
                   fileInputRef.current?.click();
                 }}
@@ -923,6 +1554,13 @@ function App() {
               </button>
               <span className="upload-tip">支持粘贴图片和拖拽文件到输入区</span>
               {uploadError ? <span className="upload-error">{uploadError}</span> : null}
+              {imageAttachments.length > 0 ? (
+                <span className="upload-tip">
+                  {imageAttachmentLimits
+                    ? `图片随消息附带（单张 ≤ ${formatFileSize(imageAttachmentLimits.maxBytes)}，合计 ≤ ${formatFileSize(imageAttachmentLimits.maxTotalBytes)}，最多 ${imageAttachmentLimits.maxCount} 张）`
+                    : "当前 Agent 不接收图片附件，将只发送文件路径"}
+                </span>
+              ) : null}
             </div>
 
             {imageAttachments.length > 0 ? (
@@ -967,7 +1605,36 @@ function App() {
                 {nonImageAttachments.map((attachment) => (
                   <div key={attachment.relativePath} className="attachment-item">
                     <span className="attachment-name">{attachment.fileName}</span>
-                    <span className="attachment-meta">{formatFileSize(attachment.size)}</span>
+                    <span className="attachment-meta" title={attachment.textError}>
+                      {formatFileSize(attachment.size)}
+                      {canInlineAttachment(attachment)
+                        ? ` · ${describeTextKind(attachment)} ${attachment.textContent?.length.toLocaleString()} 字${attachment.textTruncated ? "+" : ""}`
+                        : attachment.textError
+                          ? " · 无法提取文本"
+                          : ""}
+                    </span>
+                    {canInlineAttachment(attachment) ? (
+                      <div className="attachment-delivery" role="group" aria-label={`${attachment.fileName} 的发送方式`}>
+                        <button
+                          type="button"
+                          className={isInlineAttachment(attachment) ? "" : "active"}
+                          disabled={isStreaming || agentSwitching}
+                          onClick={() => setAttachmentDelivery(attachment.relativePath, "reference")}
+                          title="只发送文件路径，Agent 需要能访问本机文件"
+                        >
+                          引用路径
+                        </button>
+                        <button
+                          type="button"
+                          className={isInlineAttachment(attachment) ? "active" : ""}
+                          disabled={isStreaming || agentSwitching}
+                          onClick={() => setAttachmentDelivery(attachment.relativePath, "inline")}
+                          title={`把文件内容写入消息（单个文件最多 ${INLINE_ATTACHMENT_MAX_CHARS.toLocaleString()} 字）`}
+                        >
+                          内联内容
+                        </button>
+                      </div>
+                    ) : null}
                     <button
                       type="button"
                       className="attachment-remove"
@@ -988,24 +1655,27 @@ function App() {
                 value={command}
                 onChange={(event) => setCommand(event.target.value)}
                 onPaste={onInputPaste}
-                placeholder={connected ? "输入问题，或直接粘贴图片 / 拖拽文件..." : "请先连接 Gateway"}
-                disabled={!connected || agentSwitching}
+                placeholder={
+                  connected ? "输入问题，或直接粘贴图片 / 拖拽文件..." : "未连接：消息会先排队，连接后自动发送"
+                }
+                disabled={agentSwitching}
               />
               <button
                 type="submit"
-                disabled={!connected || isStreaming || agentSwitching || uploading || (!command.trim() && pendingAttachments.length === 0)}
+                disabled={isStreaming || agentSwitching || uploading || (!command.trim() && pendingAttachments.length === 0)}
               >
-                {isStreaming ? "处理中..." : "发送"}
+                {isStreaming ? "处理中..." : connected ? "发送" : "排队"}
               </button>
               {isStreaming ? (
                 <button
                   type="button"
                   className="composer-stop-button"
+                  disabled={isAborting}
                   onClick={() => {
-                    cancelPending("已手动停止本次请求。");
+                    void abortRun();
                   }}
                 >
-                  停止
+                  {isAborting ? "停止中..." : "停止"}
                 </button>
               ) : null}
             </div>
@@ -1013,6 +1683,47 @@ function App() {
         </section>
       </main>
 
+      {status === "pairing" && pairingRequest ? (
+        <section className="settings-overlay" role="dialog" aria-modal="true" aria-label="设备配对">
+          <div className="pairing-panel">
+            <div className="settings-head">
+              <div>
+                <h3>等待配对批准</h3>
+                <p>网关要求先批准此设备。请在网关管理端核对以下信息并批准，批准后会自动完成连接。</p>
+              </div>
+            </div>
+            <div className="pairing-body">
+              {pairingRequest.pairingCode ? (
+                <div className="pairing-code" aria-label="配对码">
+                  {pairingRequest.pairingCode}
+                </div>
+              ) : null}
+              <div className="settings-agent-meta" title={pairingRequest.deviceId ?? undefined}>
+                设备 ID: {pairingRequest.deviceId ?? "未携带设备签名"}
+              </div>
+              {pairingRequest.requestId ? (
+                <div className="settings-agent-meta">请求 ID: {pairingRequest.requestId}</div>
+              ) : null}
+              {pairingRequest.expiresAt ? (
+                <div className="settings-agent-meta">
+                  有效期至: {formatMessageTime(new Date(pairingRequest.expiresAt).toISOString())}
+                </div>
+              ) : null}
+              <div className="settings-empty">正在等待批准...</div>
+              <button
+                type="button"
+                className="room-delete-button"
+                onClick={() => {
+                  disconnect();
+                }}
+              >
+                取消连接
+              </button>
+            </div>
+          </div>
+        </section>
+      ) : null}
+
       {previewImage ? (
         <section
           className="image-preview-overlay"
@@ -1046,6 +1757,54 @@ function App() {
         </section>
       ) : null}
 
+      {showFrameInspector ? (
+        <FrameInspector
+          recorder={frameRecorder}
+          gatewayUrl={gatewayUrl}
+          onClose={() => {
+            setShowFrameInspector(false);
+          }}
+        />
+      ) : null}
+
+      {showSessionBrowser ? (
+        <SessionBrowser
+          agentId={parseSessionAgentId(sessionKey) ?? activeTargetAgentId}
+          currentSessionKey={sessionKey}
+          list={sessionList}
+          loading={sessionsLoading}
+          busy={agentSwitching}
+          canLabel={gatewaySupportsMethod(capabilities, "sessions.patch")}
+          canReset={gatewaySupportsMethod(capabilities, "sessions.reset")}
+          canDelete={gatewaySupportsMethod(capabilities, "sessions.delete")}
+          onRefresh={() => {
+            void refreshSessions();
+          }}
+          onOpen={(key) => {
+            setShowSessionBrowser(false);
+            // The room follows its session key; the switch happens once the binding changes.
+            bindActiveRoomSession(key);
+          }}
+          onNew={() => {
+            setShowSessionBrowser(false);
+            bindActiveRoomSession(startNewSession());
+          }}
+          onLabel={labelSession}
+          onReset={resetSession}
+          onDelete={async (key) => {
+            const fallbackKey = activeRoom ? defaultRoomSessionKey(activeRoom.id, activeTargetAgentId) : undefined;
+            const deleted = await deleteSession(key, fallbackKey);
+            if (deleted && activeRoom && activeRoom.sessionKey === key && fallbackKey) {
+              updateRoom(activeRoom.id, { sessionKey: fallbackKey });
+            }
+            return deleted;
+          }}
+          onClose={() => {
+            setShowSessionBrowser(false);
+          }}
+        />
+      ) : null}
+
       {showSettings ? (
         <section className="settings-overlay" role="dialog" aria-modal="true" aria-label="房间设置">
           <div className="settings-panel">
@@ -1124,6 +1883,32 @@ function App() {
                         </select>
                       </label>
 
+                      <label className="settings-field">
+                        <span>会话键</span>
+                        <input
+                          value={roomSessionKeyDrafts[room.id] ?? room.sessionKey}
+                          placeholder={defaultRoomSessionKey(room.id, room.agentId)}
+                          spellCheck={false}
+                          onChange={(event) => {
+                            const { value } = event.target;
+                            setRoomSessionKeyDrafts((current) => ({ ...current, [room.id]: value }));
+                          }}
+                          onBlur={() => {
+                            commitRoomSessionKey(room);
+                          }}
+                          onKeyDown={(event) => {
+                            if (event.key === "Enter") {
+                              event.currentTarget.blur();
+                            }
+                          }}
+                        />
+                        {roomSessionKeyError?.roomId === room.id ? (
+                          <em className="settings-field-error">{roomSessionKeyError.message}</em>
+                        ) : (
+                          <em className="settings-field-hint">留空恢复默认；同一 Agent 的房间各用各的会话。</em>
+                        )}
+                      </label>
+
                       <div className="settings-room-actions">
                         <button
                           type="button"
@@ -1151,6 +1936,84 @@ function App() {
                 </div>
               </section>
             </div>
+
+            <section className="settings-device">
+              <div className="settings-section-head">Device</div>
+              <div className="settings-device-body">
+                {device.status === "unavailable" ? (
+                  <div className="settings-device-warning">
+                    当前浏览器不支持 Ed25519 设备签名，连接时不会携带设备认证；要求设备配对的网关会拒绝本次连接。
+                  </div>
+                ) : null}
+                {device.status === "loading" ? <div className="settings-empty">读取设备密钥中...</div> : null}
+                {device.identity ? (
+                  <div className="settings-device-info">
+                    <div className="settings-agent-meta" title={device.identity.deviceId}>
+                      设备 ID: {device.identity.deviceId}
+                    </div>
+                    <div className="settings-agent-meta">指纹: {device.identity.fingerprint}</div>
+                    <div className="settings-agent-meta" title={device.identity.publicKey}>
+                      公钥: {device.identity.publicKey}
+                    </div>
+                    {device.identity.createdAt !== null ? (
+                      <div className="settings-agent-meta">
+                        生成时间: {new Date(device.identity.createdAt).toLocaleString()}
+                      </div>
+                    ) : null}
+                  </div>
+                ) : null}
+                <div className="settings-device-actions">
+                  <label className="settings-field">
+                    <span>备份口令</span>
+                    <input
+                      type="password"
+                      value={devicePassphrase}
+                      onChange={(event) => setDevicePassphrase(event.target.value)}
+                      placeholder="导出 / 导入时使用"
+                    />
+                  </label>
+                  <input
+                    ref={deviceImportRef}
+                    type="file"
+                    className="file-input-hidden"
+                    accept="application/json,.json"
+                    onChange={onPickDeviceBackup}
+                  />
+                  <button
+                    type="button"
+                    className="room-select-button"
+                    disabled={device.busy || !device.identity || !devicePassphrase}
+                    onClick={() => {
+                      void exportDevice();
+                    }}
+                  >
+                    导出
+                  </button>
+                  <button
+                    type="button"
+                    className="room-select-button"
+                    disabled={device.busy || device.status === "unavailable" || !devicePassphrase}
+                    onClick={() => {
+                      deviceImportRef.current?.click();
+                    }}
+                  >
+                    导入
+                  </button>
+                  <button
+                    type="button"
+                    className="room-delete-button"
+                    disabled={device.busy || device.status === "unavailable"}
+                    onClick={() => {
+                      void rotateDevice();
+                    }}
+                  >
+                    轮换密钥
+                  </button>
+                </div>
+                {device.error ? <div className="settings-device-warning">{device.error}</div> : null}
+                {!device.error && deviceNotice ? <div className="settings-empty">{deviceNotice}</div> : null}
+              </div>
+            </section>
           </div>
         </section>
       ) : null}
@@ -1189,12 +2052,17 @@ function App() {
                   type="button"
                   key={`mobile-${room.id}`}
                   className={`agent-item ${effectiveActiveRoomId === room.id ? "active" : ""}`}
-                  disabled={agentSwitching}
+                  disabled={agentSwitching || !isRoomReachable(room)}
                   onClick={async () => {
                     await selectRoom(room.id);
                   }}
                 >
-                  <span className="agent-name">{room.name}</span>
+                  <span className="agent-name">
+                    {room.name}
+                    {isRoomReplying(room) ? (
+                      <span className="agent-streaming" title="该房间正在生成回复">回复中</span>
+                    ) : null}
+                  </span>
                   <span className="agent-id">agent: {room.agentId}</span>
                   <span className="agent-model">{agentModels[resolveRoomAgentId(room)] ?? "模型: auto/default"}</span>
                 </button>
@@ -1,5 +1,6 @@
 import { useEffect, useMemo, useState } from "react";
 import App from "./App";
+import { getConnectionProfile, hasAdminScope, loadStoredConnectionProfileId } from "./lib/connectionProfiles";
 import ConfigStudioPage from "./pages/ConfigStudioPage";
 import "./Root.css";
 
@@ -29,6 +30,10 @@ function Root() {
     }
     return resolveRoute(window.location.hash);
   });
+  const [adminAllowed, setAdminAllowed] = useState(() =>
+    hasAdminScope(getConnectionProfile(loadStoredConnectionProfileId()).scopes),
+  );
+  const effectiveRoute: AppRoute = route === "config" && !adminAllowed ? "chat" : route;
 
   useEffect(() => {
     ensureDefaultHash();
@@ -41,19 +46,28 @@ function Root() {
     };
   }, []);
 
-  const title = useMemo(() => (route === "chat" ? "聊天控制台" : "配置工作台"), [route]);
+  useEffect(() => {
+    if (route === "config" && !adminAllowed) {
+      // location.replace fires hashchange, which moves the route state back to chat.
+      window.location.replace("#/chat");
+    }
+  }, [adminAllowed, route]);
+
+  const title = useMemo(() => (effectiveRoute === "chat" ? "聊天控制台" : "配置工作台"), [effectiveRoute]);
 
   return (
     <div className="root-shell">
-      {route === "chat" ? <App /> : <ConfigStudioPage />}
+      {effectiveRoute === "chat" ? <App onAdminAccessChange={setAdminAllowed} /> : <ConfigStudioPage />}
       <nav className="route-dock" aria-label="页面切换">
         <span>{title}</span>
-        <a href="#/chat" className={route === "chat" ? "active" : ""}>
+        <a href="#/chat" className={effectiveRoute === "chat" ? "active" : ""}>
           聊天
         </a>
-        <a href="#/config-studio" className={route === "config" ? "active" : ""}>
-          配置
-        </a>
+        {adminAllowed ? (
+          <a href="#/config-studio" className={effectiveRoute === "config" ? "active" : ""}>
+            配置
+          </a>
+        ) : null}
       </nav>
     </div>
   );
@@ -0,0 +1,79 @@
+import { Fragment, type ReactNode } from "react";
+import type { ChatContentPart, ChatToolCallPart } from "../lib/chatContent";
+
+type ChatMessagePartsProps = {
+  parts: ChatContentPart[];
+  /** Prose of the message; rendered after the parts when they carry no text of their own (streaming). */
+  text: string;
+  renderText: (text: string) => ReactNode;
+};
+
+const MAX_TOOL_VALUE_CHARS = 4000;
+
+const TOOL_STATUS_LABELS: Record<ChatToolCallPart["status"], string> = {
+  running: "运行中",
+  done: "完成",
+  error: "失败",
+  stopped: "未完成",
+};
+
+function formatToolValue(value: unknown): string {
+  let text: string;
+  if (typeof value === "string") {
+    text = value;
+  } else {
+    try {
+      text = JSON.stringify(value, null, 2) ?? String(value);
+    } catch {
+      text = String(value);
+    }
+  }
+  return text.length > MAX_TOOL_VALUE_CHARS ? `${text.slice(0, MAX_TOOL_VALUE_CHARS)}\n... (${text.length} 字符)` : text;
+}
+
+function formatDuration(durationMs: number): string {
+  return durationMs < 1000 ? `${durationMs}ms` : `${(durationMs / 1000).toFixed(1)}s`;
+}
+
+function ToolCallCard({ part }: { part: ChatToolCallPart }) {
+  return (
+    <details className={`chat-tool-card tool-${part.status}`}>
+      <summary>
+        <span className="chat-tool-name">{part.name}</span>
+        <span className="chat-tool-status">{TOOL_STATUS_LABELS[part.status]}</span>
+        {part.durationMs !== undefined ? <span className="chat-tool-duration">{formatDuration(part.durationMs)}</span> : null}
+      </summary>
+      <div className="chat-tool-body">
+        <span className="chat-tool-label">参数</span>
+        <pre>{part.args === undefined ? "（无）" : formatToolValue(part.args)}</pre>
+        <span className="chat-tool-label">结果</span>
+        <pre>{part.status === "running" ? "等待结果..." : part.result === undefined ? "（无）" : formatToolValue(part.result)}</pre>
+      </div>
+    </details>
+  );
+}
+
+function ChatMessageParts({ parts, text, renderText }: ChatMessagePartsProps) {
+  const hasOwnText = parts.some((part) => part.type === "text");
+  return (
+    <>
+      {parts.map((part, index) => {
+        if (part.type === "text") {
+          return <Fragment key={`text-${index}`}>{renderText(part.text)}</Fragment>;
+        }
+        if (part.type === "thinking") {
+          return (
+            <details key={`thinking-${index}`} className="chat-thinking">
+              <summary>{part.redacted ? "思考过程（已加密）" : `思考过程 · ${part.text.length} 字`}</summary>
+              {part.text ? <div className="chat-thinking-body">{part.text}</div> : null}
+            </details>
+          );
+        }
+        return <ToolCallCard key={part.id || `tool-${index}`} part={part} />;
+      })}
+      {!hasOwnText && text ? renderText(text) : null}
+    </>
+  );
+}
+
+export default ChatMessageParts;
@@ -0,0 +1,170 @@
+import { useMemo, useState, useSyncExternalStore } from "react";
+import {
+  type FrameFilter,
+  type FrameRecorder,
+  type RecordedFrame,
+  exportFrameCapture,
+  filterFrames,
+} from "../lib/frameRecorder";
+
+type FrameInspectorProps = {
+  recorder: FrameRecorder;
+  gatewayUrl: string;
+  onClose: () => void;
+};
+
+const FRAME_TIME_FORMATTER = new Intl.DateTimeFormat("zh-CN", {
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+  hour12: false,
+});
+
+function formatFrameTime(at: number): string {
+  return `${FRAME_TIME_FORMATTER.format(new Date(at))}.${String(at % 1000).padStart(3, "0")}`;
+}
+
+function describeFrame(frame: RecordedFrame): string {
+  if (frame.kind === "event") {
+    return frame.event ?? "event";
+  }
+  if (frame.kind === "invalid") {
+    return "无法解析的帧";
+  }
+  return frame.method ?? frame.requestId ?? frame.kind;
+}
+
+function FrameInspector({ recorder, gatewayUrl, onClose }: FrameInspectorProps) {
+  const frames = useSyncExternalStore(recorder.subscribe, recorder.getSnapshot);
+  const [query, setQuery] = useState("");
+  const [direction, setDirection] = useState<NonNullable<FrameFilter["direction"]>>("all");
+  const [kind, setKind] = useState<NonNullable<FrameFilter["kind"]>>("all");
+  const [expandedSeq, setExpandedSeq] = useState<number | null>(null);
+
+  const visibleFrames = useMemo(
+    () => filterFrames(frames, { query, direction, kind }).slice().reverse(),
+    [direction, frames, kind, query],
+  );
+
+  const exportCapture = () => {
+    const blob = new Blob([exportFrameCapture(visibleFrames.slice().reverse(), { gatewayUrl })], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `openclaw-frames-${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <section className="settings-overlay" role="dialog" aria-modal="true" aria-label="帧调试台">
+      <div className="settings-panel frame-inspector">
+        <div className="settings-head">
+          <div>
+            <h3>帧调试台</h3>
+            <p>记录与网关往来的每一帧；请求与响应按 ID 配对并显示耗时，凭据字段已脱敏。</p>
+          </div>
+          <button type="button" className="settings-close" onClick={onClose}>
+            关闭
+          </button>
+        </div>
+
+        <div className="frame-inspector-body">
+          <div className="frame-inspector-filters">
+            <label className="settings-field">
+              <span>方法 / 事件 / Session</span>
+              <input
+                value={query}
+                onChange={(event) => setQuery(event.target.value)}
+                placeholder="例如 chat.send 或 agent:main"
+              />
+            </label>
+            <label className="settings-field">
+              <span>方向</span>
+              <select
+                value={direction}
+                onChange={(event) => setDirection(event.target.value as NonNullable<FrameFilter["direction"]>)}
+              >
+                <option value="all">全部</option>
+                <option value="out">发出</option>
+                <option value="in">收到</option>
+              </select>
+            </label>
+            <label className="settings-field">
+              <span>类型</span>
+              <select value={kind} onChange={(event) => setKind(event.target.value as NonNullable<FrameFilter["kind"]>)}>
+                <option value="all">全部</option>
+                <option value="req">请求</option>
+                <option value="res">响应</option>
+                <option value="event">事件</option>
+                <option value="invalid">无效</option>
+              </select>
+            </label>
+            <div className="frame-inspector-actions">
+              <button
+                type="button"
+                className="room-select-button"
+                disabled={visibleFrames.length === 0}
+                onClick={exportCapture}
+              >
+                导出 JSON
+              </button>
+              <button
+                type="button"
+                className="room-delete-button"
+                disabled={frames.length === 0}
+                onClick={() => {
+                  recorder.clear();
+                  setExpandedSeq(null);
+                }}
+              >
+                清空
+              </button>
+            </div>
+          </div>
+
+          <div className="frame-inspector-list">
+            {visibleFrames.length === 0 ? (
+              <div className="settings-empty">{frames.length === 0 ? "尚未记录到帧，连接 Gateway 后开始捕获。" : "没有匹配筛选条件的帧。"}</div>
+            ) : null}
+            {visibleFrames.map((frame) => (
+              <article key={frame.seq} className={`frame-row frame-${frame.direction} frame-kind-${frame.kind}`}>
+                <button
+                  type="button"
+                  className="frame-row-summary"
+                  onClick={() => {
+                    setExpandedSeq((current) => (current === frame.seq ? null : frame.seq));
+                  }}
+                >
+                  <span className="frame-time">{formatFrameTime(frame.at)}</span>
+                  <span className="frame-direction">{frame.direction === "out" ? "→" : "←"}</span>
+                  <span className="frame-kind">{frame.kind}</span>
+                  <span className="frame-name">{describeFrame(frame)}</span>
+                  <span className="frame-session">{frame.sessionKey ?? ""}</span>
+                  <span className={`frame-latency ${frame.ok === false ? "failed" : ""}`}>
+                    {frame.kind === "res"
+                      ? `${frame.ok ? "ok" : "error"}${frame.latencyMs !== undefined ? ` · ${frame.latencyMs}ms` : ""}`
+                      : ""}
+                  </span>
+                </button>
+                {expandedSeq === frame.seq ? (
+                  <pre className="frame-body">
+                    {typeof frame.body === "string" ? frame.body : JSON.stringify(frame.body, null, 2)}
+                  </pre>
+                ) : null}
+              </article>
+            ))}
+          </div>
+        </div>
+
+        <div className="frame-inspector-foot">
+          显示 {visibleFrames.length} / 已记录 {frames.length} 帧
+        </div>
+      </div>
+    </section>
+  );
+}
+
+export default FrameInspector;
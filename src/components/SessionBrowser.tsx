@@ -0,0 +1,252 @@
+import { useState } from "react";
+import type { GatewaySessionSummary } from "../lib/gatewayProtocol";
+import { isMainSessionKey } from "../lib/sessionKeys";
+import type { AgentSessionList } from "../hooks/useOpenClawChat";
+
+type SessionBrowserProps = {
+  agentId: string;
+  currentSessionKey: string;
+  list: AgentSessionList | null;
+  loading: boolean;
+  /** A session is being opened; actions wait for it. */
+  busy: boolean;
+  /** Which lifecycle methods the gateway offers. */
+  canLabel: boolean;
+  canReset: boolean;
+  canDelete: boolean;
+  onRefresh: () => void;
+  onOpen: (key: string) => void;
+  onNew: () => void;
+  onLabel: (key: string, label: string) => Promise<boolean>;
+  onReset: (key: string) => Promise<boolean>;
+  onDelete: (key: string) => Promise<boolean>;
+  onClose: () => void;
+};
+
+const SESSION_TIME_FORMATTER = new Intl.DateTimeFormat("zh-CN", {
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  hour12: false,
+});
+
+function formatTokens(value: number): string {
+  return value >= 10000 ? `${(value / 1000).toFixed(1)}k` : value.toLocaleString();
+}
+
+function describeUsage(session: GatewaySessionSummary): string {
+  const total = session.totalTokens ?? (session.inputTokens ?? 0) + (session.outputTokens ?? 0);
+  if (total <= 0 && session.inputTokens === undefined && session.outputTokens === undefined) {
+    return "用量: --";
+  }
+  const parts = [`输入 ${formatTokens(session.inputTokens ?? 0)}`, `输出 ${formatTokens(session.outputTokens ?? 0)}`];
+  const context = session.contextTokens ? ` / ${formatTokens(session.contextTokens)}` : "";
+  return `${parts.join(" · ")} · 共 ${formatTokens(total)}${context}`;
+}
+
+function describeModel(session: GatewaySessionSummary): string {
+  const model = session.model?.trim();
+  if (!model) {
+    return "模型: auto/default";
+  }
+  return session.modelProvider?.trim() ? `${session.modelProvider.trim()}/${model}` : model;
+}
+
+function SessionBrowser({
+  agentId,
+  currentSessionKey,
+  list,
+  loading,
+  busy,
+  canLabel,
+  canReset,
+  canDelete,
+  onRefresh,
+  onOpen,
+  onNew,
+  onLabel,
+  onReset,
+  onDelete,
+  onClose,
+}: SessionBrowserProps) {
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [labelDraft, setLabelDraft] = useState("");
+  const [pendingKey, setPendingKey] = useState<string | null>(null);
+
+  const sessions = list?.agentId === agentId ? list.sessions : [];
+  // A fresh or forked session exists only locally until its first prompt.
+  const currentListed = sessions.some((session) => session.key === currentSessionKey);
+
+  const runAction = async (key: string, action: () => Promise<boolean>) => {
+    setPendingKey(key);
+    try {
+      await action();
+    } finally {
+      setPendingKey(null);
+    }
+  };
+
+  const renderRow = (session: GatewaySessionSummary, unsaved: boolean) => {
+    const isCurrent = session.key === currentSessionKey;
+    const title = session.label ?? session.displayName ?? session.key;
+    const disabled = busy || pendingKey !== null;
+    return (
+      <article key={session.key} className={`session-row ${isCurrent ? "current" : ""}`}>
+        <div className="session-row-main">
+          {editingKey === session.key ? (
+            <form
+              className="session-label-form"
+              onSubmit={(event) => {
+                event.preventDefault();
+                void runAction(session.key, async () => {
+                  const saved = await onLabel(session.key, labelDraft);
+                  if (saved) {
+                    setEditingKey(null);
+                  }
+                  return saved;
+                });
+              }}
+            >
+              <input
+                value={labelDraft}
+                onChange={(event) => setLabelDraft(event.target.value)}
+                placeholder="会话名称（留空则清除）"
+                aria-label="会话名称"
+                autoFocus
+              />
+              <button type="submit" className="room-select-button" disabled={disabled}>
+                保存
+              </button>
+              <button
+                type="button"
+                className="room-select-button"
+                onClick={() => {
+                  setEditingKey(null);
+                }}
+              >
+                取消
+              </button>
+            </form>
+          ) : (
+            <span className="session-title">
+              {title}
+              {isCurrent ? <span className="session-current">当前</span> : null}
+              {unsaved ? <span className="session-unsaved">未保存到网关</span> : null}
+            </span>
+          )}
+          <span className="session-key">{session.key}</span>
+          {unsaved ? null : (
+            <span className="session-meta">
+              {session.updatedAt ? `最后活动 ${SESSION_TIME_FORMATTER.format(new Date(session.updatedAt))}` : "最后活动 --"}
+              {" · "}
+              {describeUsage(session)}
+              {" · "}
+              {describeModel(session)}
+            </span>
+          )}
+        </div>
+        <div className="session-row-actions">
+          <button
+            type="button"
+            className="room-select-button"
+            disabled={disabled || isCurrent}
+            onClick={() => {
+              onOpen(session.key);
+            }}
+          >
+            打开
+          </button>
+          {unsaved ? null : (
+            <>
+              <button
+                type="button"
+                className="room-select-button"
+                disabled={disabled || !canLabel}
+                title={canLabel ? "设置会话名称" : "网关不支持 sessions.patch"}
+                onClick={() => {
+                  setEditingKey(session.key);
+                  setLabelDraft(session.label ?? "");
+                }}
+              >
+                重命名
+              </button>
+              <button
+                type="button"
+                className="room-delete-button"
+                disabled={disabled || !canReset}
+                title={canReset ? "清空该会话的对话记录，保留会话本身" : "网关不支持 sessions.reset"}
+                onClick={() => {
+                  if (!window.confirm(`重置后 ${title} 的对话记录会被清空，确定重置？`)) {
+                    return;
+                  }
+                  void runAction(session.key, () => onReset(session.key));
+                }}
+              >
+                重置
+              </button>
+              <button
+                type="button"
+                className="room-delete-button"
+                disabled={disabled || !canDelete || isMainSessionKey(session.key)}
+                title={
+                  isMainSessionKey(session.key)
+                    ? "主会话不能删除"
+                    : canDelete
+                      ? "删除会话及其对话记录"
+                      : "网关不支持 sessions.delete"
+                }
+                onClick={() => {
+                  if (!window.confirm(`删除后 ${title} 及其对话记录无法恢复，确定删除？`)) {
+                    return;
+                  }
+                  void runAction(session.key, () => onDelete(session.key));
+                }}
+              >
+                删除
+              </button>
+            </>
+          )}
+        </div>
+      </article>
+    );
+  };
+
+  return (
+    <section className="settings-overlay" role="dialog" aria-modal="true" aria-label="会话">
+      <div className="settings-panel session-browser">
+        <div className="settings-head">
+          <div>
+            <h3>会话</h3>
+            <p>Agent {agentId} 在网关上的全部会话；打开后当前房间改用该会话。</p>
+          </div>
+          <button type="button" className="settings-close" onClick={onClose}>
+            关闭
+          </button>
+        </div>
+
+        <div className="session-browser-body">
+          <div className="session-browser-actions">
+            <button type="button" className="add-room-button" disabled={busy} onClick={onNew}>
+              新建会话
+            </button>
+            <button type="button" className="room-select-button" disabled={loading} onClick={onRefresh}>
+              {loading ? "刷新中..." : "刷新"}
+            </button>
+          </div>
+          <div className="session-browser-list">
+            {currentListed || !currentSessionKey ? null : renderRow({ key: currentSessionKey }, true)}
+            {sessions.map((session) => renderRow(session, false))}
+            {sessions.length === 0 ? (
+              <div className="settings-empty">{loading ? "正在读取会话列表..." : "网关上还没有该 Agent 的会话。"}</div>
+            ) : null}
+          </div>
+        </div>
+
+        <div className="session-browser-foot">共 {sessions.length} 个会话</div>
+      </div>
+    </section>
+  );
+}
+
+export default SessionBrowser;
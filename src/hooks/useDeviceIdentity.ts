@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  type DeviceIdentity,
+  type DeviceIdentitySummary,
+  exportDeviceIdentity,
+  importDeviceIdentity,
+  loadOrCreateDeviceIdentity,
+  rotateDeviceIdentity,
+  summarizeDeviceIdentity,
+  supportsEd25519,
+} from "../lib/deviceIdentity";
+
+export type DeviceIdentityStatus = "loading" | "ready" | "unavailable";
+
+function toErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function useDeviceIdentity() {
+  const [status, setStatus] = useState<DeviceIdentityStatus>(() => (supportsEd25519() ? "loading" : "unavailable"));
+  const [identity, setIdentity] = useState<DeviceIdentitySummary | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyIdentity = useCallback((next: DeviceIdentity | null) => {
+    setIdentity(next ? summarizeDeviceIdentity(next) : null);
+    setStatus(next ? "ready" : "unavailable");
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    void loadOrCreateDeviceIdentity().then((loaded) => {
+      if (!cancelled) {
+        applyIdentity(loaded);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [applyIdentity]);
+
+  const rotate = useCallback(async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      applyIdentity(await rotateDeviceIdentity());
+    } catch (rotateError) {
+      // The previous key is still stored and in use; keep showing it.
+      setError(toErrorMessage(rotateError));
+    } finally {
+      setBusy(false);
+    }
+  }, [applyIdentity]);
+
+  /** Returns the encrypted backup text, or null when export failed (see `error`). */
+  const exportBackup = useCallback(async (passphrase: string): Promise<string | null> => {
+    setBusy(true);
+    setError(null);
+    try {
+      return await exportDeviceIdentity(passphrase);
+    } catch (exportError) {
+      setError(toErrorMessage(exportError));
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const importBackup = useCallback(
+    async (text: string, passphrase: string): Promise<boolean> => {
+      setBusy(true);
+      setError(null);
+      try {
+        applyIdentity(await importDeviceIdentity(text, passphrase));
+        return true;
+      } catch (importError) {
+        setError(toErrorMessage(importError));
+        return false;
+      } finally {
+        setBusy(false);
+      }
+    },
+    [applyIdentity],
+  );
+
+  return {
+    status,
+    identity,
+    busy,
+    error,
+    rotate,
+    exportBackup,
+    importBackup,
+  };
+}
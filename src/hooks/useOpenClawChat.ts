@@ -1,71 +1,102 @@
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
-  type GatewayEventFrame,
+  type AgentsListResult,
+  type ChatHistoryResult,
+  type ChatSendAttachment,
+  type GatewayChatAttachmentFeature,
+  type GatewayPairingRequest,
+  type GatewayPresenceEntry,
+  GatewayProtocolError,
+  type GatewaySessionSummary,
   type HelloOkPayload,
+  type SessionsListResult,
+} from "../lib/gatewayProtocol";
+import {
+  type GatewayConnectionProfileId,
+  getConnectionProfile,
+  loadStoredConnectionProfileId,
+  saveConnectionProfileId,
+} from "../lib/connectionProfiles";
+import {
+  type GatewayCapabilities,
+  deriveGatewayCapabilities,
+  type ImageAttachmentLimits,
+  gatewaySupportsMethod,
+  isAttachmentRejection,
+  isUnsupportedMethodError,
+  resolveImageAttachmentLimits,
+} from "../lib/gatewayCapabilities";
+import {
+  type GatewayInflightRequest,
+  type GatewayLivenessSample,
   OpenClawGatewayClient,
 } from "../lib/openclawGateway";
+import { FrameRecorder } from "../lib/frameRecorder";
+import {
+  type AgentRunActivity,
+  type GatewayHealthState,
+  GatewayEventBus,
+  dropAgentRun,
+  reduceAgentActivity,
+} from "../lib/gatewayEventBus";
+import { type QueuedPrompt, loadOutboundQueue, saveOutboundQueue } from "../lib/outboundQueue";
+import {
+  type ChatContentPart,
+  type ChatImageItem,
+  type ChatMessage,
+  applyAgentEventToParts,
+  attachToolResults,
+  extractContentParts,
+  extractToolResults,
+  hasStructuredParts,
+  isStructuredBlock,
+  mergeFinalParts,
+  stopRunningTools,
+} from "../lib/chatContent";
+import {
+  type ForkSeedTurn,
+  attachForkSeed,
+  buildForkSeed,
+  createForkSessionKey,
+  parseForkSeed,
+} from "../lib/sessionFork";
+import { type OutboundAttachment, buildInlineAttachmentSection, isInlineAttachment } from "../lib/attachmentText";
+import { type ReplyAnchor, type ReplyResolution, isReplyComplete, locateReplyInHistory } from "../lib/replyReconciler";
+import {
+  deleteCachedTranscript,
+  isSameTurn,
+  listCachedTranscripts,
+  readCachedTranscript,
+  reconcileTranscript,
+  transcriptGatewayKey,
+  writeCachedTranscript,
+} from "../lib/transcriptCache";
+import {
+  createFreshSessionKey,
+  filterAgentSessions,
+  isMainSessionKey,
+  isSameSessionKey,
+  parseSessionAgentId,
+} from "../lib/sessionKeys";
 
-type ConnectionState = "idle" | "connecting" | "connected" | "error";
-
-export type ChatMessage = {
-  id: string;
-  role: "user" | "assistant" | "system";
-  text: string;
-  createdAt: string;
-  streaming?: boolean;
-  images?: ChatImageItem[];
-};
-
-export type ChatImageItem = {
-  id: string;
-  dataUrl: string;
-  mimeType: string;
-  fileName?: string;
-};
+export type ConnectionState = "idle" | "connecting" | "connected" | "reconnecting" | "pairing" | "error";
 
 export type AgentItem = {
   id: string;
   name: string;
   isDefault?: boolean;
+  chatAttachments?: GatewayChatAttachmentFeature | null;
 };
 
-export type OutboundAttachment = {
-  fileName: string;
-  mimeType: string;
-  size: number;
-  absolutePath: string;
-  relativePath: string;
-  imageDataUrl?: string;
+/** One agent's `sessions.list` rows, as shown by the session browser. */
+export type AgentSessionList = {
+  agentId: string;
+  sessions: GatewaySessionSummary[];
 };
 
-type ChatEventPayload = {
-  runId: string;
-  sessionKey: string;
-  state: "queued" | "running" | "delta" | "final" | "aborted" | "error";
-  message?: unknown;
-  errorMessage?: string;
-};
-
-type ChatHistoryResult = {
-  messages?: unknown[];
-};
-
-type AgentsListResult = {
-  defaultId?: string;
-  agents?: unknown[];
-};
-
-type SessionsListResult = {
-  sessions?: unknown[];
-};
-
-type SessionsResolveResult = {
-  key?: string;
-};
-
-type ChatSendResult = {
-  runId?: string;
-  status?: string;
+export type GatewayAccess = {
+  role: string;
+  scopes: string[];
 };
 
 type AssistantReplyPreview = {
@@ -75,14 +106,48 @@ type AssistantReplyPreview = {
   rawError?: string;
 };
 
+/** One in-flight reply, keyed by the session it streams into. Mutated in place; never React state. */
+type SessionRun = {
+  sessionKey: string;
+  /** The idempotency key until the gateway reports its own runId. */
+  runId: string;
+  /** True once the gateway has told us the real runId (ack or first event). */
+  acknowledged: boolean;
+  /** Null for runs we follow but did not start, e.g. from another client. */
+  assistantMessageId: string | null;
+  /** What was sent, for finding the reply in history if events go missing; null for followed runs. */
+  anchor: Omit<ReplyAnchor, "runId"> | null;
+  startedAt: number;
+  streamingText: string;
+  /** Tool calls and thinking streamed through agent events, shown above the text. */
+  parts: ChatContentPart[];
+  /** chat.abort was sent; waiting for the gateway's `aborted` event. */
+  abortRequested: boolean;
+  /** Event-silence watchdog, or the abort confirmation timeout once abortRequested is set. */
+  fallbackTimer: number | null;
+  fallbackToken: number;
+  fallbackAbort: AbortController | null;
+  /** History checks in a row that found no reply while no events arrived. */
+  silentChecks: number;
+};
+
+const NO_MESSAGES: ChatMessage[] = [];
 const DEFAULT_SCREEN_MESSAGE = "";
-const IMAGE_SEND_MAX_DIMENSION_PX = 1600;
-const IMAGE_SEND_TARGET_MAX_BYTES = 420 * 1024;
-const IMAGE_SEND_HARD_MAX_BYTES = 640 * 1024;
-const IMAGE_SEND_TOTAL_MAX_BYTES = 820 * 1024;
 const INVALID_IMAGE_DATA_RE = /image data .* valid image/i;
-const USE_IMAGE_BINARY_ATTACHMENTS = false;
 const REQUEST_TIMEOUT_MS = 8000;
+const ABORT_CONFIRM_TIMEOUT_MS = 5000;
+const HISTORY_PAGE_SIZE = 20;
+/** Ceiling for offset paging on gateways without cursors; each page re-fetches everything loaded so far. */
+const HISTORY_OFFSET_MAX_LIMIT = 1000;
+const HISTORY_JUMP_MAX_PAGES = 50;
+/** A run with no chat or agent event for this long gets checked against history. */
+const REPLY_SILENCE_MS = 15000;
+/** Some gateways send `final` before the reply is in history; look shortly after. */
+const REPLY_FINAL_SETTLE_MS = 1200;
+const REPLY_MAX_SILENT_CHECKS = 8;
+/** Transcript changes are written to IndexedDB once they settle, not on every streamed delta. */
+const TRANSCRIPT_CACHE_DELAY_MS = 600;
+const ABORT_UNSUPPORTED_MESSAGE = "当前 Gateway 不支持中止运行，已停止等待；模型可能仍在后台继续生成。";
 
 function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === "object" && value !== null;
@@ -265,20 +330,22 @@ function loadImage(dataUrl: string): Promise<HTMLImageElement> {
   });
 }
 
-async function normalizeImageDataUrlForGateway(dataUrl: string): Promise<string> {
+/** Downscales and re-encodes as JPEG until the image fits the agent's limits; the caller checks the result. */
+async function normalizeImageDataUrlForGateway(dataUrl: string, limits: ImageAttachmentLimits): Promise<string> {
   if (typeof document === "undefined" || typeof window === "undefined") {
     return dataUrl;
   }
 
   const originalSize = estimateDataUrlByteLength(dataUrl);
-  if (Number.isFinite(originalSize) && originalSize <= IMAGE_SEND_TARGET_MAX_BYTES) {
-    return dataUrl;
-  }
-
+  const originalMimeType = parseDataUrlToBase64(dataUrl)?.mimeType ?? "";
+  const mimeTypeAccepted = !limits.mimeTypes || limits.mimeTypes.includes(originalMimeType);
   const source = await loadImage(dataUrl);
   const sourceWidth = source.naturalWidth || source.width || 1;
   const sourceHeight = source.naturalHeight || source.height || 1;
   const maxDimension = Math.max(sourceWidth, sourceHeight) || 1;
+  if (mimeTypeAccepted && originalSize <= limits.targetBytes && maxDimension <= limits.maxDimensionPx) {
+    return dataUrl;
+  }
   const dimensionCandidates = [1, 0.86, 0.74, 0.62, 0.5];
   const qualityCandidates = [0.86, 0.78, 0.7, 0.62, 0.54, 0.46];
 
@@ -286,7 +353,7 @@ async function normalizeImageDataUrlForGateway(dataUrl: string): Promise<string>
   let bestSize = originalSize;
 
   for (const dimensionScale of dimensionCandidates) {
-    const limit = IMAGE_SEND_MAX_DIMENSION_PX * dimensionScale;
+    const limit = limits.maxDimensionPx * dimensionScale;
     const scale = maxDimension > limit ? limit / maxDimension : 1;
     const width = Math.max(1, Math.round(sourceWidth * scale));
     const height = Math.max(1, Math.round(sourceHeight * scale));
@@ -311,16 +378,12 @@ async function normalizeImageDataUrlForGateway(dataUrl: string): Promise<string>
         bestSize = size;
         bestDataUrl = candidate;
       }
-      if (size <= IMAGE_SEND_TARGET_MAX_BYTES) {
+      if (size <= limits.targetBytes) {
         return candidate;
       }
     }
   }
 
-  if (bestSize <= IMAGE_SEND_HARD_MAX_BYTES) {
-    return bestDataUrl;
-  }
-
   return bestDataUrl;
 }
 
@@ -329,7 +392,11 @@ function extractText(value: unknown): string {
     return value;
   }
   if (Array.isArray(value)) {
-    return value.map((entry) => extractText(entry)).filter(Boolean).join("\n");
+    return value
+      .filter((entry) => !isStructuredBlock(entry))
+      .map((entry) => extractText(entry))
+      .filter(Boolean)
+      .join("\n");
   }
   if (isRecord(value)) {
     if (typeof value.text === "string") {
@@ -354,36 +421,6 @@ function extractText(value: unknown): string {
   return "";
 }
 
-function parseChatEvent(payload: unknown): ChatEventPayload | null {
-  if (!isRecord(payload)) {
-    return null;
-  }
-
-  const runId = payload.runId;
-  const sessionKey = payload.sessionKey;
-  const state = payload.state;
-  if (
-    typeof runId !== "string" ||
-    typeof sessionKey !== "string" ||
-    (state !== "queued" &&
-      state !== "running" &&
-      state !== "delta" &&
-      state !== "final" &&
-      state !== "aborted" &&
-      state !== "error")
-  ) {
-    return null;
-  }
-
-  return {
-    runId,
-    sessionKey,
-    state,
-    message: payload.message,
-    errorMessage: typeof payload.errorMessage === "string" ? payload.errorMessage : undefined,
-  };
-}
-
 function normalizeGatewayErrorMessage(message: string): string {
   const normalized = message.trim();
   if (!normalized) {
@@ -452,112 +489,71 @@ function extractAssistantFromHistory(messages: unknown[]): string | null {
   return null;
 }
 
-function extractLatestAssistantReply(messages: unknown[]): AssistantReplyPreview | null {
-  for (let index = messages.length - 1; index >= 0; index -= 1) {
-    const candidate = messages[index];
-    if (!isRecord(candidate)) {
-      continue;
-    }
-    const role = typeof candidate.role === "string" ? candidate.role : "";
-    if (role !== "assistant") {
-      continue;
-    }
-    const summary = extractAssistantMessageSummary(candidate);
-    if (summary) {
-      return summary;
-    }
-  }
-  return null;
-}
-
-function pickLatestAssistantText(messages: ChatMessage[]): string | null {
-  for (let index = messages.length - 1; index >= 0; index -= 1) {
-    const message = messages[index];
-    if (message.role !== "assistant") {
-      continue;
-    }
-    const text = message.text.trim();
-    if (!text || text === "正在思考...") {
-      continue;
-    }
-    return text;
-  }
-  return null;
-}
-
-function parseSessionAgentId(sessionKey: string): string | null {
-  const match = /^agent:([^:]+):/.exec(sessionKey.trim());
-  return match?.[1] ?? null;
-}
-
-async function requestWithTimeout<T>(
-  client: OpenClawGatewayClient,
-  method: string,
-  params?: unknown,
-  timeoutMs = REQUEST_TIMEOUT_MS,
-): Promise<T> {
-  return new Promise<T>((resolve, reject) => {
-    const timer = window.setTimeout(() => {
-      reject(new Error(`${method} 请求超时`));
-    }, timeoutMs);
-
-    client
-      .request<T>(method, params)
-      .then((result) => {
-        window.clearTimeout(timer);
-        resolve(result);
-      })
-      .catch((error) => {
-        window.clearTimeout(timer);
-        reject(error);
-      });
-  });
-}
-
 function extractAgentItems(result: AgentsListResult): AgentItem[] {
-  const rawAgents = Array.isArray(result.agents) ? result.agents : [];
-  const defaultId = typeof result.defaultId === "string" ? result.defaultId : null;
-  const list: AgentItem[] = [];
-
-  for (const candidate of rawAgents) {
-    if (!isRecord(candidate)) {
-      continue;
-    }
-    const id = typeof candidate.id === "string" ? candidate.id.trim() : "";
-    if (!id) {
-      continue;
-    }
-
-    let name = typeof candidate.name === "string" ? candidate.name.trim() : "";
-    if (!name && isRecord(candidate.identity) && typeof candidate.identity.name === "string") {
-      name = candidate.identity.name.trim();
-    }
-    if (!name) {
-      name = id;
-    }
-
-    list.push({
-      id,
-      name,
-      isDefault: defaultId === id,
-    });
-  }
-
-  return list;
+  const defaultId = result.defaultId ?? null;
+  return result.agents.map((agent) => ({
+    id: agent.id,
+    name: agent.name?.trim() || agent.identityName?.trim() || agent.id,
+    isDefault: defaultId === agent.id,
+    chatAttachments: agent.chatAttachments,
+  }));
 }
 
 function mapHistoryToChatMessages(messages: unknown[]): ChatMessage[] {
   const mapped: ChatMessage[] = [];
+  // An agent turn is stored as assistant(tool calls) -> tool results -> assistant(...);
+  // the follow-up assistant entries join the first bubble.
+  let continuesTurn = false;
   for (const item of messages) {
     if (!isRecord(item)) {
       continue;
     }
     const role = typeof item.role === "string" ? item.role : "";
+    const createdAt = pickMessageCreatedAt(item);
+    const at = Date.parse(createdAt);
+    const last = mapped.at(-1);
+
+    const toolResults = extractToolResults(item, at);
+    if (toolResults.length > 0) {
+      if (last?.role === "assistant" && last.parts) {
+        mapped[mapped.length - 1] = { ...last, parts: attachToolResults(last.parts, toolResults) };
+        continuesTurn = true;
+      }
+      continue;
+    }
+
     const assistantSummary = role === "assistant" ? extractAssistantMessageSummary(item) : null;
     const text = assistantSummary?.text ?? extractText(item.content ?? item.message).trim();
     const images = extractImageItems(item.content ?? item.message);
+    const parts = role === "assistant" ? extractContentParts(item.content ?? item.message, at) : [];
+    const structured = hasStructuredParts(parts);
     const normalizedText = text || (images.length > 0 ? "[图片消息]" : "");
-    if (!normalizedText && images.length === 0) {
+    const mergeable = role === "assistant" && continuesTurn && last?.role === "assistant";
+    continuesTurn = false;
+    if (!normalizedText && images.length === 0 && !structured) {
+      continue;
+    }
+    if (mergeable && last) {
+      const previousParts = last.parts ?? (last.text ? [{ type: "text" as const, text: last.text }] : []);
+      mapped[mapped.length - 1] = {
+        ...last,
+        text: [last.text, normalizedText].filter(Boolean).join("\n\n"),
+        parts: [...previousParts, ...(parts.length > 0 ? parts : [{ type: "text" as const, text: normalizedText }])],
+      };
+      continue;
+    }
+    const forkSeed = role === "user" ? parseForkSeed(normalizedText) : null;
+    if (forkSeed) {
+      mapped.push(
+        {
+          id: createId(),
+          role: "system",
+          text: `从 ${forkSeed.sourceSessionKey} 分支，带入 ${forkSeed.turns.length} 条上下文。`,
+          createdAt,
+        },
+        ...forkSeed.turns.map((turn) => ({ id: createId(), role: turn.role, text: turn.text, createdAt, seeded: true })),
+        { id: createId(), role: "user", text: forkSeed.prompt, createdAt, images },
+      );
       continue;
     }
     if (role === "user" || role === "assistant") {
@@ -565,28 +561,114 @@ function mapHistoryToChatMessages(messages: unknown[]): ChatMessage[] {
         id: createId(),
         role,
         text: normalizedText,
-        createdAt: pickMessageCreatedAt(item),
+        createdAt,
         images: role === "user" ? images : [],
+        parts: structured ? parts : undefined,
       });
     }
   }
-  return mapped;
+  // A call whose result is outside the loaded page (or never came) is not still running.
+  return mapped.map((message) => (message.parts ? { ...message, parts: stopRunningTools(message.parts) } : message));
+}
+
+/** Settled user/assistant turns worth carrying into a fork. */
+function toForkSeedTurns(messages: ChatMessage[]): ForkSeedTurn[] {
+  const turns: ForkSeedTurn[] = [];
+  for (const message of messages) {
+    if ((message.role !== "user" && message.role !== "assistant") || message.pending || message.streaming) {
+      continue;
+    }
+    const text = message.text.trim();
+    if (text) {
+      turns.push({ role: message.role, text });
+    }
+  }
+  return turns;
+}
+
+/** Where the next older page of a session's transcript starts. */
+type HistoryCursor = {
+  /** Gateway cursor for the next older page; undefined on gateways that don't page. */
+  before?: string;
+  /** Raw entries fetched so far, used as the offset when the gateway has no cursors. */
+  rawCount: number;
+  hasMore: boolean;
+  loading: boolean;
+};
+
+export type HistoryPagingState = Pick<HistoryCursor, "hasMore" | "loading">;
+
+const NO_HISTORY_PAGING: HistoryPagingState = { hasMore: false, loading: false };
+
+function createHistoryCursor(result: ChatHistoryResult, limit: number): HistoryCursor {
+  return {
+    before: result.nextCursor,
+    rawCount: result.messages.length,
+    hasMore: result.hasMore ?? (result.nextCursor ? true : result.messages.length >= limit),
+    loading: false,
+  };
+}
+
+function createSessionRun(
+  sessionKey: string,
+  runId: string,
+  assistantMessageId: string | null,
+  startedAt: number,
+  prompt: string | null = null,
+): SessionRun {
+  return {
+    sessionKey,
+    runId,
+    acknowledged: assistantMessageId === null,
+    assistantMessageId,
+    anchor: prompt !== null ? { idempotencyKey: runId, prompt, sentAt: startedAt } : null,
+    startedAt,
+    streamingText: "",
+    parts: [],
+    abortRequested: false,
+    fallbackTimer: null,
+    fallbackToken: 0,
+    fallbackAbort: null,
+    silentChecks: 0,
+  };
+}
+
+function stopRunFallback(run: SessionRun): void {
+  if (run.fallbackTimer !== null) {
+    window.clearTimeout(run.fallbackTimer);
+    run.fallbackTimer = null;
+  }
+  run.fallbackToken += 1;
+  run.fallbackAbort?.abort();
+  run.fallbackAbort = null;
+}
+
+/**
+ * The run an event belongs to: by runId, or by the idempotency key some gateways reuse as the
+ * runId. Events of other runs in the same session are not ours, however close in time.
+ */
+function findRunForEvent(runs: Map<string, SessionRun>, runId: string, sessionKey: string | undefined): SessionRun | null {
+  for (const run of runs.values()) {
+    if (run.runId === runId || run.anchor?.idempotencyKey === runId) {
+      return run;
+    }
+  }
+  // Before chat.send acks, a run is only known by its idempotency key, and the gateway may
+  // have canonicalized the session key. Adopt the event when that is unambiguous.
+  const unacknowledged = Array.from(runs.values()).filter((run) => !run.acknowledged);
+  return unacknowledged.find((run) => run.sessionKey === sessionKey) ?? (unacknowledged.length === 1 ? unacknowledged[0] : null);
 }
 
 function extractAgentModelMap(result: SessionsListResult, defaultAgentId: string | null): Record<string, string> {
   const map: Record<string, string> = {};
-  const sessions = Array.isArray(result.sessions) ? result.sessions : [];
 
-  for (const session of sessions) {
-    if (!isRecord(session)) {
-      continue;
-    }
-    const key = typeof session.key === "string" ? session.key.trim() : "";
-    const model = typeof session.model === "string" ? session.model.trim() : "";
+  for (const session of result.sessions) {
+    const key = session.key;
+    const model = session.model?.trim() ?? "";
     if (!model) {
       continue;
     }
-    const provider = typeof session.modelProvider === "string" ? session.modelProvider.trim() : "";
+    const provider = session.modelProvider?.trim() ?? "";
     const modelLabel = provider ? `${provider}/${model}` : model;
 
     let agentId = parseSessionAgentId(key);
@@ -608,57 +690,242 @@ function extractAgentModelMap(result: SessionsListResult, defaultAgentId: string
 export function useOpenClawChat(defaultUrl: string, defaultToken: string) {
   const [gatewayUrl, setGatewayUrl] = useState(defaultUrl);
   const [token, setToken] = useState(defaultToken);
+  const [profileId, setProfileIdState] = useState<GatewayConnectionProfileId>(() => loadStoredConnectionProfileId());
+  const [grantedAccess, setGrantedAccess] = useState<GatewayAccess | null>(null);
+  const [pairingRequest, setPairingRequest] = useState<GatewayPairingRequest | null>(null);
   const [status, setStatus] = useState<ConnectionState>("idle");
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [liveness, setLiveness] = useState<GatewayLivenessSample | null>(null);
+  const [inflightRequests, setInflightRequests] = useState<GatewayInflightRequest[]>([]);
+  const [capabilities, setCapabilities] = useState<GatewayCapabilities>(() => deriveGatewayCapabilities(null));
   const [lastError, setLastError] = useState<string | null>(null);
   const [screenText, setScreenText] = useState(DEFAULT_SCREEN_MESSAGE);
   const [sessionKey, setSessionKey] = useState("main");
   const [lastPrompt, setLastPrompt] = useState("");
-  const [isStreaming, setIsStreaming] = useState(false);
+  const [runningSessionKeys, setRunningSessionKeys] = useState<string[]>([]);
+  const [abortingSessionKeys, setAbortingSessionKeys] = useState<string[]>([]);
+  const [historyPagingBySession, setHistoryPagingBySession] = useState<Record<string, HistoryPagingState>>({});
+  /** Sessions showing their IndexedDB copy that `chat.history` has not confirmed yet. */
+  const [cachedSessionKeys, setCachedSessionKeys] = useState<string[]>([]);
   const [agents, setAgents] = useState<AgentItem[]>([]);
   const [agentModels, setAgentModels] = useState<Record<string, string>>({});
   const [activeAgentId, setActiveAgentId] = useState<string | null>(null);
   const [agentsLoading, setAgentsLoading] = useState(false);
   const [agentSwitching, setAgentSwitching] = useState(false);
-  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([
-    {
-      id: "welcome",
-      role: "system",
-      text: "连接 Gateway 后开始问答。",
-      createdAt: nowIso(),
-    },
-  ]);
+  const [sessionList, setSessionList] = useState<AgentSessionList | null>(null);
+  const [sessionsLoading, setSessionsLoading] = useState(false);
+  const [outboundQueue, setOutboundQueue] = useState<QueuedPrompt[]>(() => loadOutboundQueue());
+  const [loadedHistoryKey, setLoadedHistoryKey] = useState<string | null>(null);
+  const [frameRecorder] = useState(() => new FrameRecorder());
+  const [eventBus] = useState(() => new GatewayEventBus());
+  const [presence, setPresence] = useState<GatewayPresenceEntry[]>([]);
+  const [gatewayHealth, setGatewayHealth] = useState<GatewayHealthState | null>(null);
+  const [agentRuns, setAgentRuns] = useState<Record<string, AgentRunActivity>>({});
+  // Transcripts per session key, so replies keep landing in rooms that are not on screen.
+  const [conversations, setConversations] = useState<Record<string, ChatMessage[]>>(() => ({
+    main: [
+      {
+        id: "welcome",
+        role: "system",
+        text: "连接 Gateway 后开始问答。",
+        createdAt: nowIso(),
+      },
+    ],
+  }));
+  const chatMessages = conversations[sessionKey] ?? NO_MESSAGES;
+  const isStreaming = runningSessionKeys.includes(sessionKey);
+  const isAborting = abortingSessionKeys.includes(sessionKey);
+  const historyPaging = historyPagingBySession[sessionKey] ?? NO_HISTORY_PAGING;
+  const transcriptFromCache = cachedSessionKeys.includes(sessionKey);
+  const imageAttachmentLimits = useMemo(() => {
+    const agentId = parseSessionAgentId(sessionKey) ?? activeAgentId ?? "main";
+    return resolveImageAttachmentLimits(capabilities, agents.find((agent) => agent.id === agentId)?.chatAttachments);
+  }, [activeAgentId, agents, capabilities, sessionKey]);
 
   const clientRef = useRef<OpenClawGatewayClient | null>(null);
+  const reconnectingRef = useRef(false);
+  const pairingRef = useRef(false);
+  const capabilitiesRef = useRef<GatewayCapabilities>(capabilities);
   const unsubscribeEventsRef = useRef<(() => void) | null>(null);
-  const activeRunIdRef = useRef<string | null>(null);
-  const activeAssistantMessageIdRef = useRef<string | null>(null);
+  const runsRef = useRef(new Map<string, SessionRun>());
+  const historyCursorsRef = useRef(new Map<string, HistoryCursor>());
+  /** Transcript preambles for forked sessions that have not sent their first prompt yet. */
+  const forkSeedsRef = useRef(new Map<string, string>());
   const activeAgentIdRef = useRef<string | null>(null);
   const sessionKeyRef = useRef("main");
   const mainSessionKeyRef = useRef("main");
-  const streamingTextRef = useRef("");
   const imageErrorRecoveredSessionRef = useRef<string | null>(null);
-  const historyFallbackTimerRef = useRef<number | null>(null);
-  const historyFallbackTokenRef = useRef(0);
   const chatMessagesRef = useRef<ChatMessage[]>(chatMessages);
+  const conversationsRef = useRef(conversations);
+  const flushingQueueRef = useRef(false);
+  /** Gateway the transcript cache reads and writes under; set on connect and on offline browsing. */
+  const cacheGatewayRef = useRef<string | null>(null);
+  /** Last transcript written per session, so unchanged ones are not rewritten. */
+  const cachedTranscriptsRef = useRef(new Map<string, ChatMessage[]>());
 
   useEffect(() => {
     chatMessagesRef.current = chatMessages;
   }, [chatMessages]);
 
+  useEffect(() => {
+    conversationsRef.current = conversations;
+  }, [conversations]);
+
+  useEffect(() => {
+    saveOutboundQueue(outboundQueue);
+  }, [outboundQueue]);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      const gateway = cacheGatewayRef.current;
+      if (!gateway) {
+        return;
+      }
+      for (const [key, messages] of Object.entries(conversations)) {
+        if (cachedTranscriptsRef.current.get(key) === messages) {
+          continue;
+        }
+        cachedTranscriptsRef.current.set(key, messages);
+        void writeCachedTranscript(gateway, key, messages);
+      }
+    }, TRANSCRIPT_CACHE_DELAY_MS);
+    return () => {
+      window.clearTimeout(timer);
+    };
+  }, [conversations]);
+
   useEffect(() => {
     activeAgentIdRef.current = activeAgentId;
   }, [activeAgentId]);
 
-  const stopHistoryFallback = useCallback(() => {
-    if (historyFallbackTimerRef.current !== null) {
-      window.clearTimeout(historyFallbackTimerRef.current);
-      historyFallbackTimerRef.current = null;
+  useEffect(() => {
+    const unsubscribers = [
+      eventBus.on("presence", (payload) => {
+        setPresence(payload.presence);
+      }),
+      eventBus.on("health", (payload) => {
+        setGatewayHealth({ ...payload, receivedAt: Date.now() });
+      }),
+      eventBus.on("agent", (payload) => {
+        setAgentRuns((current) => reduceAgentActivity(current, payload, Date.now()));
+      }),
+    ];
+    return () => {
+      for (const unsubscribe of unsubscribers) {
+        unsubscribe();
+      }
+    };
+  }, [eventBus]);
+
+  const updateConversation = useCallback((key: string, updater: (current: ChatMessage[]) => ChatMessage[]) => {
+    setConversations((current) => {
+      const previous = current[key] ?? NO_MESSAGES;
+      const next = updater(previous);
+      return next === previous ? current : { ...current, [key]: next };
+    });
+  }, []);
+
+  const patchMessage = useCallback(
+    (key: string, messageId: string, patch: Partial<ChatMessage>) => {
+      updateConversation(key, (current) =>
+        current.map((message) => (message.id === messageId ? { ...message, ...patch } : message)),
+      );
+    },
+    [updateConversation],
+  );
+
+  const syncRunningSessions = useCallback(() => {
+    const runs = Array.from(runsRef.current.values());
+    setRunningSessionKeys(runs.map((run) => run.sessionKey));
+    setAbortingSessionKeys(runs.filter((run) => run.abortRequested).map((run) => run.sessionKey));
+  }, []);
+
+  const syncHistoryPaging = useCallback(() => {
+    const next: Record<string, HistoryPagingState> = {};
+    for (const [key, cursor] of historyCursorsRef.current) {
+      next[key] = { hasMore: cursor.hasMore, loading: cursor.loading };
     }
-    historyFallbackTokenRef.current += 1;
+    setHistoryPagingBySession(next);
   }, []);
 
+  /** Forgets a run; callers settle its bubble text themselves. */
+  const finishRun = useCallback(
+    (run: SessionRun) => {
+      stopRunFallback(run);
+      if (runsRef.current.get(run.sessionKey) === run) {
+        runsRef.current.delete(run.sessionKey);
+        syncRunningSessions();
+      }
+    },
+    [syncRunningSessions],
+  );
+
+  /** Ends a run that the gateway stopped (or that we stopped waiting for), keeping any partial reply. */
+  const settleAbortedRun = useCallback(
+    (run: SessionRun, note = "已停止生成。", resolvedVia: ReplyResolution = "event") => {
+      finishRun(run);
+      const partial = run.streamingText.trim();
+      if (run.sessionKey === sessionKeyRef.current) {
+        setScreenText(trimScreenText(partial || note));
+      }
+      if (run.assistantMessageId) {
+        patchMessage(run.sessionKey, run.assistantMessageId, {
+          text: partial ? `${partial}\n\n_（${note}）_` : note,
+          parts: run.parts.length > 0 ? stopRunningTools(run.parts) : undefined,
+          streaming: false,
+          resolvedVia,
+        });
+      }
+    },
+    [finishRun, patchMessage],
+  );
+
+  const clearRuns = useCallback(() => {
+    for (const run of runsRef.current.values()) {
+      stopRunFallback(run);
+    }
+    runsRef.current.clear();
+    syncRunningSessions();
+  }, [syncRunningSessions]);
+
+  /** Follows a session the gateway canonicalized (e.g. "main" -> "agent:main:main"), with its run and transcript. */
+  const moveSession = useCallback(
+    (from: string, to: string) => {
+      if (from === to) {
+        return;
+      }
+      const run = runsRef.current.get(from);
+      if (run && !runsRef.current.has(to)) {
+        runsRef.current.delete(from);
+        run.sessionKey = to;
+        runsRef.current.set(to, run);
+        syncRunningSessions();
+      }
+      const cursor = historyCursorsRef.current.get(from);
+      if (cursor && !historyCursorsRef.current.has(to)) {
+        historyCursorsRef.current.delete(from);
+        historyCursorsRef.current.set(to, cursor);
+        syncHistoryPaging();
+      }
+      setConversations((current) => {
+        const moved = current[from];
+        if (!moved) {
+          return current;
+        }
+        const next = { ...current, [to]: moved };
+        delete next[from];
+        return next;
+      });
+      if (sessionKeyRef.current === from) {
+        setSessionKey(to);
+        sessionKeyRef.current = to;
+      }
+    },
+    [syncHistoryPaging, syncRunningSessions],
+  );
+
   const tearDownClient = useCallback(() => {
-    stopHistoryFallback();
+    clearRuns();
     if (unsubscribeEventsRef.current) {
       unsubscribeEventsRef.current();
       unsubscribeEventsRef.current = null;
@@ -667,31 +934,75 @@ export function useOpenClawChat(defaultUrl: string, defaultToken: string) {
       clientRef.current.stop();
       clientRef.current = null;
     }
-  }, [stopHistoryFallback]);
+    setInflightRequests([]);
+  }, [clearRuns]);
+
+  const setProfileId = useCallback((nextProfileId: GatewayConnectionProfileId) => {
+    setProfileIdState(nextProfileId);
+    saveConnectionProfileId(nextProfileId);
+  }, []);
 
   const disconnect = useCallback(() => {
-    activeRunIdRef.current = null;
-    activeAssistantMessageIdRef.current = null;
-    streamingTextRef.current = "";
-    setIsStreaming(false);
+    reconnectingRef.current = false;
+    pairingRef.current = false;
+    setPairingRequest(null);
+    setLoadedHistoryKey(null);
     setActiveAgentId(null);
     tearDownClient();
     setStatus("idle");
-    setSessionKey(mainSessionKeyRef.current);
-    sessionKeyRef.current = mainSessionKeyRef.current;
+    setReconnectAttempt(0);
+    setLiveness(null);
+    setPresence([]);
+    setGatewayHealth(null);
+    setAgentRuns({});
+    setGrantedAccess(null);
+    capabilitiesRef.current = deriveGatewayCapabilities(null);
+    setCapabilities(capabilitiesRef.current);
+    // The room keeps its session, so prompts composed offline are queued for it.
   }, [tearDownClient]);
 
+  /**
+   * Shows the cached copy of a session that has nothing on screen yet. Resolves with whether the
+   * cache filled it; `chat.history` reconciles it afterwards.
+   */
+  const hydrateFromCache = useCallback(
+    async (key: string): Promise<boolean> => {
+      const gateway = cacheGatewayRef.current;
+      const hasTurns = (messages: ChatMessage[] | undefined) =>
+        (messages ?? NO_MESSAGES).some((message) => message.role === "user" || message.role === "assistant");
+      if (!gateway || hasTurns(conversationsRef.current[key])) {
+        return false;
+      }
+      const cached = await readCachedTranscript(gateway, key);
+      if (!cached || cached.messages.length === 0 || hasTurns(conversationsRef.current[key])) {
+        return false;
+      }
+      cachedTranscriptsRef.current.set(key, cached.messages);
+      updateConversation(key, (current) => (hasTurns(current) ? current : cached.messages));
+      setCachedSessionKeys((current) => (current.includes(key) ? current : [...current, key]));
+      return true;
+    },
+    [updateConversation],
+  );
+
   const loadConversationForSession = useCallback(async (client: OpenClawGatewayClient, key: string) => {
     try {
-      const history = await requestWithTimeout<ChatHistoryResult>(client, "chat.history", {
+      const history = await client.request("chat.history", {
         sessionKey: key,
-        limit: 20,
-      }, 6000);
-      const messages = Array.isArray(history.messages) ? history.messages : [];
+        limit: HISTORY_PAGE_SIZE,
+      }, { timeoutMs: 6000 });
+      const messages = history.messages;
       const mapped = mapHistoryToChatMessages(messages);
-      setChatMessages(
+      historyCursorsRef.current.set(key, createHistoryCursor(history, HISTORY_PAGE_SIZE));
+      syncHistoryPaging();
+      setCachedSessionKeys((current) => (current.includes(key) ? current.filter((item) => item !== key) : current));
+      if (mapped.length === 0 && cacheGatewayRef.current) {
+        // Reset or deleted elsewhere; the cached copy is stale.
+        void deleteCachedTranscript(cacheGatewayRef.current, key);
+      }
+      updateConversation(key, (current) =>
         mapped.length > 0
-          ? mapped
+          ? reconcileTranscript(current, mapped)
           : [
               {
                 id: createId(),
@@ -701,14 +1012,14 @@ export function useOpenClawChat(defaultUrl: string, defaultToken: string) {
               },
             ],
       );
-      const latest = extractAssistantFromHistory(messages);
-      if (latest) {
-        setScreenText(trimScreenText(latest));
-      } else {
-        setScreenText("");
+      if (key === sessionKeyRef.current) {
+        const latest = extractAssistantFromHistory(messages);
+        setScreenText(latest ? trimScreenText(latest) : "");
       }
     } catch {
-      setChatMessages([
+      historyCursorsRef.current.delete(key);
+      syncHistoryPaging();
+      updateConversation(key, () => [
         {
           id: createId(),
           role: "system",
@@ -717,25 +1028,124 @@ export function useOpenClawChat(defaultUrl: string, defaultToken: string) {
         },
       ]);
     }
-  }, []);
+    // Queued prompts wait for this so the history reload cannot wipe their bubbles.
+    setLoadedHistoryKey(key);
+  }, [syncHistoryPaging, updateConversation]);
+
+  /**
+   * Prepends the page of messages older than what the current room shows. Uses the gateway's
+   * cursor when it pages, otherwise re-fetches with a larger `limit` and keeps the older part.
+   * Pages the cache already showed are skipped. Resolves with the prepended messages (empty when
+   * nothing was loaded).
+   */
+  const loadOlderHistory = useCallback(async (): Promise<ChatMessage[]> => {
+    const client = clientRef.current;
+    const key = sessionKeyRef.current;
+    const cursor = historyCursorsRef.current.get(key);
+    if (!client || status !== "connected" || !cursor || !cursor.hasMore || cursor.loading) {
+      return [];
+    }
+    cursor.loading = true;
+    syncHistoryPaging();
+    const shown = chatMessagesRef.current.filter((message) => !message.pending);
+    const oldestShownMs = shown.length > 0 ? Date.parse(shown[0].createdAt) : Number.POSITIVE_INFINITY;
+    try {
+      for (let page = 0; page < HISTORY_JUMP_MAX_PAGES && cursor.hasMore; page += 1) {
+        const paged = cursor.before !== undefined;
+        const limit = paged ? HISTORY_PAGE_SIZE : Math.min(cursor.rawCount + HISTORY_PAGE_SIZE, HISTORY_OFFSET_MAX_LIMIT);
+        const history = await client.request("chat.history", {
+          sessionKey: key,
+          limit,
+          before: cursor.before,
+        }, { timeoutMs: 6000 });
+        if (historyCursorsRef.current.get(key) !== cursor) {
+          // The room was reloaded meanwhile; this page no longer lines up.
+          return [];
+        }
+        const olderRaw = paged
+          ? history.messages
+          : history.messages.slice(0, Math.max(0, history.messages.length - cursor.rawCount));
+        cursor.before = paged ? history.nextCursor : undefined;
+        cursor.rawCount += olderRaw.length;
+        cursor.hasMore = paged
+          ? (history.hasMore ?? Boolean(history.nextCursor))
+          : olderRaw.length > 0 && history.messages.length >= limit && limit < HISTORY_OFFSET_MAX_LIMIT;
+        const older = mapHistoryToChatMessages(olderRaw).filter(
+          (message) =>
+            !(Date.parse(message.createdAt) > oldestShownMs) && !shown.some((existing) => isSameTurn(existing, message)),
+        );
+        if (older.length > 0) {
+          updateConversation(key, (current) => [...older, ...current]);
+          return older;
+        }
+      }
+      return [];
+    } catch (error) {
+      const messageText = error instanceof Error ? error.message : String(error);
+      setLastError(`读取更早的消息失败: ${messageText}`);
+      return [];
+    } finally {
+      cursor.loading = false;
+      syncHistoryPaging();
+    }
+  }, [status, syncHistoryPaging, updateConversation]);
+
+  /**
+   * Pages back until the current room's transcript reaches `target`, then resolves with the id of
+   * the first message at or after it (the oldest loaded one when history ends earlier).
+   */
+  const jumpToDate = useCallback(
+    async (target: Date): Promise<string | null> => {
+      const key = sessionKeyRef.current;
+      const targetMs = target.getTime();
+      let loaded = chatMessagesRef.current.filter((message) => !message.pending);
+      const oldestMs = () => {
+        const first = loaded[0];
+        return first ? Date.parse(first.createdAt) : Number.NEGATIVE_INFINITY;
+      };
+      for (let page = 0; page < HISTORY_JUMP_MAX_PAGES && oldestMs() > targetMs; page += 1) {
+        if (!historyCursorsRef.current.get(key)?.hasMore) {
+          break;
+        }
+        const older = await loadOlderHistory();
+        if (older.length === 0 || sessionKeyRef.current !== key) {
+          break;
+        }
+        loaded = [...older, ...loaded];
+      }
+      if (sessionKeyRef.current !== key) {
+        return null;
+      }
+      const match = loaded.find((message) => Date.parse(message.createdAt) >= targetMs) ?? loaded.at(-1);
+      return match?.id ?? null;
+    },
+    [loadOlderHistory],
+  );
 
   const refreshAgentList = useCallback(
     async (client: OpenClawGatewayClient, currentSessionKey: string) => {
       setAgentsLoading(true);
       try {
-        const result = await requestWithTimeout<AgentsListResult>(client, "agents.list", {}, 6000);
+        const result = await client.request("agents.list", {}, { timeoutMs: 6000 });
         const list = extractAgentItems(result);
         setAgents(list);
-        const defaultAgentId = typeof result.defaultId === "string" ? result.defaultId : null;
+        const defaultAgentId = result.defaultId ?? null;
 
-        try {
-          const sessionsResult = await requestWithTimeout<SessionsListResult>(client, "sessions.list", {
-            includeGlobal: false,
-            includeUnknown: false,
-            limit: 500,
-          }, 6000);
-          setAgentModels(extractAgentModelMap(sessionsResult, defaultAgentId));
-        } catch {
+        if (capabilitiesRef.current.enabled.sessionListing) {
+          try {
+            const sessionsResult = await client.request("sessions.list", {
+              includeGlobal: false,
+              includeUnknown: false,
+              limit: 500,
+            }, { timeoutMs: 6000 });
+            setAgentModels(extractAgentModelMap(sessionsResult, defaultAgentId));
+          } catch (error) {
+            setAgentModels({});
+            if (error instanceof GatewayProtocolError) {
+              setLastError(error.message);
+            }
+          }
+        } else {
           setAgentModels({});
         }
 
@@ -746,10 +1156,13 @@ export function useOpenClawChat(defaultUrl: string, defaultToken: string) {
         }
         const defaultAgent = list.find((item) => item.isDefault) ?? list[0];
         setActiveAgentId(defaultAgent?.id ?? null);
-      } catch {
+      } catch (error) {
         setAgents([]);
         setAgentModels({});
         setActiveAgentId(null);
+        if (error instanceof GatewayProtocolError) {
+          setLastError(error.message);
+        }
       } finally {
         setAgentsLoading(false);
       }
@@ -770,59 +1183,302 @@ export function useOpenClawChat(defaultUrl: string, defaultToken: string) {
       if (agentId === "main") {
         mainSessionKeyRef.current = nextSessionKey;
       }
+      const run = runsRef.current.get(currentSessionKey);
+      if (run) {
+        finishRun(run);
+      }
+      // Carry the visible transcript over so the notice appears under the failed reply.
+      setConversations((current) => ({
+        ...current,
+        [nextSessionKey]: [
+          ...(current[currentSessionKey] ?? NO_MESSAGES),
+          {
+            id: createId(),
+            role: "system",
+            text: "检测到图片上下文异常，已自动切换到新会话。请重新发送图片。",
+            createdAt: nowIso(),
+          },
+        ],
+      }));
       setSessionKey(nextSessionKey);
       sessionKeyRef.current = nextSessionKey;
-      activeRunIdRef.current = null;
-      activeAssistantMessageIdRef.current = null;
-      streamingTextRef.current = "";
-      setIsStreaming(false);
       setScreenText("");
-      setChatMessages((current) => [
-        ...current,
-        {
-          id: createId(),
-          role: "system",
-          text: "检测到图片上下文异常，已自动切换到新会话。请重新发送图片。",
-          createdAt: nowIso(),
-        },
-      ]);
     },
-    [activeAgentId],
+    [activeAgentId, finishRun],
   );
 
-  const connect = useCallback(async () => {
-    tearDownClient();
-    setStatus("connecting");
-    setLastError(null);
-    setIsStreaming(false);
-    activeRunIdRef.current = null;
-    streamingTextRef.current = "";
-
-    const nextClient = new OpenClawGatewayClient({
-      url: gatewayUrl.trim() || "ws://127.0.0.1:18789",
-      token: token.trim() || undefined,
-      onHello: (hello) => {
-        if (clientRef.current !== nextClient) {
-          return;
-        }
-        const nextSessionKey = pickSessionKey(hello);
-        mainSessionKeyRef.current = nextSessionKey;
-        setSessionKey(nextSessionKey);
-        sessionKeyRef.current = nextSessionKey;
-        setStatus("connected");
-        void Promise.all([
-          loadConversationForSession(nextClient, nextSessionKey),
-          refreshAgentList(nextClient, nextSessionKey),
-        ]);
+  /**
+   * Looks the run's reply up in its session's history, anchored on the prompt that was sent.
+   * Resolves true when that settled the run.
+   */
+  const reconcileFromHistory = useCallback(
+    async (client: OpenClawGatewayClient, run: SessionRun): Promise<boolean> => {
+      const assistantId = run.assistantMessageId;
+      if (!run.anchor || !assistantId) {
+        return false;
+      }
+      const token = run.fallbackToken;
+      const abort = new AbortController();
+      run.fallbackAbort = abort;
+      let messages: unknown[];
+      try {
+        const history = await client.request("chat.history", {
+          sessionKey: run.sessionKey,
+          limit: HISTORY_PAGE_SIZE,
+        }, { timeoutMs: 5000, signal: abort.signal });
+        messages = history.messages;
+      } catch {
+        // Transient failure; the watchdog checks again.
+        return false;
+      }
+      // An event arrived meanwhile (or the run ended); the live path owns it again.
+      if (run.fallbackToken !== token || runsRef.current.get(run.sessionKey) !== run) {
+        return false;
+      }
+      const span = locateReplyInHistory(messages, { ...run.anchor, runId: run.runId });
+      // An open span may end on an intermediate tool-call turn; wait for the rest.
+      if (!span || !isReplyComplete(span)) {
+        return false;
+      }
+      let reply: AssistantReplyPreview | null = null;
+      for (let index = span.entries.length - 1; index >= 0 && !reply; index -= 1) {
+        const entry = span.entries[index];
+        reply = entry.role === "assistant" ? extractAssistantMessageSummary(entry) : null;
+      }
+      if (!reply) {
+        return false;
+      }
+      const mapped = mapHistoryToChatMessages(span.entries).filter((message) => message.role === "assistant").at(-1);
+      finishRun(run);
+      if (run.sessionKey === sessionKeyRef.current) {
+        setScreenText(trimScreenText(reply.text));
+        setLastError(reply.isError ? reply.text.replace(/^错误:\s*/, "") : null);
+      }
+      patchMessage(run.sessionKey, assistantId, {
+        text: reply.text,
+        createdAt: reply.createdAt,
+        parts: mapped?.parts,
+        streaming: false,
+        resolvedVia: "history",
+      });
+      if (run.sessionKey === sessionKeyRef.current && reply.rawError && INVALID_IMAGE_DATA_RE.test(reply.rawError)) {
+        void recoverSessionFromImageError(client);
+      }
+      return true;
+    },
+    [finishRun, patchMessage, recoverSessionFromImageError],
+  );
+
+  /**
+   * (Re)starts the run's silence watchdog. Every chat or agent event of the run calls this, so
+   * history is only consulted once events stop arriving; after REPLY_MAX_SILENT_CHECKS fruitless
+   * checks the run times out.
+   */
+  const armReplyWatchdog = useCallback(
+    (run: SessionRun, delayMs = REPLY_SILENCE_MS) => {
+      if (!run.anchor || run.abortRequested) {
+        return;
+      }
+      stopRunFallback(run);
+      const token = run.fallbackToken;
+      const isCurrent = () => run.fallbackToken === token && runsRef.current.get(run.sessionKey) === run;
+      const check = async () => {
+        run.fallbackTimer = null;
+        const client = clientRef.current;
+        if (!client || !isCurrent()) {
+          return;
+        }
+        if ((await reconcileFromHistory(client, run)) || !isCurrent()) {
+          return;
+        }
+        run.silentChecks += 1;
+        if (run.silentChecks < REPLY_MAX_SILENT_CHECKS) {
+          run.fallbackTimer = window.setTimeout(() => {
+            void check();
+          }, REPLY_SILENCE_MS);
+          return;
+        }
+        finishRun(run);
+        const timeoutText = "请求超时：未收到回复，请重连后再试。";
+        if (run.sessionKey === sessionKeyRef.current) {
+          setLastError(timeoutText);
+          setScreenText(trimScreenText(timeoutText));
+        }
+        if (run.assistantMessageId) {
+          const partial = run.streamingText.trim();
+          patchMessage(run.sessionKey, run.assistantMessageId, {
+            text: partial ? `${partial}\n\n_（${timeoutText}）_` : timeoutText,
+            parts: run.parts.length > 0 ? stopRunningTools(run.parts) : undefined,
+            streaming: false,
+            resolvedVia: "timeout",
+          });
+        }
+      };
+      run.fallbackTimer = window.setTimeout(() => {
+        void check();
+      }, delayMs);
+    },
+    [finishRun, patchMessage, reconcileFromHistory],
+  );
+
+  /** Any event of a run proves it is alive: reset the silence count and the watchdog. */
+  const noteRunActivity = useCallback(
+    (run: SessionRun) => {
+      run.silentChecks = 0;
+      armReplyWatchdog(run);
+    },
+    [armReplyWatchdog],
+  );
+
+  const resyncSessionAfterGap = useCallback(
+    async (client: OpenClawGatewayClient, key: string) => {
+      const run = runsRef.current.get(key);
+      if (!run || !run.assistantMessageId) {
+        if (key === sessionKeyRef.current && !run) {
+          await loadConversationForSession(client, key);
+        }
+        return;
+      }
+      // Deltas carry the full text so far; accept the next one even if shorter
+      // than what the corrupted stream produced.
+      run.streamingText = "";
+      // The run may have completed while its events were lost.
+      stopRunFallback(run);
+      if (!(await reconcileFromHistory(client, run))) {
+        armReplyWatchdog(run);
+      }
+    },
+    [armReplyWatchdog, loadConversationForSession, reconcileFromHistory],
+  );
+
+  const connect = useCallback(async () => {
+    tearDownClient();
+    reconnectingRef.current = false;
+    pairingRef.current = false;
+    setPairingRequest(null);
+    setLoadedHistoryKey(null);
+    setStatus("connecting");
+    setReconnectAttempt(0);
+    setLiveness(null);
+    setPresence([]);
+    setGatewayHealth(null);
+    setAgentRuns({});
+    setLastError(null);
+
+    const profile = getConnectionProfile(profileId);
+    setGrantedAccess(null);
+    cacheGatewayRef.current = transcriptGatewayKey(gatewayUrl);
+    const nextClient = new OpenClawGatewayClient({
+      url: gatewayUrl.trim() || "ws://127.0.0.1:18789",
+      token: token.trim() || undefined,
+      role: profile.role,
+      scopes: profile.scopes,
+      requestTimeoutMs: REQUEST_TIMEOUT_MS,
+      onHello: (hello, { resumed }) => {
+        if (clientRef.current !== nextClient) {
+          return;
+        }
+        reconnectingRef.current = false;
+        pairingRef.current = false;
+        setPairingRequest(null);
+        setReconnectAttempt(0);
+        const nextCapabilities = deriveGatewayCapabilities(hello);
+        capabilitiesRef.current = nextCapabilities;
+        setCapabilities(nextCapabilities);
+        setGrantedAccess({
+          role: hello.auth?.role ?? profile.role,
+          scopes: hello.auth?.scopes ?? profile.scopes,
+        });
+        // The snapshot is the baseline; later presence/health broadcasts replace it wholesale.
+        setPresence(hello.snapshot?.presence ?? []);
+        const snapshotHealth = hello.snapshot?.health;
+        setGatewayHealth(snapshotHealth ? { ...snapshotHealth, receivedAt: Date.now() } : null);
+        // Runs we were tracking may have finished while the link was down.
+        setAgentRuns({});
+        if (resumed) {
+          // Stay in the room's session and pull whatever was missed while offline.
+          const resumedSessionKey = sessionKeyRef.current;
+          setStatus("connected");
+          setLastError(null);
+          void Promise.all([
+            loadConversationForSession(nextClient, resumedSessionKey),
+            refreshAgentList(nextClient, resumedSessionKey),
+          ]);
+          return;
+        }
+        const nextSessionKey = pickSessionKey(hello);
+        // Prompts queued before the first hello only know the "main" placeholder key.
+        setOutboundQueue((current) =>
+          current.some((item) => item.sessionKey === "main")
+            ? current.map((item) => (item.sessionKey === "main" ? { ...item, sessionKey: nextSessionKey } : item))
+            : current,
+        );
+        mainSessionKeyRef.current = nextSessionKey;
+        // Keep showing what was on screen until the session's history arrives.
+        const previousSessionKey = sessionKeyRef.current;
+        setConversations((current) =>
+          current[nextSessionKey] ? current : { ...current, [nextSessionKey]: current[previousSessionKey] ?? NO_MESSAGES },
+        );
+        setSessionKey(nextSessionKey);
+        sessionKeyRef.current = nextSessionKey;
+        setStatus("connected");
+        void hydrateFromCache(nextSessionKey).then(() =>
+          Promise.all([
+            loadConversationForSession(nextClient, nextSessionKey),
+            refreshAgentList(nextClient, nextSessionKey),
+          ]),
+        );
+      },
+      onReconnecting: (attempt) => {
+        if (clientRef.current !== nextClient) {
+          return;
+        }
+        reconnectingRef.current = true;
+        setLoadedHistoryKey(null);
+        clearRuns();
+        setReconnectAttempt(attempt);
+        setStatus("reconnecting");
+      },
+      onPairingRequired: (request) => {
+        if (clientRef.current !== nextClient) {
+          return;
+        }
+        pairingRef.current = true;
+        setPairingRequest(request);
+        setStatus("pairing");
+        setLastError(null);
+      },
+      onLiveness: (sample) => {
+        if (clientRef.current !== nextClient) {
+          return;
+        }
+        setLiveness(sample);
+      },
+      onProtocolError: (error) => {
+        if (clientRef.current !== nextClient) {
+          return;
+        }
+        setLastError(error.message);
+      },
+      onSequenceGap: ({ frame }) => {
+        if (clientRef.current !== nextClient) {
+          return;
+        }
+        const gapSessionKey =
+          frame.event === "chat" && isRecord(frame.payload) && typeof frame.payload.sessionKey === "string"
+            ? frame.payload.sessionKey
+            : sessionKeyRef.current;
+        void resyncSessionAfterGap(nextClient, gapSessionKey);
       },
       onClose: (code, reason) => {
         if (clientRef.current !== nextClient) {
           return;
         }
-        activeRunIdRef.current = null;
-        activeAssistantMessageIdRef.current = null;
-        streamingTextRef.current = "";
-        setIsStreaming(false);
+        reconnectingRef.current = false;
+        pairingRef.current = false;
+        setPairingRequest(null);
+        setReconnectAttempt(0);
+        clearRuns();
         if (code === 1000) {
           setStatus("idle");
           return;
@@ -834,216 +1490,265 @@ export function useOpenClawChat(defaultUrl: string, defaultToken: string) {
         if (clientRef.current !== nextClient) {
           return;
         }
-        setStatus("error");
         setLastError(error.message);
+        // Transport hiccups while polling for pairing approval are expected.
+        if (!reconnectingRef.current && !pairingRef.current) {
+          setStatus("error");
+        }
       },
     });
 
-    unsubscribeEventsRef.current = nextClient.onEvent((event: GatewayEventFrame) => {
-      if (event.event !== "chat") {
-        return;
+    const unsubscribeChat = nextClient.onEvent("chat", (payload) => {
+      if (payload.state === "final" || payload.state === "aborted" || payload.state === "error") {
+        // Not every gateway closes the agent lifecycle stream on abort.
+        setAgentRuns((current) => dropAgentRun(current, payload.runId));
       }
-      const payload = parseChatEvent(event.payload);
-      if (!payload) {
+      let run = findRunForEvent(runsRef.current, payload.runId, payload.sessionKey);
+      if (run) {
+        // The first event is authoritative, even when the gateway rewrites runId or
+        // canonicalizes sessionKey.
+        run.runId = payload.runId;
+        run.acknowledged = true;
+        if (payload.sessionKey !== run.sessionKey) {
+          moveSession(run.sessionKey, payload.sessionKey);
+        }
+      } else if (payload.sessionKey !== sessionKeyRef.current) {
+        // Background rooms only track runs started here; their history loads on entry.
         return;
+      } else if (runsRef.current.has(payload.sessionKey)) {
+        // Another run in a room whose reply we are waiting for; it is not ours to show.
+        return;
+      } else if (payload.state === "queued" || payload.state === "running" || payload.state === "delta") {
+        // A run in this room we did not start (e.g. from another client): follow it without a bubble.
+        run = createSessionRun(payload.sessionKey, payload.runId, null, Date.now());
+        runsRef.current.set(payload.sessionKey, run);
+        syncRunningSessions();
       }
 
-      const activeRunId = activeRunIdRef.current;
-      if (activeRunId) {
-        // One in-flight request at a time: accept first chat event as authoritative,
-        // even when gateway canonicalizes sessionKey or rewrites runId.
-        if (payload.runId !== activeRunId) {
-          activeRunIdRef.current = payload.runId;
-        }
-        if (payload.sessionKey !== sessionKeyRef.current) {
-          setSessionKey(payload.sessionKey);
-          sessionKeyRef.current = payload.sessionKey;
+      if (!run) {
+        if (payload.state === "final") {
+          void loadConversationForSession(nextClient, payload.sessionKey);
+        } else if (payload.state === "error") {
+          setLastError(normalizeGatewayErrorMessage(payload.errorMessage ?? "chat error"));
         }
-      } else if (payload.sessionKey !== sessionKeyRef.current) {
         return;
       }
+      const isVisible = run.sessionKey === sessionKeyRef.current;
+      const assistantId = run.assistantMessageId;
 
       if (payload.state === "delta") {
-        stopHistoryFallback();
+        noteRunActivity(run);
         const next = extractText(payload.message);
-        if (!next) {
+        if (!next || next.length < run.streamingText.length) {
           return;
         }
-        if (next.length >= streamingTextRef.current.length) {
-          streamingTextRef.current = next;
+        run.streamingText = next;
+        if (isVisible) {
           setScreenText(trimScreenText(next));
-          setIsStreaming(true);
-          const assistantId = activeAssistantMessageIdRef.current;
-          if (!assistantId) {
-            return;
-          }
-          setChatMessages((current) =>
-            current.map((message) =>
-              message.id === assistantId
-                ? {
-                    ...message,
-                    text: next,
-                    streaming: true,
-                  }
-                : message,
-            ),
-          );
+        }
+        if (assistantId) {
+          patchMessage(run.sessionKey, assistantId, { text: next, streaming: true });
         }
         return;
       }
 
       if (payload.state === "queued" || payload.state === "running") {
-        setIsStreaming(true);
+        noteRunActivity(run);
         return;
       }
 
       if (payload.state === "final") {
-        const finalText = extractText(payload.message) || streamingTextRef.current;
-        activeRunIdRef.current = null;
-        streamingTextRef.current = "";
-        const assistantId = activeAssistantMessageIdRef.current;
-        if (finalText.trim()) {
-          stopHistoryFallback();
-          setIsStreaming(false);
-          activeAssistantMessageIdRef.current = null;
-          setLastError(null);
-          setScreenText(trimScreenText(finalText));
+        const finalText = extractText(payload.message) || run.streamingText;
+        const finalParts = stopRunningTools(mergeFinalParts(extractContentParts(payload.message, Date.now()), run.parts));
+        if (finalText.trim() || hasStructuredParts(finalParts)) {
+          finishRun(run);
+          if (isVisible) {
+            setLastError(null);
+            setScreenText(trimScreenText(finalText));
+          }
           if (assistantId) {
-            setChatMessages((current) =>
-              current.map((message) =>
-                message.id === assistantId
-                  ? {
-                      ...message,
-                      text: finalText,
-                      streaming: false,
-                    }
-                  : message,
-              ),
-            );
+            patchMessage(run.sessionKey, assistantId, {
+              text: finalText,
+              parts: finalParts.length > 0 ? finalParts : undefined,
+              streaming: false,
+              resolvedVia: "event",
+            });
           }
-        } else {
-          // Keep waiting: some gateways emit `final` before history is materialized.
-          // The existing history fallback poll started in sendPrompt will continue.
-          if (!assistantId) {
-            setIsStreaming(false);
-            void loadConversationForSession(nextClient, sessionKeyRef.current);
+        } else if (!assistantId) {
+          finishRun(run);
+          if (isVisible) {
+            void loadConversationForSession(nextClient, run.sessionKey);
           }
+        } else {
+          // An empty `final`: some gateways emit it before the reply is in history.
+          armReplyWatchdog(run, REPLY_FINAL_SETTLE_MS);
         }
         return;
       }
 
       if (payload.state === "aborted") {
-        stopHistoryFallback();
-        activeRunIdRef.current = null;
-        const assistantId = activeAssistantMessageIdRef.current;
-        activeAssistantMessageIdRef.current = null;
-        streamingTextRef.current = "";
-        setIsStreaming(false);
-        setScreenText("本次运行已终止。");
-        if (assistantId) {
-          setChatMessages((current) =>
-            current.map((message) =>
-              message.id === assistantId
-                ? {
-                    ...message,
-                    text: "本次运行已终止。",
-                    streaming: false,
-                  }
-                : message,
-            ),
-          );
-        }
+        settleAbortedRun(run, run.abortRequested ? "已停止生成。" : "本次运行已终止。");
         return;
       }
 
-      stopHistoryFallback();
-      activeRunIdRef.current = null;
-      const assistantId = activeAssistantMessageIdRef.current;
-      activeAssistantMessageIdRef.current = null;
-      streamingTextRef.current = "";
-      setIsStreaming(false);
+      finishRun(run);
+
       const rawErrorMessage = payload.errorMessage ?? "chat error";
       const normalizedErrorMessage = normalizeGatewayErrorMessage(rawErrorMessage);
-      setLastError(normalizedErrorMessage);
       const errorText = `错误: ${normalizedErrorMessage}`;
-      setScreenText(trimScreenText(errorText));
+      if (isVisible) {
+        setLastError(normalizedErrorMessage);
+        setScreenText(trimScreenText(errorText));
+      }
       if (assistantId) {
-        setChatMessages((current) =>
-          current.map((message) =>
-            message.id === assistantId
-              ? {
-                  ...message,
-                  text: errorText,
-                  streaming: false,
-                }
-              : message,
-          ),
-        );
+        patchMessage(run.sessionKey, assistantId, {
+          text: errorText,
+          parts: run.parts.length > 0 ? stopRunningTools(run.parts) : undefined,
+          streaming: false,
+          resolvedVia: "event",
+        });
       }
-      if (INVALID_IMAGE_DATA_RE.test(rawErrorMessage)) {
+      if (isVisible && INVALID_IMAGE_DATA_RE.test(rawErrorMessage)) {
         void recoverSessionFromImageError(nextClient);
       }
     });
+    const unsubscribeAgent = nextClient.onEvent("agent", (payload) => {
+      const run = findRunForEvent(runsRef.current, payload.runId, payload.sessionKey);
+      if (!run) {
+        return;
+      }
+      // Long tool calls stream agent events but no chat deltas; they still count as progress.
+      noteRunActivity(run);
+      if (payload.stream !== "tool" && payload.stream !== "thinking") {
+        return;
+      }
+      const nextParts = applyAgentEventToParts(run.parts, payload, Date.now());
+      if (nextParts === run.parts) {
+        return;
+      }
+      run.parts = nextParts;
+      if (run.assistantMessageId) {
+        patchMessage(run.sessionKey, run.assistantMessageId, { parts: nextParts });
+      }
+    });
+    const unsubscribeInflight = nextClient.onInflightChange((requests) => {
+      if (clientRef.current === nextClient) {
+        setInflightRequests(requests);
+      }
+    });
+    const unsubscribeFrames = nextClient.onFrame((trace) => {
+      frameRecorder.record(trace);
+    });
+    const detachEventBus = eventBus.attach(nextClient);
+    unsubscribeEventsRef.current = () => {
+      unsubscribeChat();
+      unsubscribeAgent();
+      unsubscribeInflight();
+      unsubscribeFrames();
+      detachEventBus();
+    };
 
     clientRef.current = nextClient;
     nextClient.start();
-  }, [gatewayUrl, loadConversationForSession, recoverSessionFromImageError, refreshAgentList, stopHistoryFallback, tearDownClient, token]);
+  }, [
+    armReplyWatchdog,
+    clearRuns,
+    eventBus,
+    finishRun,
+    frameRecorder,
+    gatewayUrl,
+    hydrateFromCache,
+    loadConversationForSession,
+    moveSession,
+    noteRunActivity,
+    patchMessage,
+    profileId,
+    recoverSessionFromImageError,
+    refreshAgentList,
+    resyncSessionAfterGap,
+    settleAbortedRun,
+    syncRunningSessions,
+    tearDownClient,
+    token,
+  ]);
 
   const sendPrompt = useCallback(
-    async (prompt: string, attachments?: OutboundAttachment[]): Promise<boolean> => {
+    async (prompt: string, attachments?: OutboundAttachment[], queued?: QueuedPrompt): Promise<boolean> => {
       const client = clientRef.current;
       const message = prompt.trim();
       const safeAttachments = Array.isArray(attachments) ? attachments : [];
-      const imageAttachments: Array<{
-        attachment: OutboundAttachment;
-        payload: { type: "image"; mimeType: string; content: string; fileName: string };
-        image: ChatImageItem;
-      }> = [];
+      if (!client || status !== "connected") {
+        if (queued || (!message && safeAttachments.length === 0)) {
+          return false;
+        }
+        // Hold the prompt until the gateway is back; the flush effect sends it in order.
+        setOutboundQueue((current) => [
+          ...current,
+          {
+            id: createId(),
+            idempotencyKey: createId(),
+            sessionKey: sessionKeyRef.current,
+            prompt: message,
+            attachments: safeAttachments,
+            createdAt: nowIso(),
+          },
+        ]);
+        setLastError(null);
+        return true;
+      }
+      const agentId = parseSessionAgentId(sessionKeyRef.current) ?? activeAgentIdRef.current ?? "main";
+      // Null when this gateway/agent takes no binary images; they then only travel as path notes.
+      const imageLimits = resolveImageAttachmentLimits(
+        capabilitiesRef.current,
+        agents.find((agent) => agent.id === agentId)?.chatAttachments,
+      );
+      const bubbleImages: ChatImageItem[] = [];
+      const imagePayloads: ChatSendAttachment[] = [];
+      const attachedImagePaths = new Set<string>();
       let imageBytesTotal = 0;
-      let droppedImageCount = 0;
+      let skippedImageCount = 0;
       for (const attachment of safeAttachments) {
         if (!attachment.imageDataUrl) {
           continue;
         }
+        bubbleImages.push({
+          id: createId(),
+          dataUrl: attachment.imageDataUrl,
+          mimeType: attachment.mimeType || "image/png",
+          fileName: attachment.fileName,
+        });
+        if (!imageLimits) {
+          continue;
+        }
         let dataUrl = attachment.imageDataUrl;
         try {
-          dataUrl = await normalizeImageDataUrlForGateway(dataUrl);
+          dataUrl = await normalizeImageDataUrlForGateway(dataUrl, imageLimits);
         } catch {
           dataUrl = attachment.imageDataUrl;
         }
         const parsed = parseDataUrlToBase64(dataUrl);
-        if (!parsed) {
-          continue;
-        }
-        const mimeType = parsed.mimeType || attachment.mimeType || "image/png";
-        const normalizedDataUrl = toImageDataUrl(mimeType, parsed.content);
-        const imageBytes = estimateBase64ByteLength(parsed.content);
+        const imageBytes = parsed ? estimateBase64ByteLength(parsed.content) : Number.POSITIVE_INFINITY;
+        const mimeType = parsed?.mimeType || attachment.mimeType || "image/png";
         if (
-          imageBytesTotal + imageBytes > IMAGE_SEND_TOTAL_MAX_BYTES &&
-          imageAttachments.length > 0
+          !parsed ||
+          (imageLimits.mimeTypes && !imageLimits.mimeTypes.includes(mimeType)) ||
+          imageBytes > imageLimits.maxBytes ||
+          imageBytesTotal + imageBytes > imageLimits.maxTotalBytes ||
+          imagePayloads.length >= imageLimits.maxCount
         ) {
-          droppedImageCount += 1;
+          skippedImageCount += 1;
           continue;
         }
         imageBytesTotal += imageBytes;
-        imageAttachments.push({
-          attachment,
-          payload: {
-            type: "image",
-            mimeType,
-            content: parsed.content,
-            fileName: attachment.fileName,
-          },
-          image: {
-            id: createId(),
-            dataUrl: normalizedDataUrl,
-            mimeType,
-            fileName: attachment.fileName,
-          },
+        attachedImagePaths.add(attachment.relativePath);
+        imagePayloads.push({
+          type: "image",
+          mimeType,
+          content: parsed.content,
+          fileName: attachment.fileName,
         });
       }
 
-      const imagePathSet = new Set(imageAttachments.map((item) => item.attachment.relativePath));
       const formatAttachmentLocation = (attachment: OutboundAttachment) => {
         const absolutePath = (attachment.absolutePath || "").trim();
         if (absolutePath) {
@@ -1051,240 +1756,336 @@ export function useOpenClawChat(defaultUrl: string, defaultToken: string) {
         }
         return attachment.relativePath;
       };
+      const describeAttachment = (attachment: OutboundAttachment) => {
+        if (!attachment.imageDataUrl) {
+          return isInlineAttachment(attachment) ? "[文件，内容见下]" : "[文件]";
+        }
+        return attachedImagePaths.has(attachment.relativePath) ? "[图片]" : "[图片，未随消息附带]";
+      };
       const fileNotes = safeAttachments
         .map(
           (attachment) =>
-            `- ${imagePathSet.has(attachment.relativePath) ? "[图片]" : "[文件]"} ${attachment.fileName} (${attachment.mimeType || "application/octet-stream"}) -> ${formatAttachmentLocation(attachment)}`,
+            `- ${describeAttachment(attachment)} ${attachment.fileName} (${attachment.mimeType || "application/octet-stream"}) -> ${formatAttachmentLocation(attachment)}`,
         )
         .join("\n");
+      const inlineSection = buildInlineAttachmentSection(safeAttachments);
       const messageWithAttachmentNotes = fileNotes
-        ? `${message}\n\n附件（已保存到项目目录）:\n${fileNotes}`.trim()
+        ? [`${message}\n\n附件（已保存到项目目录）:\n${fileNotes}`.trim(), inlineSection].filter(Boolean).join("\n\n")
         : message;
-      const finalMessage = messageWithAttachmentNotes || (imageAttachments.length > 0 ? "请结合我上传的图片回答。" : "");
+      const finalMessage = messageWithAttachmentNotes || (imagePayloads.length > 0 ? "请结合我上传的图片回答。" : "");
       if (!finalMessage) {
         return false;
       }
-      if (!client || status !== "connected") {
-        setLastError("Gateway 未连接，请先建立连接。");
+      const currentSessionKey = sessionKeyRef.current;
+      if (runsRef.current.has(currentSessionKey)) {
+        setLastError("当前房间已有进行中的请求，请等待回复完成。");
         return false;
       }
-      if (activeRunIdRef.current) {
-        setLastError("已有进行中的请求，请等待当前回复完成。");
-        return false;
+      if (queued) {
+        setOutboundQueue((current) => current.filter((item) => item.id !== queued.id));
       }
-      const currentSessionKey = sessionKeyRef.current;
-      const preferredSessionKey = currentSessionKey;
-      const historySessionKeys = Array.from(
-        new Set(
-          activeAgentId === "main"
-            ? [currentSessionKey, mainSessionKeyRef.current, "main", "agent:main:main"]
-            : [currentSessionKey, mainSessionKeyRef.current],
-        ),
-      );
-
-      const idempotencyKey = createId();
+      const forkSeed = forkSeedsRef.current.get(currentSessionKey);
+      const gatewayMessage = forkSeed ? attachForkSeed(forkSeed, finalMessage) : finalMessage;
+      const idempotencyKey = queued?.idempotencyKey ?? createId();
       const assistantMessageId = createId();
+      const userMessageId = createId();
       const createdAt = nowIso();
       const sendStartedAtMs = Date.parse(createdAt);
-      const baselineAssistantText = pickLatestAssistantText(chatMessagesRef.current);
-      // Temporary in-flight marker before gateway returns actual runId.
-      activeRunIdRef.current = idempotencyKey;
-      activeAssistantMessageIdRef.current = assistantMessageId;
-      streamingTextRef.current = "";
-      setIsStreaming(true);
-      setLastError(droppedImageCount > 0 ? `已自动跳过 ${droppedImageCount} 张超大图片。` : null);
+      // Keyed by the idempotency key until the gateway returns the actual runId.
+      const run = createSessionRun(currentSessionKey, idempotencyKey, assistantMessageId, sendStartedAtMs, gatewayMessage);
+      runsRef.current.set(currentSessionKey, run);
+      syncRunningSessions();
+      setLastError(
+        skippedImageCount > 0 ? `${skippedImageCount} 张图片超出当前 Agent 的附件限制，已改为只发送文件路径。` : null,
+      );
       setLastPrompt(finalMessage);
       setScreenText("");
       const userDisplayText = message;
-      setChatMessages((current) => [
+      updateConversation(currentSessionKey, (current) => [
         ...current,
         {
-          id: createId(),
+          id: userMessageId,
           role: "user",
           text: userDisplayText,
           createdAt,
-          images: imageAttachments.map((item) => item.image),
+          images: bubbleImages,
         },
         { id: assistantMessageId, role: "assistant", text: "正在思考...", createdAt, streaming: true },
       ]);
 
       try {
-        if (preferredSessionKey !== currentSessionKey) {
-          setSessionKey(preferredSessionKey);
-          sessionKeyRef.current = preferredSessionKey;
-        }
-        const sendResult = await requestWithTimeout<ChatSendResult>(client, "chat.send", {
-          sessionKey: preferredSessionKey,
-          message: finalMessage,
-          attachments:
-            USE_IMAGE_BINARY_ATTACHMENTS && imageAttachments.length > 0
-              ? imageAttachments.map((item) => item.payload)
-              : undefined,
-          deliver: true,
-          idempotencyKey,
-        });
-        if (isRecord(sendResult) && typeof sendResult.runId === "string" && sendResult.runId.trim()) {
-          activeRunIdRef.current = sendResult.runId.trim();
-        }
-        stopHistoryFallback();
-        const fallbackToken = historyFallbackTokenRef.current + 1;
-        historyFallbackTokenRef.current = fallbackToken;
-        const pollHistory = async (attempt: number) => {
-          if (historyFallbackTokenRef.current !== fallbackToken) {
-            return;
-          }
-          if (!clientRef.current || status !== "connected") {
-            return;
-          }
-          const activeAssistantId = activeAssistantMessageIdRef.current;
-          if (activeAssistantId !== assistantMessageId) {
-            return;
-          }
-          for (const historySessionKey of historySessionKeys) {
-            try {
-              const history = await requestWithTimeout<ChatHistoryResult>(client, "chat.history", {
-                sessionKey: historySessionKey,
-                limit: 20,
-              }, 5000);
-              const messages = Array.isArray(history.messages) ? history.messages : [];
-              const latestAssistant = extractLatestAssistantReply(messages);
-              if (!latestAssistant) {
-                continue;
-              }
-              const latestMs = Date.parse(latestAssistant.createdAt);
-              const isLikelyNewByTime =
-                Number.isFinite(latestMs) &&
-                Number.isFinite(sendStartedAtMs) &&
-                latestMs >= sendStartedAtMs - 1500;
-              const isLikelyNewByText =
-                baselineAssistantText === null || latestAssistant.text.trim() !== baselineAssistantText.trim();
-              if (!(isLikelyNewByTime || isLikelyNewByText)) {
-                continue;
-              }
-              stopHistoryFallback();
-              activeRunIdRef.current = null;
-              activeAssistantMessageIdRef.current = null;
-              streamingTextRef.current = "";
-              setIsStreaming(false);
-              setScreenText(trimScreenText(latestAssistant.text));
-              if (latestAssistant.isError) {
-                setLastError(latestAssistant.text.replace(/^错误:\s*/, ""));
-              } else {
-                setLastError(null);
-              }
-              if (historySessionKey !== sessionKeyRef.current) {
-                setSessionKey(historySessionKey);
-                sessionKeyRef.current = historySessionKey;
-              }
-              setChatMessages((current) =>
-                current.map((item) =>
-                  item.id === assistantMessageId
-                    ? {
-                        ...item,
-                        text: latestAssistant.text,
-                        createdAt: latestAssistant.createdAt,
-                        streaming: false,
-                      }
-                    : item,
-                ),
-              );
-              if (latestAssistant.rawError && INVALID_IMAGE_DATA_RE.test(latestAssistant.rawError)) {
-                void recoverSessionFromImageError(client);
-              }
-              return;
-            } catch {
-              // Ignore transient history fetch failures; next round may recover.
-            }
+        const sendChat = (withImages: boolean) =>
+          client.request("chat.send", {
+            sessionKey: currentSessionKey,
+            message: gatewayMessage,
+            attachments: withImages ? imagePayloads : undefined,
+            deliver: true,
+            idempotencyKey,
+          });
+        let sendResult;
+        try {
+          sendResult = await sendChat(imagePayloads.length > 0);
+        } catch (error) {
+          if (imagePayloads.length === 0 || !isAttachmentRejection(error)) {
+            throw error;
           }
-
-          if (attempt >= 20) {
-            stopHistoryFallback();
-            activeRunIdRef.current = null;
-            activeAssistantMessageIdRef.current = null;
-            streamingTextRef.current = "";
-            setIsStreaming(false);
-            const timeoutText =
-              activeAgentId === "main"
-                ? "请求超时：main 房间未收到回复（已尝试主会话和 agent:main:main）。请重连后再试。"
-                : "请求超时：未收到回复，请重连后再试。";
-            setLastError(timeoutText);
-            setScreenText(trimScreenText(timeoutText));
-            setChatMessages((current) =>
-              current.map((item) =>
-                item.id === assistantMessageId
-                  ? {
-                      ...item,
-                      text: timeoutText,
-                      streaming: false,
-                    }
-                  : item,
-              ),
-            );
-            return;
+          // The path notes already in the message still point the agent at the files.
+          sendResult = await sendChat(false);
+          if (run.sessionKey === sessionKeyRef.current) {
+            setLastError("Gateway 拒绝了图片附件，已改为只发送文件路径。");
           }
-          historyFallbackTimerRef.current = window.setTimeout(() => {
-            void pollHistory(attempt + 1);
-          }, 1200);
-        };
-        historyFallbackTimerRef.current = window.setTimeout(() => {
-          void pollHistory(1);
-        }, 1600);
+        }
+        if (sendResult.runId && !run.acknowledged) {
+          run.runId = sendResult.runId;
+          run.acknowledged = true;
+        }
+        forkSeedsRef.current.delete(currentSessionKey);
+        // Events settle the reply; history is only consulted if they stop arriving.
+        armReplyWatchdog(run);
         return true;
       } catch (error) {
-        stopHistoryFallback();
-        activeRunIdRef.current = null;
-        activeAssistantMessageIdRef.current = null;
-        streamingTextRef.current = "";
-        setIsStreaming(false);
+        finishRun(run);
+        if (queued && !client.connected) {
+          // The link dropped mid-send. Requeue with the same idempotency key; if the gateway did
+          // receive the first attempt it will treat the retry as a duplicate.
+          updateConversation(run.sessionKey, (current) =>
+            current.filter((item) => item.id !== userMessageId && item.id !== assistantMessageId),
+          );
+          setOutboundQueue((current) => [queued, ...current.filter((item) => item.id !== queued.id)]);
+          return false;
+        }
         const messageText = error instanceof Error ? error.message : String(error);
-        setLastError(messageText);
-        setScreenText(trimScreenText(`请求失败: ${messageText}`));
-        setChatMessages((current) =>
-          current.map((item) =>
-            item.id === assistantMessageId
-              ? {
-                  ...item,
-                  text: `请求失败: ${messageText}`,
-                  streaming: false,
-                }
-              : item,
-          ),
-        );
+        if (run.sessionKey === sessionKeyRef.current) {
+          setLastError(messageText);
+          setScreenText(trimScreenText(`请求失败: ${messageText}`));
+        }
+        patchMessage(run.sessionKey, assistantMessageId, { text: `请求失败: ${messageText}`, streaming: false });
         return false;
       }
     },
-    [activeAgentId, recoverSessionFromImageError, status, stopHistoryFallback],
+    [agents, armReplyWatchdog, finishRun, patchMessage, status, syncRunningSessions, updateConversation],
   );
 
   const cancelPending = useCallback((reason?: string) => {
     const finalReason = (reason ?? "已手动停止等待。").trim() || "已手动停止等待。";
-    stopHistoryFallback();
-    activeRunIdRef.current = null;
-    const assistantId = activeAssistantMessageIdRef.current;
-    activeAssistantMessageIdRef.current = null;
-    streamingTextRef.current = "";
-    setIsStreaming(false);
+    const run = runsRef.current.get(sessionKeyRef.current);
+    if (run) {
+      finishRun(run);
+    }
     setLastError(finalReason);
     setScreenText(trimScreenText(finalReason));
-    if (assistantId) {
-      setChatMessages((current) =>
-        current.map((item) =>
-          item.id === assistantId
-            ? {
-                ...item,
-                text: finalReason,
-                streaming: false,
-              }
-            : item,
-        ),
-      );
+    if (run?.assistantMessageId) {
+      patchMessage(run.sessionKey, run.assistantMessageId, { text: finalReason, streaming: false, resolvedVia: "local" });
     }
-  }, [stopHistoryFallback]);
+  }, [finishRun, patchMessage]);
+
+  /** Asks the gateway to stop the current room's run; falls back to local cancel when unsupported. */
+  const abortRun = useCallback(async () => {
+    const client = clientRef.current;
+    const run = runsRef.current.get(sessionKeyRef.current);
+    if (!run || run.abortRequested) {
+      return;
+    }
+    if (!client || status !== "connected") {
+      cancelPending("已手动停止本次请求。");
+      return;
+    }
+    if (!capabilitiesRef.current.enabled.abort) {
+      cancelPending(ABORT_UNSUPPORTED_MESSAGE);
+      return;
+    }
+    run.abortRequested = true;
+    stopRunFallback(run);
+    syncRunningSessions();
+    try {
+      const result = await client.request("chat.abort", {
+        sessionKey: run.sessionKey,
+        runId: run.acknowledged ? run.runId : undefined,
+      });
+      if (runsRef.current.get(run.sessionKey) !== run) {
+        // The `aborted` (or `final`) event already settled it.
+        return;
+      }
+      if (result.aborted === false) {
+        // Nothing was running server-side; the reply finished or failed just before the stop.
+        settleAbortedRun(run, "运行已结束，未能中止。");
+        if (run.sessionKey === sessionKeyRef.current) {
+          void loadConversationForSession(client, run.sessionKey);
+        }
+        return;
+      }
+      run.fallbackTimer = window.setTimeout(() => {
+        run.fallbackTimer = null;
+        if (runsRef.current.get(run.sessionKey) === run) {
+          settleAbortedRun(run, undefined, "local");
+        }
+      }, ABORT_CONFIRM_TIMEOUT_MS);
+    } catch (error) {
+      if (runsRef.current.get(run.sessionKey) !== run) {
+        return;
+      }
+      if (isUnsupportedMethodError(error)) {
+        cancelPending(ABORT_UNSUPPORTED_MESSAGE);
+        return;
+      }
+      run.abortRequested = false;
+      syncRunningSessions();
+      const messageText = error instanceof Error ? error.message : String(error);
+      setLastError(`停止失败: ${messageText}`);
+    }
+  }, [cancelPending, loadConversationForSession, settleAbortedRun, status, syncRunningSessions]);
+
+  /**
+   * Starts a new session for the current agent holding the transcript up to `messageId`
+   * (everything when omitted, nothing before it when `inclusive` is false) and switches to it.
+   */
+  const forkSession = useCallback(
+    (messageId?: string, inclusive = true): string | null => {
+      const sourceKey = sessionKeyRef.current;
+      const messages = chatMessagesRef.current;
+      const index = messageId ? messages.findIndex((message) => message.id === messageId) : messages.length - 1;
+      if (index < 0 && messageId) {
+        return null;
+      }
+      const copied = messages.slice(0, inclusive ? index + 1 : index);
+      const agentId = parseSessionAgentId(sourceKey) ?? activeAgentIdRef.current ?? "main";
+      const forkKey = createForkSessionKey(agentId);
+      const seed = buildForkSeed(sourceKey, toForkSeedTurns(copied));
+      if (seed) {
+        forkSeedsRef.current.set(forkKey, seed);
+      }
+      const createdAt = nowIso();
+      updateConversation(forkKey, () => [
+        {
+          id: createId(),
+          role: "system",
+          text: seed ? `从 ${sourceKey} 分支。下一条消息会连同之前的对话一起发送。` : `从 ${sourceKey} 分支（无可带入的上下文）。`,
+          createdAt,
+        },
+        ...copied
+          .filter((message) => (message.role === "user" || message.role === "assistant") && !message.pending && !message.streaming)
+          .map((message) => ({ ...message, id: createId(), seeded: true })),
+      ]);
+      setSessionKey(forkKey);
+      sessionKeyRef.current = forkKey;
+      imageErrorRecoveredSessionRef.current = null;
+      setLastPrompt("");
+      setScreenText("");
+      setLastError(null);
+      // Nothing to load from the gateway yet; the fork exists once its first prompt is sent.
+      setLoadedHistoryKey(forkKey);
+      return forkKey;
+    },
+    [updateConversation],
+  );
+
+  /**
+   * Sends the last user prompt again in a fork taken just before it, so the discarded reply is not
+   * in the model's context (the gateway transcript is append-only). Resolves with the fork's key
+   * once the fork is on screen, even if the send then failed (the fork shows why), so the caller
+   * can bind the room to it; null when nothing changed.
+   */
+  const regenerateReply = useCallback(async (): Promise<string | null> => {
+    const key = sessionKeyRef.current;
+    if (runsRef.current.has(key)) {
+      setLastError("当前房间已有进行中的请求，请等待回复完成。");
+      return null;
+    }
+    const messages = chatMessagesRef.current;
+    let promptIndex = -1;
+    for (let index = messages.length - 1; index >= 0; index -= 1) {
+      const message = messages[index];
+      if (message.role === "user" && !message.pending && !message.seeded) {
+        promptIndex = index;
+        break;
+      }
+    }
+    const prompt = promptIndex >= 0 ? messages[promptIndex] : null;
+    if (!prompt?.text.trim()) {
+      setLastError("没有可重新生成的提问。");
+      return null;
+    }
+    const forkKey = forkSession(prompt.id, false);
+    if (!forkKey) {
+      return null;
+    }
+    const sent = await sendPrompt(prompt.text);
+    if (sent && prompt.images && prompt.images.length > 0) {
+      setLastError("图片附件不会随重新生成再次发送。");
+    }
+    return forkKey;
+  }, [forkSession, sendPrompt]);
+
+  /**
+   * Resends an edited user prompt in a fork taken just before the original. Resolves like
+   * `regenerateReply`: the fork's key once it is on screen, null when nothing changed.
+   */
+  const resendEditedPrompt = useCallback(
+    async (messageId: string, text: string): Promise<string | null> => {
+      const prompt = text.trim();
+      const key = sessionKeyRef.current;
+      const messages = chatMessagesRef.current;
+      const index = messages.findIndex((message) => message.id === messageId);
+      if (!prompt || index < 0 || messages[index].role !== "user") {
+        return null;
+      }
+      if (runsRef.current.has(key)) {
+        setLastError("当前房间已有进行中的请求，请等待回复完成。");
+        return null;
+      }
+      const forkKey = forkSession(messageId, false);
+      if (!forkKey) {
+        return null;
+      }
+      await sendPrompt(prompt);
+      return forkKey;
+    },
+    [forkSession, sendPrompt],
+  );
+
+  /** Puts `key` on screen: cached copy first, then the gateway's history. `note` fills an empty room meanwhile. */
+  const enterSession = useCallback(
+    async (client: OpenClawGatewayClient, key: string, note: string) => {
+      setSessionKey(key);
+      sessionKeyRef.current = key;
+      imageErrorRecoveredSessionRef.current = null;
+      setLastPrompt("");
+      const runningRun = runsRef.current.get(key);
+      if (runningRun) {
+        // A reply is still streaming into this room; its transcript here is newer than history.
+        setScreenText(trimScreenText(runningRun.streamingText));
+        setLoadedHistoryKey(key);
+        return;
+      }
+      setScreenText("");
+      await hydrateFromCache(key);
+      updateConversation(key, (current) =>
+        current.length > 0
+          ? current
+          : [
+              {
+                id: createId(),
+                role: "system",
+                text: note,
+                createdAt: nowIso(),
+              },
+            ],
+      );
+      await loadConversationForSession(client, key);
+    },
+    [hydrateFromCache, loadConversationForSession, updateConversation],
+  );
 
+  /**
+   * Moves the screen to `agentId`. `sessionKey` is the room's own session of that agent; without
+   * one (or when it is the agent's main key) the agent's main session is used.
+   */
   const switchAgent = useCallback(
-    async (agentId: string): Promise<boolean> => {
+    async (agentId: string, sessionKey?: string): Promise<boolean> => {
       const client = clientRef.current;
       const nextAgentId = agentId.trim();
+      const requestedKey = sessionKey?.trim() ?? "";
+      const roomKey = requestedKey && !isMainSessionKey(requestedKey) ? requestedKey : null;
       if (!client || !nextAgentId) {
         return false;
       }
@@ -1292,36 +2093,21 @@ export function useOpenClawChat(defaultUrl: string, defaultToken: string) {
         setLastError("Gateway 未连接，请先连接后再切换 Agent。");
         return false;
       }
-      if (activeRunIdRef.current) {
-        stopHistoryFallback();
-        activeRunIdRef.current = null;
-        const assistantId = activeAssistantMessageIdRef.current;
-        activeAssistantMessageIdRef.current = null;
-        streamingTextRef.current = "";
-        setIsStreaming(false);
-        if (assistantId) {
-          setChatMessages((current) =>
-            current.map((message) =>
-              message.id === assistantId
-                ? {
-                    ...message,
-                    text: "已停止当前回复，正在切换房间...",
-                    streaming: false,
-                  }
-                : message,
-            ),
-          );
-        }
+      if (!capabilitiesRef.current.enabled.agentSwitching && nextAgentId !== (activeAgentIdRef.current ?? "main")) {
+        setLastError("当前 Gateway 不支持 Agent 切换（缺少 agents.list）。");
+        return false;
       }
+      const canResolveSessions = gatewaySupportsMethod(capabilitiesRef.current, "sessions.resolve");
       const currentActiveAgentId = activeAgentIdRef.current;
       const currentSessionAgentId = parseSessionAgentId(sessionKeyRef.current);
+      const onMainSession = isMainSessionKey(sessionKeyRef.current) || sessionKeyRef.current === mainSessionKeyRef.current;
       const isMainLikeCurrentSession =
         sessionKeyRef.current === mainSessionKeyRef.current ||
         sessionKeyRef.current === "main" ||
         currentSessionAgentId === "main";
-      const alreadyInTargetSession =
-        currentSessionAgentId === nextAgentId ||
-        (nextAgentId === "main" && isMainLikeCurrentSession);
+      const alreadyInTargetSession = roomKey
+        ? sessionKeyRef.current === roomKey
+        : onMainSession && (currentSessionAgentId === nextAgentId || (nextAgentId === "main" && isMainLikeCurrentSession));
       if (nextAgentId === currentActiveAgentId && alreadyInTargetSession) {
         return true;
       }
@@ -1330,20 +2116,32 @@ export function useOpenClawChat(defaultUrl: string, defaultToken: string) {
       setLastError(null);
       try {
         let nextSessionKey = "";
-        if (nextAgentId === "main") {
+        if (roomKey) {
+          nextSessionKey = roomKey;
+          if (canResolveSessions) {
+            try {
+              const resolved = await client.request("sessions.resolve", {
+                key: roomKey,
+                includeGlobal: true,
+              });
+              nextSessionKey = resolved.key;
+            } catch {
+              // Not created yet; the first prompt creates it under this key.
+              nextSessionKey = roomKey;
+            }
+          }
+        } else if (nextAgentId === "main") {
           const mainCandidates = Array.from(new Set([mainSessionKeyRef.current, "main", "agent:main:main"])).filter((value) =>
             Boolean(value && value.trim()),
           );
-          for (const candidate of mainCandidates) {
+          for (const candidate of canResolveSessions ? mainCandidates : []) {
             try {
-              const resolved = await requestWithTimeout<SessionsResolveResult>(client, "sessions.resolve", {
+              const resolved = await client.request("sessions.resolve", {
                 key: candidate,
                 includeGlobal: true,
               });
-              if (typeof resolved.key === "string" && resolved.key.trim()) {
-                nextSessionKey = resolved.key.trim();
-                break;
-              }
+              nextSessionKey = resolved.key;
+              break;
             } catch {
               // Try next candidate.
             }
@@ -1354,70 +2152,400 @@ export function useOpenClawChat(defaultUrl: string, defaultToken: string) {
         } else {
           const requestedSessionKey = `agent:${nextAgentId}:main`;
           nextSessionKey = requestedSessionKey;
-          try {
-            const resolved = await requestWithTimeout<SessionsResolveResult>(client, "sessions.resolve", {
-              key: requestedSessionKey,
-              includeGlobal: true,
-            });
-            if (typeof resolved.key === "string" && resolved.key.trim()) {
-              nextSessionKey = resolved.key.trim();
+          if (canResolveSessions) {
+            try {
+              const resolved = await client.request("sessions.resolve", {
+                key: requestedSessionKey,
+                includeGlobal: true,
+              });
+              nextSessionKey = resolved.key;
+            } catch {
+              nextSessionKey = requestedSessionKey;
             }
-          } catch {
-            nextSessionKey = requestedSessionKey;
           }
         }
         setActiveAgentId(nextAgentId);
-        setSessionKey(nextSessionKey);
-        sessionKeyRef.current = nextSessionKey;
-        imageErrorRecoveredSessionRef.current = null;
-        activeRunIdRef.current = null;
-        activeAssistantMessageIdRef.current = null;
-        streamingTextRef.current = "";
-        setIsStreaming(false);
-        setLastPrompt("");
+        await enterSession(
+          client,
+          nextSessionKey,
+          roomKey ? `已切换到 Agent: ${nextAgentId}（会话 ${nextSessionKey}）` : `已切换到 Agent: ${nextAgentId}`,
+        );
+        return true;
+      } catch (error) {
+        const messageText = error instanceof Error ? error.message : String(error);
+        setLastError(`切换 Agent 失败: ${messageText}`);
+        return false;
+      } finally {
+        setAgentSwitching(false);
+      }
+    },
+    [enterSession, status],
+  );
+
+  /**
+   * Offline counterpart of `switchAgent`: shows the cached copy of the room's session for
+   * reading. For the agent's main session any cached spelling of it ("main", "agent:<id>:main")
+   * will do. Without a cached copy the room's session is still selected, so prompts composed
+   * meanwhile are queued for it. Resolves false when connected (or connecting) or when nothing
+   * is cached.
+   */
+  const openCachedSession = useCallback(
+    async (agentId: string, sessionKey = `agent:${agentId}:main`): Promise<boolean> => {
+      if (clientRef.current) {
+        return false;
+      }
+      const gateway = transcriptGatewayKey(gatewayUrl);
+      let cached = await readCachedTranscript(gateway, sessionKey);
+      if (!cached && isMainSessionKey(sessionKey)) {
+        const summaries = await listCachedTranscripts(gateway);
+        const match = summaries.find(
+          (summary) => isMainSessionKey(summary.sessionKey) && (parseSessionAgentId(summary.sessionKey) ?? "main") === agentId,
+        );
+        cached = match ? await readCachedTranscript(gateway, match.sessionKey) : null;
+      }
+      if (clientRef.current) {
+        return false;
+      }
+      if (!cached) {
+        if (!isSameSessionKey(sessionKeyRef.current, sessionKey)) {
+          setSessionKey(sessionKey);
+          sessionKeyRef.current = sessionKey;
+          setScreenText("");
+        }
+        return false;
+      }
+      cacheGatewayRef.current = gateway;
+      cachedTranscriptsRef.current.set(cached.sessionKey, cached.messages);
+      // The in-memory copy is at least as new unless it only holds status notes.
+      updateConversation(cached.sessionKey, (current) =>
+        current.some((message) => message.role === "user" || message.role === "assistant") ? current : cached.messages,
+      );
+      setCachedSessionKeys((current) => (current.includes(cached.sessionKey) ? current : [...current, cached.sessionKey]));
+      setSessionKey(cached.sessionKey);
+      sessionKeyRef.current = cached.sessionKey;
+      setScreenText("");
+      return true;
+    },
+    [gatewayUrl, updateConversation],
+  );
+
+  /** Lists the sessions of the agent the current room belongs to. */
+  const refreshSessions = useCallback(async (): Promise<boolean> => {
+    const client = clientRef.current;
+    const agentId = parseSessionAgentId(sessionKeyRef.current) ?? activeAgentIdRef.current ?? "main";
+    if (!client || status !== "connected") {
+      return false;
+    }
+    if (!capabilitiesRef.current.enabled.sessionListing) {
+      setLastError("当前 Gateway 不支持会话列表（缺少 sessions.list）。");
+      return false;
+    }
+    setSessionsLoading(true);
+    try {
+      const result = await client.request("sessions.list", {
+        includeGlobal: false,
+        includeUnknown: false,
+        limit: 500,
+        agentId,
+      }, { timeoutMs: 6000 });
+      const defaultAgentId = agents.find((agent) => agent.isDefault)?.id ?? null;
+      setSessionList({ agentId, sessions: filterAgentSessions(result.sessions, agentId, defaultAgentId) });
+      return true;
+    } catch (error) {
+      const messageText = error instanceof Error ? error.message : String(error);
+      setLastError(`读取会话列表失败: ${messageText}`);
+      return false;
+    } finally {
+      setSessionsLoading(false);
+    }
+  }, [agents, status]);
+
+  /** Switches to a new, empty session of the current agent; the gateway creates it on the first prompt. */
+  const startNewSession = useCallback((): string => {
+    const agentId = parseSessionAgentId(sessionKeyRef.current) ?? activeAgentIdRef.current ?? "main";
+    const key = createFreshSessionKey(agentId);
+    updateConversation(key, () => [
+      {
+        id: createId(),
+        role: "system",
+        text: "已开始新会话，发送第一条消息后会在网关上创建。",
+        createdAt: nowIso(),
+      },
+    ]);
+    setSessionKey(key);
+    sessionKeyRef.current = key;
+    imageErrorRecoveredSessionRef.current = null;
+    setLastPrompt("");
+    setScreenText("");
+    setLastError(null);
+    setLoadedHistoryKey(key);
+    return key;
+  }, [updateConversation]);
+
+  /** Forgets what this client holds for `key` apart from its bubbles: paging cursor, cached copy, fork preamble. */
+  const dropLocalSessionState = useCallback(
+    (key: string) => {
+      historyCursorsRef.current.delete(key);
+      syncHistoryPaging();
+      forkSeedsRef.current.delete(key);
+      cachedTranscriptsRef.current.delete(key);
+      setCachedSessionKeys((current) => (current.includes(key) ? current.filter((item) => item !== key) : current));
+      if (cacheGatewayRef.current) {
+        void deleteCachedTranscript(cacheGatewayRef.current, key);
+      }
+    },
+    [syncHistoryPaging],
+  );
+
+  /** Sets or clears (empty `label`) the session's label on the gateway. */
+  const labelSession = useCallback(
+    async (key: string, label: string): Promise<boolean> => {
+      const client = clientRef.current;
+      if (!client || status !== "connected") {
+        return false;
+      }
+      if (!gatewaySupportsMethod(capabilitiesRef.current, "sessions.patch")) {
+        setLastError("当前 Gateway 不支持重命名会话（缺少 sessions.patch）。");
+        return false;
+      }
+      const nextLabel = label.trim();
+      try {
+        await client.request("sessions.patch", { key, label: nextLabel || null }, { timeoutMs: 6000 });
+        setSessionList((current) =>
+          current
+            ? {
+                ...current,
+                sessions: current.sessions.map((session) =>
+                  session.key === key ? { ...session, label: nextLabel || undefined } : session,
+                ),
+              }
+            : current,
+        );
+        return true;
+      } catch (error) {
+        const messageText = error instanceof Error ? error.message : String(error);
+        setLastError(`重命名会话失败: ${messageText}`);
+        return false;
+      }
+    },
+    [status],
+  );
+
+  /** Clears the session's transcript on the gateway; the key stays and starts over. */
+  const resetSession = useCallback(
+    async (key: string): Promise<boolean> => {
+      const client = clientRef.current;
+      if (!client || status !== "connected") {
+        return false;
+      }
+      if (!gatewaySupportsMethod(capabilitiesRef.current, "sessions.reset")) {
+        setLastError("当前 Gateway 不支持重置会话（缺少 sessions.reset）。");
+        return false;
+      }
+      if (runsRef.current.has(key)) {
+        setLastError("该会话有进行中的请求，请等待回复完成或先停止。");
+        return false;
+      }
+      try {
+        await client.request("sessions.reset", { key }, { timeoutMs: 6000 });
+      } catch (error) {
+        const messageText = error instanceof Error ? error.message : String(error);
+        setLastError(`重置会话失败: ${messageText}`);
+        return false;
+      }
+      dropLocalSessionState(key);
+      updateConversation(key, () => [
+        {
+          id: createId(),
+          role: "system",
+          text: "会话已重置，之前的对话已清空。",
+          createdAt: nowIso(),
+        },
+      ]);
+      if (key === sessionKeyRef.current) {
         setScreenText("");
-        setChatMessages([
+        setLastPrompt("");
+      }
+      void refreshSessions();
+      return true;
+    },
+    [dropLocalSessionState, refreshSessions, status, updateConversation],
+  );
+
+  /**
+   * Deletes the session and its transcript on the gateway. If it was on screen the room moves to
+   * `fallbackKey` (the agent's main session by default); a fallback equal to `key` keeps the room
+   * on that key, which the next prompt creates afresh.
+   */
+  const deleteSession = useCallback(
+    async (key: string, fallbackKey?: string): Promise<boolean> => {
+      const client = clientRef.current;
+      if (!client || status !== "connected") {
+        return false;
+      }
+      if (!gatewaySupportsMethod(capabilitiesRef.current, "sessions.delete")) {
+        setLastError("当前 Gateway 不支持删除会话（缺少 sessions.delete）。");
+        return false;
+      }
+      if (isMainSessionKey(key) || key === mainSessionKeyRef.current) {
+        setLastError("主会话不能删除，可以改用重置。");
+        return false;
+      }
+      if (runsRef.current.has(key)) {
+        setLastError("该会话有进行中的请求，请等待回复完成或先停止。");
+        return false;
+      }
+      try {
+        await client.request("sessions.delete", { key, deleteTranscript: true }, { timeoutMs: 6000 });
+      } catch (error) {
+        const messageText = error instanceof Error ? error.message : String(error);
+        setLastError(`删除会话失败: ${messageText}`);
+        return false;
+      }
+      dropLocalSessionState(key);
+      // Together with the cache entry, or the debounced cache write would bring the transcript back.
+      setConversations((current) => {
+        if (!(key in current)) {
+          return current;
+        }
+        const next = { ...current };
+        delete next[key];
+        return next;
+      });
+      setOutboundQueue((current) =>
+        current.some((item) => item.sessionKey === key) ? current.filter((item) => item.sessionKey !== key) : current,
+      );
+      setSessionList((current) =>
+        current ? { ...current, sessions: current.sessions.filter((session) => session.key !== key) } : current,
+      );
+      if (key === sessionKeyRef.current && fallbackKey === key) {
+        updateConversation(key, () => [
           {
             id: createId(),
             role: "system",
-            text: `已切换到 Agent: ${nextAgentId}`,
+            text: "会话已删除，发送下一条消息会以同一会话键重新创建。",
             createdAt: nowIso(),
           },
         ]);
-        await loadConversationForSession(client, nextSessionKey);
+        setScreenText("");
+        setLastPrompt("");
         return true;
-      } catch (error) {
-        const messageText = error instanceof Error ? error.message : String(error);
-        setLastError(`切换 Agent 失败: ${messageText}`);
-        return false;
-      } finally {
-        setAgentSwitching(false);
       }
+      if (key === sessionKeyRef.current) {
+        const agentId = parseSessionAgentId(key) ?? activeAgentIdRef.current ?? "main";
+        await enterSession(client, fallbackKey ?? `agent:${agentId}:main`, `会话 ${key} 已删除。`);
+      }
+      return true;
     },
-    [loadConversationForSession, status, stopHistoryFallback],
+    [dropLocalSessionState, enterSession, status, updateConversation],
   );
 
+  const removeQueuedPrompt = useCallback((id: string) => {
+    setOutboundQueue((current) => current.filter((item) => item.id !== id));
+  }, []);
+
+  useEffect(() => {
+    if (status !== "connected" || isStreaming || agentSwitching || loadedHistoryKey !== sessionKey) {
+      return;
+    }
+    if (flushingQueueRef.current) {
+      return;
+    }
+    // Queued offline under the room's key, which may spell the main session differently.
+    const next = outboundQueue.find((item) => isSameSessionKey(item.sessionKey, sessionKey));
+    if (!next) {
+      return;
+    }
+    flushingQueueRef.current = true;
+    void sendPrompt(next.prompt, next.attachments, next).finally(() => {
+      flushingQueueRef.current = false;
+    });
+  }, [agentSwitching, isStreaming, loadedHistoryKey, outboundQueue, sendPrompt, sessionKey, status]);
+
+  const visibleMessages = useMemo(() => {
+    const pending = outboundQueue.filter((item) => isSameSessionKey(item.sessionKey, sessionKey));
+    if (pending.length === 0) {
+      return chatMessages;
+    }
+    return [
+      ...chatMessages,
+      ...pending.map<ChatMessage>((item) => ({
+        id: item.id,
+        role: "user",
+        text: item.prompt || item.attachments.map((attachment) => `[附件] ${attachment.fileName}`).join("\n"),
+        createdAt: item.createdAt,
+        pending: true,
+        images: item.attachments.flatMap((attachment) =>
+          attachment.imageDataUrl
+            ? [
+                {
+                  id: `${item.id}-${attachment.relativePath}`,
+                  dataUrl: attachment.imageDataUrl,
+                  mimeType: attachment.mimeType,
+                  fileName: attachment.fileName,
+                },
+              ]
+            : [],
+        ),
+      })),
+    ];
+  }, [chatMessages, outboundQueue, sessionKey]);
+
   return {
     gatewayUrl,
     setGatewayUrl,
     token,
     setToken,
+    profileId,
+    setProfileId,
+    grantedAccess,
+    pairingRequest,
     status,
+    reconnectAttempt,
+    liveness,
+    inflightRequests,
+    frameRecorder,
+    eventBus,
+    presence,
+    gatewayHealth,
+    agentRuns,
+    capabilities,
     lastError,
     screenText,
     sessionKey,
     lastPrompt,
     isStreaming,
+    isAborting,
+    historyPaging,
+    transcriptFromCache,
+    imageAttachmentLimits,
+    runningSessionKeys,
     agents,
     agentModels,
     activeAgentId,
     agentsLoading,
     agentSwitching,
-    chatMessages,
+    chatMessages: visibleMessages,
+    outboundQueue,
+    removeQueuedPrompt,
     connect,
     disconnect,
     cancelPending,
+    abortRun,
+    regenerateReply,
+    resendEditedPrompt,
+    forkSession,
+    loadOlderHistory,
+    jumpToDate,
     sendPrompt,
     switchAgent,
+    openCachedSession,
+    sessionList,
+    sessionsLoading,
+    refreshSessions,
+    startNewSession,
+    labelSession,
+    resetSession,
+    deleteSession,
   };
 }
@@ -0,0 +1,125 @@
+/**
+ * Non-image attachments reach the agent either as a path it has to open itself ("reference"), or
+ * with their text, as returned by the upload API, written into the message ("inline").
+ */
+export type AttachmentDelivery = "reference" | "inline";
+
+/** A file saved by the upload API, as attached to an outgoing prompt. */
+export type OutboundAttachment = {
+  fileName: string;
+  mimeType: string;
+  size: number;
+  absolutePath: string;
+  relativePath: string;
+  imageDataUrl?: string;
+  /** Text the upload API read or extracted from the file; absent for binaries it cannot read. */
+  textKind?: "text" | "pdf" | "docx" | "xlsx" | "pptx";
+  textContent?: string;
+  textTruncated?: boolean;
+  textError?: string;
+  delivery?: AttachmentDelivery;
+};
+
+/** Longer texts are cut, and files past the total budget fall back to their path. */
+export const INLINE_ATTACHMENT_MAX_CHARS = 20000;
+export const INLINE_TOTAL_MAX_CHARS = 60000;
+
+const FENCE_LANGUAGES: Record<string, string> = {
+  js: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  jsx: "jsx",
+  ts: "typescript",
+  tsx: "tsx",
+  py: "python",
+  rb: "ruby",
+  rs: "rust",
+  kt: "kotlin",
+  sh: "bash",
+  zsh: "bash",
+  yml: "yaml",
+  md: "markdown",
+  htm: "html",
+  jsonl: "json",
+  ndjson: "json",
+};
+
+const TEXT_KIND_LABELS: Record<NonNullable<OutboundAttachment["textKind"]>, string> = {
+  text: "文本",
+  pdf: "PDF 提取文本",
+  docx: "Word 提取文本",
+  xlsx: "Excel 提取文本",
+  pptx: "PPT 提取文本",
+};
+
+export function canInlineAttachment(attachment: OutboundAttachment): boolean {
+  return !attachment.imageDataUrl && typeof attachment.textContent === "string" && attachment.textContent.length > 0;
+}
+
+/** Small text files go inline by default; long ones and documents without text stay references. */
+export function defaultAttachmentDelivery(attachment: OutboundAttachment): AttachmentDelivery {
+  return canInlineAttachment(attachment) && (attachment.textContent?.length ?? 0) <= INLINE_ATTACHMENT_MAX_CHARS
+    ? "inline"
+    : "reference";
+}
+
+export function isInlineAttachment(attachment: OutboundAttachment): boolean {
+  return attachment.delivery === "inline" && canInlineAttachment(attachment);
+}
+
+export function describeTextKind(attachment: OutboundAttachment): string {
+  return attachment.textKind ? TEXT_KIND_LABELS[attachment.textKind] : "文本";
+}
+
+function fenceLanguage(attachment: OutboundAttachment): string {
+  if (attachment.textKind && attachment.textKind !== "text") {
+    return "text";
+  }
+  const extension = attachment.fileName.split(".").pop()?.toLowerCase() ?? "";
+  if (!extension || extension === attachment.fileName.toLowerCase()) {
+    return "text";
+  }
+  return FENCE_LANGUAGES[extension] ?? extension;
+}
+
+/** A fence longer than any backtick run inside the content, so the block cannot close early. */
+function fenceFor(content: string): string {
+  const longestRun = Math.max(0, ...Array.from(content.matchAll(/`+/g), (match) => match[0].length));
+  return "`".repeat(Math.max(3, longestRun + 1));
+}
+
+/**
+ * Builds the "附件内容" section for the inline attachments, in order, within the per-file and
+ * total caps. Empty when nothing is inlined.
+ */
+export function buildInlineAttachmentSection(attachments: OutboundAttachment[]): string {
+  let budget = INLINE_TOTAL_MAX_CHARS;
+  const blocks: string[] = [];
+  for (const attachment of attachments) {
+    if (!isInlineAttachment(attachment)) {
+      continue;
+    }
+    const content = attachment.textContent ?? "";
+    const allowed = Math.min(INLINE_ATTACHMENT_MAX_CHARS, budget);
+    if (allowed <= 0) {
+      blocks.push(`#### ${attachment.fileName}\n（超出内联总长度上限，请按上方路径读取）`);
+      continue;
+    }
+    const included = content.slice(0, allowed);
+    budget -= included.length;
+    const cut = included.length < content.length || attachment.textTruncated;
+    const fence = fenceFor(included);
+    blocks.push(
+      [
+        `#### ${attachment.fileName}（${describeTextKind(attachment)}）`,
+        `${fence}${fenceLanguage(attachment)}`,
+        included,
+        fence,
+        cut ? `（内容过长，只包含前 ${included.length} 字；完整文件见上方路径）` : "",
+      ]
+        .filter(Boolean)
+        .join("\n"),
+    );
+  }
+  return blocks.length > 0 ? `附件内容:\n\n${blocks.join("\n\n")}` : "";
+}
@@ -0,0 +1,336 @@
+import type { AgentEventPayload } from "./gatewayProtocol";
+import type { ReplyResolution } from "./replyReconciler";
+
+type JsonRecord = Record<string, unknown>;
+
+export type ChatTextPart = {
+  type: "text";
+  text: string;
+};
+
+export type ChatThinkingPart = {
+  type: "thinking";
+  text: string;
+  /** The provider returned the reasoning encrypted; only its presence is known. */
+  redacted?: boolean;
+};
+
+export type ChatToolCallPart = {
+  type: "toolCall";
+  id: string;
+  name: string;
+  args?: unknown;
+  status: "running" | "done" | "error" | "stopped";
+  result?: unknown;
+  startedAt?: number;
+  durationMs?: number;
+};
+
+export type ChatContentPart = ChatTextPart | ChatThinkingPart | ChatToolCallPart;
+
+export type ChatMessage = {
+  id: string;
+  role: "user" | "assistant" | "system";
+  text: string;
+  createdAt: string;
+  streaming?: boolean;
+  /** Queued while offline; sent automatically after reconnecting. */
+  pending?: boolean;
+  images?: ChatImageItem[];
+  /** Set when the reply has tool calls or thinking; `text` still holds its prose for previews. */
+  parts?: ChatContentPart[];
+  /** Copied from the source session when this one was forked. */
+  seeded?: boolean;
+  /** Set on a reply bubble once it settles: which path delivered its final content. */
+  resolvedVia?: ReplyResolution;
+};
+
+export type ChatImageItem = {
+  id: string;
+  dataUrl: string;
+  mimeType: string;
+  fileName?: string;
+};
+
+/** A tool's output, whichever transcript shape carried it. */
+export type ToolResultEntry = {
+  toolCallId: string;
+  result: unknown;
+  isError: boolean;
+  at?: number;
+};
+
+const THINKING_TYPES = new Set(["thinking", "redacted_thinking", "reasoning"]);
+const TOOL_CALL_TYPES = new Set(["toolCall", "tool_call", "tool_use", "toolUse", "function_call"]);
+const TOOL_RESULT_TYPES = new Set(["toolResult", "tool_result", "function_call_output"]);
+const TOOL_RESULT_ROLES = new Set(["toolResult", "tool", "tool_result"]);
+
+function isRecord(value: unknown): value is JsonRecord {
+  return typeof value === "object" && value !== null;
+}
+
+function pickString(...values: unknown[]): string {
+  for (const value of values) {
+    if (typeof value === "string" && value.trim()) {
+      return value.trim();
+    }
+  }
+  return "";
+}
+
+/** True for content blocks that are not prose, so plain-text extraction can skip them. */
+export function isStructuredBlock(value: unknown): boolean {
+  if (!isRecord(value) || typeof value.type !== "string") {
+    return false;
+  }
+  return THINKING_TYPES.has(value.type) || TOOL_CALL_TYPES.has(value.type) || TOOL_RESULT_TYPES.has(value.type);
+}
+
+/** OpenAI-style function calls carry their arguments as a JSON string. */
+function parseToolArgs(value: unknown): unknown {
+  if (typeof value !== "string") {
+    return value;
+  }
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    return value;
+  }
+}
+
+/** Unwraps `[{ type: "text", text }]` tool output into a string; anything else is kept as is. */
+function simplifyToolResult(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (Array.isArray(value) && value.length > 0 && value.every((entry) => isRecord(entry) && typeof entry.text === "string")) {
+    return value.map((entry) => (entry as { text: string }).text).join("\n");
+  }
+  return value;
+}
+
+function parseThinkingBlock(block: JsonRecord): ChatThinkingPart {
+  if (block.type === "redacted_thinking") {
+    return { type: "thinking", text: "", redacted: true };
+  }
+  if (block.type === "reasoning" && Array.isArray(block.summary)) {
+    const summary = block.summary
+      .map((entry) => (isRecord(entry) && typeof entry.text === "string" ? entry.text : ""))
+      .filter(Boolean)
+      .join("\n\n");
+    return { type: "thinking", text: summary };
+  }
+  return { type: "thinking", text: pickString(block.thinking, block.text, block.reasoning) };
+}
+
+function parseToolCallBlock(block: JsonRecord, at: number | undefined): ChatToolCallPart {
+  return {
+    type: "toolCall",
+    id: pickString(block.id, block.call_id, block.toolCallId),
+    name: pickString(block.name, block.toolName) || "tool",
+    args: parseToolArgs(block.arguments ?? block.input ?? block.args),
+    status: "running",
+    startedAt: at,
+  };
+}
+
+function parseToolResultBlock(block: JsonRecord, at: number | undefined): ToolResultEntry {
+  return {
+    toolCallId: pickString(block.tool_use_id, block.toolCallId, block.call_id, block.id),
+    result: simplifyToolResult(block.content ?? block.output ?? block.result),
+    isError: block.is_error === true || block.isError === true,
+    at,
+  };
+}
+
+/**
+ * Splits a transcript message's content into typed parts, in order. Tool results that a
+ * provider inlines next to their call are folded into it. `at` is the message time in ms.
+ */
+export function extractContentParts(content: unknown, at?: number): ChatContentPart[] {
+  if (typeof content === "string") {
+    return content.trim() ? [{ type: "text", text: content }] : [];
+  }
+  if (isRecord(content) && !Array.isArray(content)) {
+    return content.content !== undefined ? extractContentParts(content.content, at) : [];
+  }
+  if (!Array.isArray(content)) {
+    return [];
+  }
+
+  let parts: ChatContentPart[] = [];
+  for (const block of content) {
+    if (typeof block === "string") {
+      if (block.trim()) {
+        parts.push({ type: "text", text: block });
+      }
+      continue;
+    }
+    if (!isRecord(block)) {
+      continue;
+    }
+    const type = typeof block.type === "string" ? block.type : "";
+    if (THINKING_TYPES.has(type)) {
+      parts.push(parseThinkingBlock(block));
+    } else if (TOOL_CALL_TYPES.has(type)) {
+      parts.push(parseToolCallBlock(block, at));
+    } else if (TOOL_RESULT_TYPES.has(type)) {
+      parts = attachToolResults(parts, [parseToolResultBlock(block, at)]);
+    } else if (typeof block.text === "string" && block.text.trim()) {
+      parts.push({ type: "text", text: block.text });
+    }
+  }
+  return parts;
+}
+
+/**
+ * Tool results carried by a whole transcript entry: a `toolResult`/`tool` role message, or a
+ * user message made only of `tool_result` blocks (Anthropic). Empty for anything else.
+ */
+export function extractToolResults(item: JsonRecord, at?: number): ToolResultEntry[] {
+  const role = typeof item.role === "string" ? item.role : "";
+  if (TOOL_RESULT_ROLES.has(role)) {
+    const toolCallId = pickString(item.toolCallId, item.tool_call_id, item.toolUseId);
+    if (!toolCallId) {
+      return [];
+    }
+    return [
+      {
+        toolCallId,
+        result: simplifyToolResult(item.content ?? item.result),
+        isError: item.isError === true || item.is_error === true,
+        at,
+      },
+    ];
+  }
+  if (role === "user" && Array.isArray(item.content) && item.content.length > 0) {
+    const blocks = item.content;
+    if (blocks.every((block) => isRecord(block) && typeof block.type === "string" && TOOL_RESULT_TYPES.has(block.type))) {
+      return blocks.map((block) => parseToolResultBlock(block as JsonRecord, at));
+    }
+  }
+  return [];
+}
+
+export function attachToolResults(parts: ChatContentPart[], results: ToolResultEntry[]): ChatContentPart[] {
+  if (results.length === 0) {
+    return parts;
+  }
+  return parts.map((part) => {
+    if (part.type !== "toolCall") {
+      return part;
+    }
+    const match = results.find((entry) => entry.toolCallId === part.id);
+    if (!match) {
+      return part;
+    }
+    return {
+      ...part,
+      status: match.isError ? "error" : "done",
+      result: match.result,
+      durationMs:
+        part.startedAt !== undefined && match.at !== undefined ? Math.max(0, match.at - part.startedAt) : part.durationMs,
+    };
+  });
+}
+
+/** Whether the parts hold anything beyond plain text, i.e. need the structured renderer. */
+export function hasStructuredParts(parts: ChatContentPart[] | undefined): parts is ChatContentPart[] {
+  return Array.isArray(parts) && parts.some((part) => part.type !== "text");
+}
+
+/**
+ * Folds a streamed agent `tool` or `thinking` event into a run's live parts. Returns the same
+ * array when the event changes nothing.
+ */
+export function applyAgentEventToParts(parts: ChatContentPart[], payload: AgentEventPayload, receivedAt: number): ChatContentPart[] {
+  const at = payload.ts ?? receivedAt;
+  const data = payload.data;
+
+  if (payload.stream === "thinking") {
+    const delta = typeof data.delta === "string" ? data.delta : "";
+    const full = typeof data.text === "string" ? data.text : "";
+    if (!delta && !full) {
+      return parts;
+    }
+    const last = parts.at(-1);
+    if (last?.type === "thinking") {
+      return [...parts.slice(0, -1), { ...last, text: full || `${last.text}${delta}` }];
+    }
+    return [...parts, { type: "thinking", text: full || delta }];
+  }
+
+  if (payload.stream !== "tool") {
+    return parts;
+  }
+  const phase = typeof data.phase === "string" ? data.phase : "";
+  const toolCallId = pickString(data.toolCallId, data.id);
+  const existing = parts.findIndex((part) => part.type === "toolCall" && part.id === toolCallId);
+
+  if (phase === "start") {
+    if (existing >= 0) {
+      return parts;
+    }
+    return [
+      ...parts,
+      {
+        type: "toolCall",
+        id: toolCallId,
+        name: pickString(data.name) || "tool",
+        args: parseToolArgs(data.args),
+        status: "running",
+        startedAt: at,
+      },
+    ];
+  }
+  if (phase === "result" || phase === "end") {
+    const result: ToolResultEntry = {
+      toolCallId,
+      result: simplifyToolResult(data.result),
+      isError: data.isError === true,
+      at,
+    };
+    if (existing < 0) {
+      // Joined mid-run: the start event was missed, show the result anyway.
+      return [
+        ...parts,
+        {
+          type: "toolCall",
+          id: toolCallId,
+          name: pickString(data.name) || "tool",
+          status: result.isError ? "error" : "done",
+          result: result.result,
+        },
+      ];
+    }
+    return attachToolResults(parts, [result]);
+  }
+  return parts;
+}
+
+/**
+ * Lines the final transcript message up with what streamed: structured blocks from the final
+ * message win, but keep the results and timings only the live tool events carried.
+ */
+export function mergeFinalParts(finalParts: ChatContentPart[], liveParts: ChatContentPart[]): ChatContentPart[] {
+  if (!hasStructuredParts(finalParts)) {
+    return liveParts;
+  }
+  return finalParts.map((part) => {
+    if (part.type !== "toolCall") {
+      return part;
+    }
+    const live = liveParts.find((candidate) => candidate.type === "toolCall" && candidate.id === part.id);
+    return live && live.type === "toolCall" && part.status === "running"
+      ? { ...part, status: live.status, result: live.result, startedAt: live.startedAt, durationMs: live.durationMs }
+      : part;
+  });
+}
+
+/** Tools still marked running when their run ends were cut off. */
+export function stopRunningTools(parts: ChatContentPart[]): ChatContentPart[] {
+  if (!parts.some((part) => part.type === "toolCall" && part.status === "running")) {
+    return parts;
+  }
+  return parts.map((part) => (part.type === "toolCall" && part.status === "running" ? { ...part, status: "stopped" } : part));
+}
@@ -0,0 +1,65 @@
+export type GatewayConnectionProfileId = "chat" | "admin";
+
+export type GatewayConnectionProfile = {
+  id: GatewayConnectionProfileId;
+  label: string;
+  description: string;
+  role: string;
+  scopes: string[];
+};
+
+export const ADMIN_SCOPE = "operator.admin";
+
+const PROFILE_STORE_KEY = "openclaw.gateway.profile.v1";
+
+export const GATEWAY_CONNECTION_PROFILES: GatewayConnectionProfile[] = [
+  {
+    id: "chat",
+    label: "仅聊天",
+    description: "读取会话并发送消息，不含管理权限。",
+    role: "operator",
+    scopes: ["operator.read", "operator.write"],
+  },
+  {
+    id: "admin",
+    label: "管理员",
+    description: "完整管理权限，可使用配置工作台。",
+    role: "operator",
+    scopes: [ADMIN_SCOPE],
+  },
+];
+
+export const DEFAULT_CONNECTION_PROFILE_ID: GatewayConnectionProfileId = "chat";
+
+export function getConnectionProfile(id: GatewayConnectionProfileId): GatewayConnectionProfile {
+  return (
+    GATEWAY_CONNECTION_PROFILES.find((profile) => profile.id === id) ??
+    GATEWAY_CONNECTION_PROFILES.find((profile) => profile.id === DEFAULT_CONNECTION_PROFILE_ID) ??
+    GATEWAY_CONNECTION_PROFILES[0]
+  );
+}
+
+function isProfileId(value: unknown): value is GatewayConnectionProfileId {
+  return GATEWAY_CONNECTION_PROFILES.some((profile) => profile.id === value);
+}
+
+export function loadStoredConnectionProfileId(): GatewayConnectionProfileId {
+  try {
+    const stored = localStorage.getItem(PROFILE_STORE_KEY);
+    return isProfileId(stored) ? stored : DEFAULT_CONNECTION_PROFILE_ID;
+  } catch {
+    return DEFAULT_CONNECTION_PROFILE_ID;
+  }
+}
+
+export function saveConnectionProfileId(id: GatewayConnectionProfileId): void {
+  try {
+    localStorage.setItem(PROFILE_STORE_KEY, id);
+  } catch {
+    // Storage may be unavailable (private mode); the choice then lasts for this page only.
+  }
+}
+
+export function hasAdminScope(scopes: readonly string[]): boolean {
+  return scopes.includes(ADMIN_SCOPE);
+}
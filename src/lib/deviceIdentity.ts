@@ -0,0 +1,364 @@
+import { type GatewayStorage, getDefaultGatewayStorage } from "./gatewayEnvironment";
+
+type JsonRecord = Record<string, unknown>;
+
+const DEVICE_STORE_KEY = "openclaw.gateway.device.v1";
+const EXPORT_FORMAT = "openclaw-device-key";
+const EXPORT_VERSION = 1;
+const EXPORT_PBKDF2_ITERATIONS = 310000;
+/** Accepted on import: weaker backups are refused, and huge counts would freeze the tab. */
+const IMPORT_PBKDF2_MIN_ITERATIONS = 100000;
+const IMPORT_PBKDF2_MAX_ITERATIONS = EXPORT_PBKDF2_ITERATIONS * 10;
+
+function isRecord(value: unknown): value is JsonRecord {
+  return typeof value === "object" && value !== null;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (let index = 0; index < bytes.length; index += 1) {
+    binary += String.fromCharCode(bytes[index]);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/g, "");
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const normalized = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = normalized + "=".repeat((4 - (normalized.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export function supportsEd25519(): boolean {
+  return typeof crypto !== "undefined" && typeof crypto.subtle !== "undefined";
+}
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const normalized = new Uint8Array(bytes.length);
+  normalized.set(bytes);
+  const digest = await crypto.subtle.digest("SHA-256", normalized);
+  return bytesToHex(new Uint8Array(digest));
+}
+
+type StoredDeviceIdentity = {
+  deviceId: string;
+  publicKey: string;
+  privateKeyJwk: JsonWebKey;
+  createdAt?: number;
+};
+
+export type DeviceIdentity = {
+  deviceId: string;
+  publicKey: string;
+  privateKey: CryptoKey;
+  createdAt: number | null;
+};
+
+/** Display-safe view of the identity; never carries the private key. */
+export type DeviceIdentitySummary = {
+  deviceId: string;
+  publicKey: string;
+  fingerprint: string;
+  createdAt: number | null;
+};
+
+type DeviceKeyExport = {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  deviceId: string;
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+  cipher: { name: "AES-GCM"; iv: string };
+  data: string;
+};
+
+// One in-flight load per store, so the settings panel and the gateway client never race
+// each other into generating two different keys.
+const identityPromises = new WeakMap<GatewayStorage, Promise<DeviceIdentity | null>>();
+
+async function importStoredPrivateKey(jwk: JsonWebKey): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "jwk",
+    jwk,
+    { name: "Ed25519" },
+    false,
+    ["sign"],
+  );
+}
+
+function isStoredDeviceIdentity(value: unknown): value is StoredDeviceIdentity {
+  return (
+    isRecord(value) &&
+    typeof value.deviceId === "string" &&
+    typeof value.publicKey === "string" &&
+    isRecord(value.privateKeyJwk)
+  );
+}
+
+async function restoreDeviceIdentity(stored: StoredDeviceIdentity): Promise<DeviceIdentity> {
+  const privateKey = await importStoredPrivateKey(stored.privateKeyJwk);
+  return {
+    deviceId: stored.deviceId,
+    publicKey: toBase64Url(fromBase64Url(stored.publicKey)),
+    privateKey,
+    createdAt: typeof stored.createdAt === "number" ? stored.createdAt : null,
+  };
+}
+
+async function createAndPersistDeviceIdentity(storage: GatewayStorage): Promise<DeviceIdentity | null> {
+  if (!supportsEd25519()) {
+    return null;
+  }
+
+  try {
+    const keyPair = await crypto.subtle.generateKey(
+      { name: "Ed25519" },
+      true,
+      ["sign", "verify"],
+    );
+    const publicRaw = new Uint8Array(await crypto.subtle.exportKey("raw", keyPair.publicKey));
+    const privateKeyJwk = await crypto.subtle.exportKey("jwk", keyPair.privateKey);
+    const publicKey = toBase64Url(publicRaw);
+    const deviceId = await sha256Hex(publicRaw);
+    const createdAt = Date.now();
+
+    const stored: StoredDeviceIdentity = {
+      deviceId,
+      publicKey,
+      privateKeyJwk,
+      createdAt,
+    };
+    storage.setItem(DEVICE_STORE_KEY, JSON.stringify(stored));
+
+    return {
+      deviceId,
+      publicKey,
+      privateKey: keyPair.privateKey,
+      createdAt,
+    };
+  } catch {
+    return null;
+  }
+}
+
+async function readOrCreateDeviceIdentity(storage: GatewayStorage): Promise<DeviceIdentity | null> {
+  if (!supportsEd25519()) {
+    return null;
+  }
+
+  try {
+    const raw = storage.getItem(DEVICE_STORE_KEY);
+    if (!raw) {
+      return createAndPersistDeviceIdentity(storage);
+    }
+
+    const stored: unknown = JSON.parse(raw);
+    if (!isStoredDeviceIdentity(stored)) {
+      return createAndPersistDeviceIdentity(storage);
+    }
+    return await restoreDeviceIdentity(stored);
+  } catch {
+    return createAndPersistDeviceIdentity(storage);
+  }
+}
+
+/** Resolves to null when the host cannot generate Ed25519 keys; connect then proceeds without device auth. */
+export function loadOrCreateDeviceIdentity(
+  storage: GatewayStorage = getDefaultGatewayStorage(),
+): Promise<DeviceIdentity | null> {
+  let promise = identityPromises.get(storage);
+  if (!promise) {
+    promise = readOrCreateDeviceIdentity(storage);
+    identityPromises.set(storage, promise);
+  }
+  return promise;
+}
+
+/**
+ * Replaces the stored key with a fresh one. The gateway sees a new device and may require pairing
+ * again. Rejects when no key could be generated or stored; the previous key then stays in use.
+ */
+export async function rotateDeviceIdentity(
+  storage: GatewayStorage = getDefaultGatewayStorage(),
+): Promise<DeviceIdentity> {
+  const next = await createAndPersistDeviceIdentity(storage);
+  if (!next) {
+    throw new Error("无法生成新的设备密钥，继续使用原密钥");
+  }
+  identityPromises.set(storage, Promise.resolve(next));
+  return next;
+}
+
+/** Groups the leading 32 hex digits of the device ID, enough to compare by eye with the gateway's device list. */
+export function formatDeviceFingerprint(deviceId: string): string {
+  return (deviceId.slice(0, 32).match(/.{1,4}/g) ?? []).join(" ").toUpperCase();
+}
+
+export function summarizeDeviceIdentity(identity: DeviceIdentity): DeviceIdentitySummary {
+  return {
+    deviceId: identity.deviceId,
+    publicKey: identity.publicKey,
+    fingerprint: formatDeviceFingerprint(identity.deviceId),
+    createdAt: identity.createdAt,
+  };
+}
+
+async function derivePassphraseKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+/** Serializes the stored key encrypted with a passphrase (PBKDF2 + AES-GCM) for backup. */
+export async function exportDeviceIdentity(
+  passphrase: string,
+  storage: GatewayStorage = getDefaultGatewayStorage(),
+): Promise<string> {
+  if (!passphrase) {
+    throw new Error("请输入导出口令");
+  }
+  const raw = storage.getItem(DEVICE_STORE_KEY);
+  const stored: unknown = raw ? JSON.parse(raw) : null;
+  if (!isStoredDeviceIdentity(stored)) {
+    throw new Error("本机尚未生成设备密钥");
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await derivePassphraseKey(passphrase, salt, EXPORT_PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(stored)),
+  );
+
+  const bundle: DeviceKeyExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    deviceId: stored.deviceId,
+    kdf: { name: "PBKDF2", hash: "SHA-256", iterations: EXPORT_PBKDF2_ITERATIONS, salt: toBase64Url(salt) },
+    cipher: { name: "AES-GCM", iv: toBase64Url(iv) },
+    data: toBase64Url(new Uint8Array(ciphertext)),
+  };
+  return JSON.stringify(bundle, null, 2);
+}
+
+function parseDeviceKeyExport(text: string): DeviceKeyExport {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("文件不是有效的设备密钥备份");
+  }
+  if (
+    !isRecord(parsed) ||
+    parsed.format !== EXPORT_FORMAT ||
+    !isRecord(parsed.kdf) ||
+    !isRecord(parsed.cipher) ||
+    typeof parsed.kdf.salt !== "string" ||
+    typeof parsed.kdf.iterations !== "number" ||
+    typeof parsed.cipher.iv !== "string" ||
+    typeof parsed.data !== "string"
+  ) {
+    throw new Error("文件不是有效的设备密钥备份");
+  }
+  if (parsed.version !== EXPORT_VERSION) {
+    throw new Error(`不支持的备份版本: ${String(parsed.version)}`);
+  }
+  const iterations = parsed.kdf.iterations;
+  if (!Number.isInteger(iterations) || iterations < IMPORT_PBKDF2_MIN_ITERATIONS || iterations > IMPORT_PBKDF2_MAX_ITERATIONS) {
+    throw new Error(`备份的密钥派生参数无效（迭代次数 ${String(iterations)}）`);
+  }
+  return parsed as DeviceKeyExport;
+}
+
+/** Decrypts a backup produced by exportDeviceIdentity and makes it the active device key. */
+export async function importDeviceIdentity(
+  text: string,
+  passphrase: string,
+  storage: GatewayStorage = getDefaultGatewayStorage(),
+): Promise<DeviceIdentity> {
+  if (!supportsEd25519()) {
+    throw new Error("当前浏览器不支持 Ed25519，无法导入设备密钥");
+  }
+  const bundle = parseDeviceKeyExport(text);
+  const key = await derivePassphraseKey(passphrase, fromBase64Url(bundle.kdf.salt), bundle.kdf.iterations);
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64Url(bundle.cipher.iv) },
+      key,
+      fromBase64Url(bundle.data),
+    );
+  } catch {
+    throw new Error("口令错误或备份文件已损坏");
+  }
+
+  const stored: unknown = JSON.parse(new TextDecoder().decode(plaintext));
+  if (!isStoredDeviceIdentity(stored)) {
+    throw new Error("备份内容缺少设备密钥");
+  }
+  // The device ID is derived from the public key; a mismatch means the backup was tampered with.
+  if ((await sha256Hex(fromBase64Url(stored.publicKey))) !== stored.deviceId) {
+    throw new Error("备份中的设备 ID 与公钥不匹配");
+  }
+
+  const identity = await restoreDeviceIdentity(stored);
+  storage.setItem(DEVICE_STORE_KEY, JSON.stringify(stored));
+  identityPromises.set(storage, Promise.resolve(identity));
+  return identity;
+}
+
+export function buildDeviceAuthPayload(params: {
+  deviceId: string;
+  clientId: string;
+  clientMode: string;
+  role: string;
+  scopes: string[];
+  signedAtMs: number;
+  token: string | null;
+  nonce?: string;
+}): string {
+  const version = params.nonce ? "v2" : "v1";
+  const payload = [
+    version,
+    params.deviceId,
+    params.clientId,
+    params.clientMode,
+    params.role,
+    params.scopes.join(","),
+    String(params.signedAtMs),
+    params.token ?? "",
+  ];
+
+  if (version === "v2") {
+    payload.push(params.nonce ?? "");
+  }
+
+  return payload.join("|");
+}
+
+export async function signDevicePayload(privateKey: CryptoKey, payload: string): Promise<string> {
+  const data = new TextEncoder().encode(payload);
+  const signature = await crypto.subtle.sign("Ed25519", privateKey, data);
+  return toBase64Url(new Uint8Array(signature));
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import { exportFrameCapture, FrameRecorder, filterFrames, redactFrame } from "./frameRecorder";
+import type { GatewayFrameTrace } from "./openclawGateway";
+
+function trace(frame: unknown, at = 1000, direction: GatewayFrameTrace["direction"] = "out"): GatewayFrameTrace {
+  return { direction, at, raw: JSON.stringify(frame) ?? "", frame };
+}
+
+describe("redactFrame", () => {
+  it("masks credentials at any depth", () => {
+    const redacted = redactFrame({
+      type: "req",
+      params: {
+        auth: { token: "gateway-token", password: "hunter2" },
+        device: { deviceToken: "dt", signature: "sig", publicKey: "pk" },
+        headers: { Authorization: "Bearer x", cookie: "a=b" },
+        clientSecret: "s",
+      },
+    });
+    expect(redacted).toEqual({
+      type: "req",
+      params: {
+        auth: { token: "[redacted]", password: "[redacted]" },
+        device: { deviceToken: "[redacted]", signature: "[redacted]", publicKey: "pk" },
+        headers: { Authorization: "[redacted]", cookie: "[redacted]" },
+        clientSecret: "[redacted]",
+      },
+    });
+  });
+
+  it("keeps token usage counters visible", () => {
+    const usage = { inputTokens: 10, outputTokens: 20, totalTokens: 30, contextTokens: 200000, maxTokens: 4096 };
+    expect(redactFrame({ payload: usage })).toEqual({ payload: usage });
+  });
+
+  it("leaves empty credential fields alone", () => {
+    expect(redactFrame({ token: null, password: undefined })).toEqual({ token: null, password: undefined });
+  });
+
+  it("shortens inline base64 data and very long strings", () => {
+    const dataUrl = `data:image/png;base64,${"A".repeat(100)}`;
+    const long = "y".repeat(5000);
+    const redacted = redactFrame({ images: [dataUrl], text: long }) as { images: string[]; text: string };
+    expect(redacted.images[0]).toBe(`${dataUrl.slice(0, 64)}... (${dataUrl.length} chars)`);
+    expect(redacted.text).toBe(`${"y".repeat(64)}... (5000 chars)`);
+  });
+
+  it("stops at the depth limit", () => {
+    let nested: unknown = "leaf";
+    for (let level = 0; level < 20; level += 1) {
+      nested = { nested };
+    }
+    expect(JSON.stringify(redactFrame(nested))).toContain("[depth limit]");
+  });
+});
+
+describe("FrameRecorder", () => {
+  it("pairs responses with their request's method and latency", () => {
+    const recorder = new FrameRecorder();
+    recorder.record(trace({ type: "req", id: "1", method: "chat.send", params: { sessionKey: "agent:main:main" } }, 1000));
+    recorder.record(trace({ type: "res", id: "1", ok: true, payload: { runId: "r" } }, 1250, "in"));
+    const [request, response] = recorder.getSnapshot();
+    expect(request).toMatchObject({ kind: "req", method: "chat.send", sessionKey: "agent:main:main", requestId: "1" });
+    expect(response).toMatchObject({ kind: "res", method: "chat.send", ok: true, latencyMs: 250 });
+  });
+
+  it("records events, invalid frames and redacted bodies", () => {
+    const recorder = new FrameRecorder();
+    recorder.record(trace({ type: "event", event: "chat", payload: { sessionKey: "s" } }, 1000, "in"));
+    recorder.record({ direction: "in", at: 1001, raw: "not json", frame: undefined });
+    recorder.record(trace({ type: "req", id: "2", method: "connect", params: { auth: { token: "t" } } }));
+    const [event, invalid, connect] = recorder.getSnapshot();
+    expect(event).toMatchObject({ kind: "event", event: "chat", sessionKey: "s" });
+    expect(invalid).toMatchObject({ kind: "invalid", body: "not json" });
+    expect(connect.body).toMatchObject({ params: { auth: { token: "[redacted]" } } });
+  });
+
+  it("keeps only the newest frames and numbers them in order", () => {
+    const recorder = new FrameRecorder(3);
+    for (let index = 0; index < 5; index += 1) {
+      recorder.record(trace({ type: "event", event: `e${index}` }));
+    }
+    expect(recorder.getSnapshot().map((frame) => [frame.seq, frame.event])).toEqual([
+      [3, "e2"],
+      [4, "e3"],
+      [5, "e4"],
+    ]);
+  });
+
+  it("forgets the oldest unanswered requests past its capacity", () => {
+    const recorder = new FrameRecorder(2);
+    for (const id of ["1", "2", "3"]) {
+      recorder.record(trace({ type: "req", id, method: `m${id}` }));
+    }
+    recorder.record(trace({ type: "res", id: "1", ok: false }, 2000, "in"));
+    recorder.record(trace({ type: "res", id: "3", ok: true }, 2000, "in"));
+    const [forgotten, answered] = recorder.getSnapshot();
+    expect(forgotten).toMatchObject({ requestId: "1", method: undefined, latencyMs: undefined });
+    expect(answered).toMatchObject({ requestId: "3", method: "m3", latencyMs: 1000 });
+  });
+
+  it("notifies subscribers and returns a stable snapshot between changes", () => {
+    const recorder = new FrameRecorder();
+    let calls = 0;
+    const unsubscribe = recorder.subscribe(() => {
+      calls += 1;
+    });
+    const before = recorder.getSnapshot();
+    expect(recorder.getSnapshot()).toBe(before);
+    recorder.record(trace({ type: "event", event: "tick" }));
+    recorder.clear();
+    unsubscribe();
+    recorder.record(trace({ type: "event", event: "tick" }));
+    expect(calls).toBe(2);
+    expect(recorder.getSnapshot()).not.toBe(before);
+  });
+});
+
+describe("filterFrames", () => {
+  it("filters by direction, kind and query", () => {
+    const recorder = new FrameRecorder();
+    recorder.record(trace({ type: "req", id: "1", method: "chat.send", params: { sessionKey: "agent:coder:main" } }));
+    recorder.record(trace({ type: "event", event: "presence" }, 1000, "in"));
+    const frames = recorder.getSnapshot();
+    expect(filterFrames(frames, { direction: "in" }).map((frame) => frame.event)).toEqual(["presence"]);
+    expect(filterFrames(frames, { kind: "req" })).toHaveLength(1);
+    expect(filterFrames(frames, { query: " CODER " }).map((frame) => frame.method)).toEqual(["chat.send"]);
+    expect(filterFrames(frames, { direction: "all", kind: "all", query: "" })).toEqual(frames);
+  });
+});
+
+describe("exportFrameCapture", () => {
+  it("drops the gateway URL's query string", () => {
+    const capture = JSON.parse(exportFrameCapture([], { gatewayUrl: "wss://gw.example.com/ws?token=secret" }));
+    expect(capture).toMatchObject({ format: "openclaw-frame-capture", version: 1, frames: [] });
+    expect(capture.gatewayUrl).toBe("wss://gw.example.com/ws");
+  });
+});
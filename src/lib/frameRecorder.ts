@@ -0,0 +1,217 @@
+import type { GatewayFrameTrace } from "./openclawGateway";
+
+type JsonRecord = Record<string, unknown>;
+
+const DEFAULT_CAPACITY = 1500;
+const MAX_STORED_PAYLOAD_CHARS = 64 * 1024;
+const REDACTED = "[redacted]";
+// Exact names for tokens: usage counters such as `inputTokens` must stay visible.
+const SENSITIVE_KEY_RE = /^(token|accessToken|authToken|deviceToken|refreshToken)$|password|secret|signature|privatekey|authorization|cookie/i;
+const DATA_URL_RE = /^data:[^;,]+;base64,/i;
+
+export type RecordedFrameKind = "req" | "res" | "event" | "invalid";
+
+export type RecordedFrame = {
+  seq: number;
+  direction: GatewayFrameTrace["direction"];
+  at: number;
+  kind: RecordedFrameKind;
+  /** Request id shared by a req and its res. */
+  requestId?: string;
+  /** Set on req, and copied onto the matching res. */
+  method?: string;
+  event?: string;
+  sessionKey?: string;
+  ok?: boolean;
+  latencyMs?: number;
+  /** Redacted frame body; a truncated string when the frame was too large or not JSON. */
+  body: unknown;
+};
+
+export type FrameFilter = {
+  /** Substring matched against method, event and session key. */
+  query?: string;
+  direction?: GatewayFrameTrace["direction"] | "all";
+  kind?: RecordedFrameKind | "all";
+};
+
+function isRecord(value: unknown): value is JsonRecord {
+  return typeof value === "object" && value !== null;
+}
+
+/** Deep-copies a frame with credentials masked and inline base64 blobs shortened. */
+export function redactFrame(value: unknown, depth = 0): unknown {
+  if (depth > 12) {
+    return "[depth limit]";
+  }
+  if (typeof value === "string") {
+    if (DATA_URL_RE.test(value) || value.length > 4096) {
+      return `${value.slice(0, 64)}... (${value.length} chars)`;
+    }
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactFrame(item, depth + 1));
+  }
+  if (!isRecord(value)) {
+    return value;
+  }
+  const copy: JsonRecord = {};
+  for (const [key, entry] of Object.entries(value)) {
+    copy[key] = SENSITIVE_KEY_RE.test(key) && entry !== null && entry !== undefined ? REDACTED : redactFrame(entry, depth + 1);
+  }
+  return copy;
+}
+
+function pickSessionKey(frame: JsonRecord): string | undefined {
+  const container = frame.type === "req" ? frame.params : frame.payload;
+  if (isRecord(container) && typeof container.sessionKey === "string") {
+    return container.sessionKey;
+  }
+  return undefined;
+}
+
+/**
+ * Bounded in-memory capture of gateway traffic. Lives outside React state so streaming
+ * deltas don't re-render the app; the inspector subscribes only while it is open.
+ */
+export class FrameRecorder {
+  private frames: RecordedFrame[] = [];
+  private readonly listeners = new Set<() => void>();
+  private readonly pendingRequests = new Map<string, { method: string; at: number }>();
+  private nextSeq = 1;
+  private readonly capacity: number;
+
+  constructor(capacity = DEFAULT_CAPACITY) {
+    this.capacity = capacity;
+  }
+
+  record(trace: GatewayFrameTrace): void {
+    const entry = this.describe(trace);
+    const next = this.frames.length >= this.capacity ? this.frames.slice(1) : this.frames.slice();
+    next.push(entry);
+    this.frames = next;
+    this.notify();
+  }
+
+  clear(): void {
+    this.frames = [];
+    this.pendingRequests.clear();
+    this.notify();
+  }
+
+  /** Stable between changes, so it can back `useSyncExternalStore`. */
+  getSnapshot = (): RecordedFrame[] => this.frames;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+
+  private describe(trace: GatewayFrameTrace): RecordedFrame {
+    const base = { seq: this.nextSeq++, direction: trace.direction, at: trace.at };
+    const frame = trace.frame;
+    if (!isRecord(frame)) {
+      return { ...base, kind: "invalid", body: trace.raw.slice(0, MAX_STORED_PAYLOAD_CHARS) };
+    }
+
+    // Redact before truncating: large frames (history pages, connect) are the likeliest to carry secrets.
+    const redacted = redactFrame(frame);
+    const serialized = trace.raw.length > MAX_STORED_PAYLOAD_CHARS ? JSON.stringify(redacted) : "";
+    const body =
+      serialized.length > MAX_STORED_PAYLOAD_CHARS
+        ? `${serialized.slice(0, MAX_STORED_PAYLOAD_CHARS)}... (${trace.raw.length} chars, truncated)`
+        : redacted;
+    const sessionKey = pickSessionKey(frame);
+    const requestId = typeof frame.id === "string" ? frame.id : undefined;
+
+    if (frame.type === "req") {
+      const method = typeof frame.method === "string" ? frame.method : undefined;
+      if (requestId && method) {
+        this.pendingRequests.set(requestId, { method, at: trace.at });
+        // Timed-out or aborted requests never see a response; forget the oldest past the ring size.
+        if (this.pendingRequests.size > this.capacity) {
+          const oldest = this.pendingRequests.keys().next().value;
+          if (oldest !== undefined) {
+            this.pendingRequests.delete(oldest);
+          }
+        }
+      }
+      return { ...base, kind: "req", requestId, method, sessionKey, body };
+    }
+    if (frame.type === "res") {
+      const request = requestId ? this.pendingRequests.get(requestId) : undefined;
+      if (requestId) {
+        this.pendingRequests.delete(requestId);
+      }
+      return {
+        ...base,
+        kind: "res",
+        requestId,
+        method: request?.method,
+        sessionKey,
+        ok: frame.ok === true,
+        latencyMs: request ? trace.at - request.at : undefined,
+        body,
+      };
+    }
+    if (frame.type === "event") {
+      return {
+        ...base,
+        kind: "event",
+        event: typeof frame.event === "string" ? frame.event : undefined,
+        sessionKey,
+        body,
+      };
+    }
+    return { ...base, kind: "invalid", body };
+  }
+}
+
+export function filterFrames(frames: RecordedFrame[], filter: FrameFilter): RecordedFrame[] {
+  const query = filter.query?.trim().toLowerCase() ?? "";
+  return frames.filter((frame) => {
+    if (filter.direction && filter.direction !== "all" && frame.direction !== filter.direction) {
+      return false;
+    }
+    if (filter.kind && filter.kind !== "all" && frame.kind !== filter.kind) {
+      return false;
+    }
+    if (!query) {
+      return true;
+    }
+    return [frame.method, frame.event, frame.sessionKey].some((field) => field?.toLowerCase().includes(query));
+  });
+}
+
+/** Bug-report capture; bodies are already redacted, and the URL loses its query string (may carry tokens). */
+export function exportFrameCapture(frames: RecordedFrame[], meta: { gatewayUrl: string }): string {
+  let gatewayUrl = meta.gatewayUrl;
+  try {
+    const parsed = new URL(meta.gatewayUrl);
+    parsed.search = "";
+    gatewayUrl = parsed.toString();
+  } catch {
+    // Keep the raw value; it is only informational.
+  }
+  return JSON.stringify(
+    {
+      format: "openclaw-frame-capture",
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      gatewayUrl,
+      userAgent: typeof navigator !== "undefined" ? navigator.userAgent : undefined,
+      frames,
+    },
+    null,
+    2,
+  );
+}
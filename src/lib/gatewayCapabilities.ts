@@ -0,0 +1,183 @@
+import type { GatewayChatAttachmentFeature, HelloOkPayload } from "./gatewayProtocol";
+import { GatewayRequestError } from "./openclawGateway";
+
+export type GatewayCapabilityKey =
+  | "streaming"
+  | "agentSwitching"
+  | "sessionListing"
+  | "sessionManagement"
+  | "binaryAttachments"
+  | "abort";
+
+type CapabilityRequirement = {
+  key: GatewayCapabilityKey;
+  label: string;
+  methods: string[];
+  events: string[];
+};
+
+export type GatewayMissingCapability = {
+  key: GatewayCapabilityKey;
+  label: string;
+  missingMethods: string[];
+  missingEvents: string[];
+};
+
+export type GatewayCapabilities = {
+  /** False when the gateway did not send feature lists; method-based features are then assumed available. */
+  advertised: boolean;
+  methods: string[] | null;
+  events: string[] | null;
+  enabled: Record<GatewayCapabilityKey, boolean>;
+  missing: GatewayMissingCapability[];
+  /** Gateway-wide image attachment limits; null unless binaryAttachments is enabled. */
+  chatAttachments: GatewayChatAttachmentFeature | null;
+};
+
+/** What one `chat.send` may carry as binary images for a given agent. */
+export type ImageAttachmentLimits = {
+  /** Accepted image MIME types; null means any. */
+  mimeTypes: string[] | null;
+  /** Compression aims for this size per image... */
+  targetBytes: number;
+  /** ...and images still above this are left out. */
+  maxBytes: number;
+  maxTotalBytes: number;
+  maxDimensionPx: number;
+  maxCount: number;
+};
+
+/** Used for whatever neither the gateway nor the agent specifies. */
+const DEFAULT_IMAGE_ATTACHMENT_LIMITS: Omit<ImageAttachmentLimits, "mimeTypes" | "targetBytes"> = {
+  maxBytes: 640 * 1024,
+  maxTotalBytes: 820 * 1024,
+  maxDimensionPx: 1600,
+  maxCount: 8,
+};
+
+const CAPABILITY_REQUIREMENTS: CapabilityRequirement[] = [
+  { key: "streaming", label: "流式回复", methods: ["chat.send"], events: ["chat"] },
+  { key: "agentSwitching", label: "Agent 切换", methods: ["agents.list"], events: [] },
+  { key: "sessionListing", label: "会话列表", methods: ["sessions.list"], events: [] },
+  { key: "sessionManagement", label: "会话管理", methods: ["sessions.patch", "sessions.reset", "sessions.delete"], events: [] },
+  { key: "binaryAttachments", label: "图片二进制附件", methods: ["chat.send"], events: [] },
+  { key: "abort", label: "中止运行", methods: ["chat.abort"], events: [] },
+];
+
+function acceptsImages(feature: GatewayChatAttachmentFeature): boolean {
+  const mimeTypes = feature.mimeTypes ?? [];
+  return mimeTypes.length === 0 || mimeTypes.some((mimeType) => mimeType.toLowerCase().startsWith("image/"));
+}
+
+function advertisesImageAttachments(hello: HelloOkPayload): boolean {
+  const attachments = hello.features?.chatAttachments;
+  return Boolean(attachments && acceptsImages(attachments));
+}
+
+export function deriveGatewayCapabilities(hello: HelloOkPayload | null): GatewayCapabilities {
+  const methods = hello?.features?.methods ?? null;
+  const events = hello?.features?.events ?? null;
+  const methodSet = methods ? new Set(methods) : null;
+  const eventSet = events ? new Set(events) : null;
+
+  const enabled = {} as Record<GatewayCapabilityKey, boolean>;
+  const missing: GatewayMissingCapability[] = [];
+  for (const requirement of CAPABILITY_REQUIREMENTS) {
+    const missingMethods = methodSet ? requirement.methods.filter((method) => !methodSet.has(method)) : [];
+    const missingEvents = eventSet ? requirement.events.filter((event) => !eventSet.has(event)) : [];
+    let available = missingMethods.length === 0 && missingEvents.length === 0;
+    if (requirement.key === "binaryAttachments") {
+      // Must be advertised explicitly; silence from an older gateway means "no".
+      available = available && hello !== null && advertisesImageAttachments(hello);
+    }
+    enabled[requirement.key] = available;
+    if (!available && hello !== null) {
+      missing.push({
+        key: requirement.key,
+        label: requirement.label,
+        missingMethods,
+        missingEvents,
+      });
+    }
+  }
+
+  return {
+    advertised: methodSet !== null || eventSet !== null,
+    methods,
+    events,
+    enabled,
+    missing,
+    chatAttachments: enabled.binaryAttachments ? (hello?.features?.chatAttachments ?? null) : null,
+  };
+}
+
+function pickLimit(fallback: number, ...values: Array<number | undefined>): number {
+  const given = values.filter((value): value is number => value !== undefined && value > 0);
+  return given.length > 0 ? Math.min(...given) : fallback;
+}
+
+/**
+ * Combines the gateway's and the agent's attachment limits, the stricter one winning. Null when
+ * images cannot be sent as binary to this agent, so the caller falls back to path notes.
+ */
+export function resolveImageAttachmentLimits(
+  capabilities: GatewayCapabilities,
+  agentFeature: GatewayChatAttachmentFeature | null | undefined,
+): ImageAttachmentLimits | null {
+  const gatewayFeature = capabilities.chatAttachments;
+  if (!capabilities.enabled.binaryAttachments || !gatewayFeature || agentFeature === null) {
+    return null;
+  }
+  if (agentFeature && !acceptsImages(agentFeature)) {
+    return null;
+  }
+  const imageTypes = (feature: GatewayChatAttachmentFeature | undefined) => {
+    const types = (feature?.mimeTypes ?? []).map((mimeType) => mimeType.toLowerCase()).filter((mimeType) => mimeType.startsWith("image/"));
+    return types.length > 0 ? types : null;
+  };
+  const gatewayTypes = imageTypes(gatewayFeature);
+  const agentTypes = imageTypes(agentFeature);
+  const mimeTypes =
+    gatewayTypes && agentTypes ? gatewayTypes.filter((mimeType) => agentTypes.includes(mimeType)) : (agentTypes ?? gatewayTypes);
+  if (mimeTypes && mimeTypes.length === 0) {
+    return null;
+  }
+
+  const defaults = DEFAULT_IMAGE_ATTACHMENT_LIMITS;
+  const maxBytes = pickLimit(defaults.maxBytes, gatewayFeature.maxBytes, agentFeature?.maxBytes);
+  return {
+    mimeTypes,
+    // Leave headroom below the hard cap: base64 and JPEG estimates are approximate.
+    targetBytes: Math.floor(maxBytes * 0.66),
+    maxBytes,
+    maxTotalBytes: pickLimit(defaults.maxTotalBytes, gatewayFeature.maxTotalBytes, agentFeature?.maxTotalBytes),
+    maxDimensionPx: pickLimit(defaults.maxDimensionPx, gatewayFeature.maxDimensionPx, agentFeature?.maxDimensionPx),
+    maxCount: pickLimit(defaults.maxCount, gatewayFeature.maxCount, agentFeature?.maxCount),
+  };
+}
+
+/** Unadvertised method lists are treated permissively so older gateways keep working. */
+export function gatewaySupportsMethod(capabilities: GatewayCapabilities, method: string): boolean {
+  return capabilities.methods === null || capabilities.methods.includes(method);
+}
+
+const UNSUPPORTED_METHOD_CODES = new Set(["UNKNOWN_METHOD", "METHOD_NOT_FOUND", "NOT_IMPLEMENTED"]);
+
+/** True when a rejection means the gateway lacks the method, e.g. one that never advertised its method list. */
+export function isUnsupportedMethodError(error: unknown): boolean {
+  if (!(error instanceof GatewayRequestError) || error.kind !== "rejected") {
+    return false;
+  }
+  if (error.code && UNSUPPORTED_METHOD_CODES.has(error.code.toUpperCase())) {
+    return true;
+  }
+  return /unknown method|method not found|not (?:supported|implemented)/i.test(error.message);
+}
+
+/** True when `chat.send` was refused because of its binary attachments rather than the prompt. */
+export function isAttachmentRejection(error: unknown): boolean {
+  if (!(error instanceof GatewayRequestError) || error.kind !== "rejected") {
+    return false;
+  }
+  return /attachment|image|payload too large/i.test(error.message);
+}
@@ -0,0 +1,119 @@
+/**
+ * Host services the gateway client needs. Browsers get working defaults; Node callers
+ * pass at least `createSocket`, e.g. `(url) => new WebSocket(url)` with the `ws` package.
+ */
+
+/** Subset of the DOM Event shape shared by browser WebSocket and `ws` events. */
+export type GatewaySocketEvent = {
+  type: string;
+  data?: unknown;
+  code?: number;
+  reason?: string;
+};
+
+export type GatewaySocketEventType = "open" | "message" | "close" | "error";
+
+/** Structural WebSocket; both the browser WebSocket and `ws` satisfy it as-is. */
+export interface GatewaySocket {
+  readonly readyState: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  addEventListener(type: GatewaySocketEventType, listener: (event: GatewaySocketEvent) => void): void;
+  removeEventListener(type: GatewaySocketEventType, listener: (event: GatewaySocketEvent) => void): void;
+}
+
+export const GATEWAY_SOCKET_OPEN = 1;
+
+/** Opaque timer handle: a number in browsers, a Timeout object in Node. */
+export type GatewayTimerHandle = unknown;
+
+export type GatewayTimers = {
+  now(): number;
+  setTimeout(callback: () => void, delayMs: number): GatewayTimerHandle;
+  clearTimeout(handle: GatewayTimerHandle): void;
+  setInterval(callback: () => void, intervalMs: number): GatewayTimerHandle;
+  clearInterval(handle: GatewayTimerHandle): void;
+};
+
+export type GatewayStorage = {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+};
+
+export type GatewayPlatformInfo = {
+  platform: string;
+  locale?: string;
+  userAgent?: string;
+};
+
+export type GatewayEnvironment = {
+  createSocket: (url: string) => GatewaySocket;
+  timers: GatewayTimers;
+  /** Holds the device identity key; use a persistent store to keep device pairing across runs. */
+  storage: GatewayStorage;
+  platform: GatewayPlatformInfo;
+};
+
+type NativeTimerHandle = ReturnType<typeof globalThis.setTimeout>;
+
+const globalTimers: GatewayTimers = {
+  now: () => Date.now(),
+  setTimeout: (callback, delayMs) => globalThis.setTimeout(callback, delayMs),
+  clearTimeout: (handle) => globalThis.clearTimeout(handle as NativeTimerHandle),
+  setInterval: (callback, intervalMs) => globalThis.setInterval(callback, intervalMs),
+  clearInterval: (handle) => globalThis.clearInterval(handle as NativeTimerHandle),
+};
+
+export function createMemoryStorage(): GatewayStorage {
+  const entries = new Map<string, string>();
+  return {
+    getItem: (key) => entries.get(key) ?? null,
+    setItem: (key, value) => {
+      entries.set(key, value);
+    },
+  };
+}
+
+let fallbackStorage: GatewayStorage | null = null;
+
+/** localStorage when the host has one, otherwise a process-wide in-memory store. */
+export function getDefaultGatewayStorage(): GatewayStorage {
+  try {
+    if (typeof localStorage !== "undefined") {
+      return localStorage;
+    }
+  } catch {
+    // Accessing localStorage throws in some sandboxed iframes.
+  }
+  if (!fallbackStorage) {
+    fallbackStorage = createMemoryStorage();
+  }
+  return fallbackStorage;
+}
+
+function detectPlatform(): GatewayPlatformInfo {
+  if (typeof navigator === "undefined") {
+    return { platform: "node" };
+  }
+  return {
+    platform: navigator.platform || "web",
+    locale: navigator.language,
+    userAgent: navigator.userAgent,
+  };
+}
+
+function createGlobalSocket(url: string): GatewaySocket {
+  if (typeof WebSocket === "undefined") {
+    throw new Error("no global WebSocket; pass environment.createSocket (e.g. from the ws package)");
+  }
+  return new WebSocket(url);
+}
+
+export function resolveGatewayEnvironment(overrides: Partial<GatewayEnvironment> = {}): GatewayEnvironment {
+  return {
+    createSocket: overrides.createSocket ?? createGlobalSocket,
+    timers: overrides.timers ?? globalTimers,
+    storage: overrides.storage ?? getDefaultGatewayStorage(),
+    platform: overrides.platform ?? detectPlatform(),
+  };
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { type AgentRunActivity, dropAgentRun, reduceAgentActivity, sortPresence } from "./gatewayEventBus";
+import type { AgentEventPayload } from "./gatewayProtocol";
+
+function agentEvent(stream: string, data: Record<string, unknown>, extra: Partial<AgentEventPayload> = {}): AgentEventPayload {
+  return { runId: "run-1", stream, sessionKey: "agent:main:main", data, ...extra };
+}
+
+function fold(events: AgentEventPayload[], start: Record<string, AgentRunActivity> = {}): Record<string, AgentRunActivity> {
+  return events.reduce((runs, event, index) => reduceAgentActivity(runs, event, 1000 + index), start);
+}
+
+describe("reduceAgentActivity", () => {
+  it("tracks a run from its lifecycle start", () => {
+    const runs = fold([agentEvent("lifecycle", { phase: "start" }, { ts: 500 })]);
+    expect(runs).toEqual({
+      "run-1": { runId: "run-1", sessionKey: "agent:main:main", startedAt: 500, updatedAt: 500, toolCount: 0 },
+    });
+  });
+
+  it("drops the run when it ends or fails", () => {
+    const started = fold([agentEvent("lifecycle", { phase: "start" })]);
+    expect(reduceAgentActivity(started, agentEvent("lifecycle", { phase: "end" }), 2000)).toEqual({});
+    expect(reduceAgentActivity(started, agentEvent("lifecycle", { phase: "error" }), 2000)).toEqual({});
+  });
+
+  it("shows the running tool and clears it on its result", () => {
+    const running = fold([
+      agentEvent("lifecycle", { phase: "start" }),
+      agentEvent("tool", { phase: "start", name: "web_search", toolCallId: "call-1" }),
+    ]);
+    expect(running["run-1"]).toMatchObject({ toolName: "web_search", toolCallId: "call-1", toolCount: 1, updatedAt: 1001 });
+
+    const settled = reduceAgentActivity(running, agentEvent("tool", { phase: "result", toolCallId: "call-1" }), 3000);
+    expect(settled["run-1"]).toMatchObject({ toolName: undefined, toolCallId: undefined, toolCount: 1, updatedAt: 3000 });
+  });
+
+  it("keeps the running tool when a result for another call arrives", () => {
+    const running = fold([agentEvent("tool", { phase: "start", name: "exec", toolCallId: "call-2" })]);
+    const next = reduceAgentActivity(running, agentEvent("tool", { phase: "result", toolCallId: "call-1" }), 3000);
+    expect(next).toBe(running);
+  });
+
+  it("counts tools and names unnamed ones", () => {
+    const runs = fold([
+      agentEvent("tool", { phase: "start", name: "read" }),
+      agentEvent("tool", { phase: "result" }),
+      agentEvent("tool", { phase: "start" }),
+    ]);
+    expect(runs["run-1"]).toMatchObject({ toolName: "tool", toolCount: 2 });
+  });
+
+  it("starts tracking a run joined mid-way from its tool events", () => {
+    const runs = fold([agentEvent("tool", { phase: "update" })]);
+    expect(runs["run-1"]).toEqual({
+      runId: "run-1",
+      sessionKey: "agent:main:main",
+      startedAt: 1000,
+      updatedAt: 1000,
+      toolCount: 0,
+    });
+  });
+
+  it("returns the same table when nothing visible changed", () => {
+    const runs = fold([agentEvent("lifecycle", { phase: "start" })]);
+    expect(reduceAgentActivity(runs, agentEvent("assistant", { text: "hi" }), 2000)).toBe(runs);
+    expect(reduceAgentActivity(runs, agentEvent("lifecycle", { phase: "heartbeat" }), 2000)).toBe(runs);
+    expect(reduceAgentActivity(runs, agentEvent("tool", { phase: "update" }), 2000)).toBe(runs);
+  });
+
+  it("keeps runs independent", () => {
+    const runs = fold([
+      agentEvent("lifecycle", { phase: "start" }),
+      agentEvent("lifecycle", { phase: "start" }, { runId: "run-2" }),
+      agentEvent("lifecycle", { phase: "end" }),
+    ]);
+    expect(Object.keys(runs)).toEqual(["run-2"]);
+  });
+});
+
+describe("dropAgentRun", () => {
+  it("returns the same table for unknown runs", () => {
+    const runs = fold([agentEvent("lifecycle", { phase: "start" })]);
+    expect(dropAgentRun(runs, "run-9")).toBe(runs);
+    expect(dropAgentRun(runs, "run-1")).toEqual({});
+  });
+});
+
+describe("sortPresence", () => {
+  it("lists the most recently active entries first without mutating the input", () => {
+    const entries = [
+      { key: "a", ts: 100 },
+      { key: "b" },
+      { key: "c", ts: 300 },
+    ];
+    expect(sortPresence(entries).map((entry) => entry.key)).toEqual(["c", "a", "b"]);
+    expect(entries.map((entry) => entry.key)).toEqual(["a", "b", "c"]);
+  });
+});
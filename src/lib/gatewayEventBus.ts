@@ -0,0 +1,176 @@
+import {
+  type AgentEventPayload,
+  type GatewayEventName,
+  type GatewayEventPayload,
+  type GatewayPresenceEntry,
+  type HealthEventPayload,
+  isKnownGatewayEvent,
+} from "./gatewayProtocol";
+import type { GatewayEventFrame, OpenClawGatewayClient } from "./openclawGateway";
+
+/** Broadcasts relayed by the bus; chat stays with the hook's own run/stream handling. */
+export const GATEWAY_BUS_EVENTS = ["presence", "health", "agent", "tick"] as const satisfies readonly GatewayEventName[];
+
+export type GatewayBusEventName = (typeof GATEWAY_BUS_EVENTS)[number];
+
+type BusHandler<E extends GatewayBusEventName> = (payload: GatewayEventPayload<E>, frame: GatewayEventFrame) => void;
+type AnyBusHandler = (payload: unknown, frame: GatewayEventFrame) => void;
+
+/**
+ * Fan-out for non-chat gateway broadcasts that outlives individual client instances, so
+ * UI subscribers don't have to resubscribe on every connect or reconnect.
+ */
+export class GatewayEventBus {
+  private readonly handlers = new Map<GatewayBusEventName, Set<AnyBusHandler>>();
+  private readonly unknownHandlers = new Set<(frame: GatewayEventFrame) => void>();
+
+  on<E extends GatewayBusEventName>(event: E, handler: BusHandler<E>): () => void {
+    const handlers = this.handlers.get(event) ?? new Set<AnyBusHandler>();
+    const anyHandler = handler as AnyBusHandler;
+    handlers.add(anyHandler);
+    this.handlers.set(event, handlers);
+    return () => {
+      handlers.delete(anyHandler);
+    };
+  }
+
+  /** Events the client has no schema for, e.g. from a newer gateway. */
+  onUnknown(handler: (frame: GatewayEventFrame) => void): () => void {
+    this.unknownHandlers.add(handler);
+    return () => {
+      this.unknownHandlers.delete(handler);
+    };
+  }
+
+  /** Relays the client's events until the returned function is called. */
+  attach(client: OpenClawGatewayClient): () => void {
+    const detachers = GATEWAY_BUS_EVENTS.map((event) =>
+      client.onEvent(event, (payload, frame) => {
+        this.emit(event, payload, frame);
+      }),
+    );
+    detachers.push(
+      client.onAnyEvent((frame) => {
+        if (isKnownGatewayEvent(frame.event)) {
+          return;
+        }
+        for (const handler of this.unknownHandlers) {
+          handler(frame);
+        }
+      }),
+    );
+    return () => {
+      for (const detach of detachers) {
+        detach();
+      }
+    };
+  }
+
+  private emit<E extends GatewayBusEventName>(event: E, payload: GatewayEventPayload<E>, frame: GatewayEventFrame): void {
+    for (const handler of this.handlers.get(event) ?? []) {
+      handler(payload, frame);
+    }
+  }
+}
+
+export type GatewayHealthState = HealthEventPayload & {
+  receivedAt: number;
+};
+
+/** Latest known state of one agent run, folded from its lifecycle and tool events. */
+export type AgentRunActivity = {
+  runId: string;
+  sessionKey?: string;
+  startedAt: number;
+  updatedAt: number;
+  /** Tool currently executing, if any. */
+  toolName?: string;
+  toolCallId?: string;
+  toolCount: number;
+};
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+/**
+ * Applies one agent event to the running-run table. Finished runs are dropped; the
+ * result is the same object when nothing visible changed.
+ */
+export function reduceAgentActivity(
+  runs: Record<string, AgentRunActivity>,
+  payload: AgentEventPayload,
+  receivedAt: number,
+): Record<string, AgentRunActivity> {
+  const at = payload.ts ?? receivedAt;
+  const phase = optionalString(payload.data.phase);
+  const current = runs[payload.runId];
+
+  if (payload.stream === "lifecycle") {
+    if (phase === "end" || phase === "error") {
+      return dropAgentRun(runs, payload.runId);
+    }
+    if (phase === "start") {
+      return {
+        ...runs,
+        [payload.runId]: {
+          runId: payload.runId,
+          sessionKey: payload.sessionKey,
+          startedAt: at,
+          updatedAt: at,
+          toolCount: 0,
+        },
+      };
+    }
+    return runs;
+  }
+
+  if (payload.stream !== "tool") {
+    return runs;
+  }
+  // Tool events can arrive before (or without) a lifecycle start when we joined mid-run.
+  const base: AgentRunActivity = current ?? {
+    runId: payload.runId,
+    sessionKey: payload.sessionKey,
+    startedAt: at,
+    updatedAt: at,
+    toolCount: 0,
+  };
+  const toolCallId = optionalString(payload.data.toolCallId);
+  if (phase === "start") {
+    return {
+      ...runs,
+      [payload.runId]: {
+        ...base,
+        updatedAt: at,
+        toolName: optionalString(payload.data.name) ?? "tool",
+        toolCallId,
+        toolCount: base.toolCount + 1,
+      },
+    };
+  }
+  if (phase === "result" && (!base.toolCallId || !toolCallId || base.toolCallId === toolCallId)) {
+    return {
+      ...runs,
+      [payload.runId]: { ...base, updatedAt: at, toolName: undefined, toolCallId: undefined },
+    };
+  }
+  return current ? runs : { ...runs, [payload.runId]: base };
+}
+
+export function dropAgentRun(
+  runs: Record<string, AgentRunActivity>,
+  runId: string,
+): Record<string, AgentRunActivity> {
+  if (!runs[runId]) {
+    return runs;
+  }
+  const next = { ...runs };
+  delete next[runId];
+  return next;
+}
+
+/** Most recently active entries first, so the strip can show a short list. */
+export function sortPresence(entries: GatewayPresenceEntry[]): GatewayPresenceEntry[] {
+  return entries.slice().sort((left, right) => (right.ts ?? 0) - (left.ts ?? 0));
+}
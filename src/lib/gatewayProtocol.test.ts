@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import {
+  GatewayProtocolError,
+  gatewayEventValidators,
+  gatewayResultValidators,
+  isKnownGatewayEvent,
+  parsePairingRequired,
+} from "./gatewayProtocol";
+
+describe("gatewayResultValidators", () => {
+  describe("connect", () => {
+    it("normalizes hello-ok features, snapshot and auth", () => {
+      const hello = gatewayResultValidators.connect({
+        type: "hello-ok",
+        protocol: 3,
+        features: { methods: ["chat.send", 7], chatAttachments: { maxBytes: 1024, mimeTypes: ["image/png"] } },
+        snapshot: {
+          presence: [{ instanceId: "i-1", host: "mac", ts: 5 }, { platform: "no key" }, "noise"],
+          health: { ok: false, error: "disk full" },
+        },
+        policy: { tickIntervalMs: 15000 },
+        auth: { role: "operator", scopes: ["operator.read"] },
+      });
+      expect(hello.features?.methods).toEqual(["chat.send"]);
+      expect(hello.features?.chatAttachments).toMatchObject({ maxBytes: 1024, mimeTypes: ["image/png"] });
+      expect(hello.snapshot?.presence).toEqual([expect.objectContaining({ key: "i-1", host: "mac", ts: 5 })]);
+      expect(hello.snapshot?.health).toEqual({ ok: false, summary: "disk full" });
+      expect(hello.policy?.tickIntervalMs).toBe(15000);
+      expect(hello.auth).toEqual({ role: "operator", scopes: ["operator.read"] });
+    });
+
+    it("rejects a hello without a protocol version", () => {
+      expect(() => gatewayResultValidators.connect({ type: "hello-ok" })).toThrow(GatewayProtocolError);
+      expect(() => gatewayResultValidators.connect([])).toThrow(/payload is not an object/);
+    });
+  });
+
+  it("keeps agents with an id and trims it", () => {
+    const result = gatewayResultValidators["agents.list"]({
+      defaultId: "main",
+      agents: [{ id: " main ", identity: { name: "Claw" } }, { id: "" }, { name: "no id" }, { id: "coder", chatAttachments: null }],
+    });
+    expect(result.defaultId).toBe("main");
+    expect(result.agents).toEqual([
+      expect.objectContaining({ id: "main", identityName: "Claw" }),
+      expect.objectContaining({ id: "coder", chatAttachments: null }),
+    ]);
+  });
+
+  it("parses session summaries and their update times", () => {
+    const { sessions } = gatewayResultValidators["sessions.list"]({
+      sessions: [
+        { key: "agent:main:main", updatedAt: 1700000000000, totalTokens: 42, label: "  " },
+        { key: "agent:main:room-a", updatedAt: "2026-03-01T10:00:00Z", inputTokens: "many" },
+        { label: "no key" },
+      ],
+    });
+    expect(sessions).toHaveLength(2);
+    expect(sessions[0]).toMatchObject({ key: "agent:main:main", updatedAt: 1700000000000, totalTokens: 42, label: undefined });
+    expect(sessions[1]).toMatchObject({ updatedAt: Date.parse("2026-03-01T10:00:00Z"), inputTokens: undefined });
+    expect(() => gatewayResultValidators["sessions.list"]({ sessions: {} })).toThrow(/"sessions" is not an array/);
+  });
+
+  it("requires a key from sessions.resolve", () => {
+    expect(gatewayResultValidators["sessions.resolve"]({ key: " agent:main:x " })).toEqual({ key: "agent:main:x" });
+    expect(() => gatewayResultValidators["sessions.resolve"]({ key: "  " })).toThrow(GatewayProtocolError);
+  });
+
+  it("accepts empty acks from session mutations", () => {
+    expect(gatewayResultValidators["sessions.patch"](undefined)).toEqual({ key: "" });
+    expect(gatewayResultValidators["sessions.patch"]({ entry: { key: "agent:main:y" } })).toEqual({ key: "agent:main:y" });
+    expect(gatewayResultValidators["sessions.reset"]({ key: "agent:main:z" })).toEqual({ key: "agent:main:z" });
+    expect(gatewayResultValidators["sessions.delete"](null)).toEqual({ deleted: true });
+    expect(gatewayResultValidators["sessions.delete"]({ ok: false })).toEqual({ deleted: false });
+  });
+
+  it("requires a messages array from chat.history", () => {
+    expect(gatewayResultValidators["chat.history"]({ messages: [], nextCursor: "", hasMore: true })).toEqual({
+      messages: [],
+      nextCursor: undefined,
+      hasMore: true,
+    });
+    expect(() => gatewayResultValidators["chat.history"]({})).toThrow(/"messages" is not an array/);
+  });
+
+  it("tolerates empty chat.send and chat.abort acks", () => {
+    expect(gatewayResultValidators["chat.send"](undefined)).toEqual({});
+    expect(gatewayResultValidators["chat.send"]({ runId: " run-1 ", status: "started" })).toEqual({
+      runId: "run-1",
+      status: "started",
+    });
+    expect(gatewayResultValidators["chat.abort"](null)).toEqual({ runIds: [] });
+    expect(gatewayResultValidators["chat.abort"]({ aborted: true, runIds: ["run-1", 2] })).toEqual({
+      aborted: true,
+      runIds: ["run-1"],
+    });
+  });
+});
+
+describe("gatewayEventValidators", () => {
+  it("validates chat events", () => {
+    expect(gatewayEventValidators.chat({ runId: "r", sessionKey: "s", state: "delta", message: { text: "hi" } })).toEqual({
+      runId: "r",
+      sessionKey: "s",
+      state: "delta",
+      message: { text: "hi" },
+      errorMessage: undefined,
+    });
+    expect(() => gatewayEventValidators.chat({ runId: "r", sessionKey: "s", state: "done" })).toThrow(/unknown state "done"/);
+    expect(() => gatewayEventValidators.chat({ state: "final" })).toThrow(/"runId" or "sessionKey" is missing/);
+  });
+
+  it("requires a nonce on connect.challenge", () => {
+    expect(gatewayEventValidators["connect.challenge"]({ nonce: "n-1" })).toEqual({ nonce: "n-1" });
+    expect(() => gatewayEventValidators["connect.challenge"]({})).toThrow(GatewayProtocolError);
+  });
+
+  it("requires a known pairing decision", () => {
+    expect(gatewayEventValidators["device.pair.resolved"]({ decision: "approved", deviceId: "d" })).toMatchObject({
+      decision: "approved",
+      deviceId: "d",
+    });
+    expect(() => gatewayEventValidators["device.pair.resolved"]({ decision: "maybe" })).toThrow(/unknown decision/);
+  });
+
+  it("keys presence entries by instance, then device, then host", () => {
+    const { presence } = gatewayEventValidators.presence({
+      presence: [{ instanceId: "i", deviceId: "d" }, { deviceId: "d", host: "h" }, { host: "h" }, {}],
+    });
+    expect(presence.map((entry) => entry.key)).toEqual(["i", "d", "h"]);
+  });
+
+  it("treats health as ok unless it says otherwise", () => {
+    expect(gatewayEventValidators.health({ durationMs: 12 })).toEqual({ ok: true, durationMs: 12 });
+  });
+
+  it("tolerates ticks without a body and agent events without data", () => {
+    expect(gatewayEventValidators.tick(undefined)).toEqual({ ts: undefined });
+    expect(gatewayEventValidators.agent({ runId: "r", stream: "tool", data: ["not", "a", "record"] }).data).toEqual({});
+    expect(() => gatewayEventValidators.agent({ runId: "r" })).toThrow(/"runId" or "stream" is missing/);
+  });
+});
+
+describe("isKnownGatewayEvent", () => {
+  it("recognizes only events with a validator", () => {
+    expect(isKnownGatewayEvent("presence")).toBe(true);
+    expect(isKnownGatewayEvent("cron")).toBe(false);
+    expect(isKnownGatewayEvent("toString")).toBe(false);
+  });
+});
+
+describe("parsePairingRequired", () => {
+  it("reads pairing details from a rejected connect", () => {
+    const request = parsePairingRequired(
+      { code: "not_paired", message: "device not paired", details: { requestId: "req-1", code: "ABCD", expiresAtMs: 99 } },
+      "device-1",
+    );
+    expect(request).toEqual({ deviceId: "device-1", requestId: "req-1", pairingCode: "ABCD", expiresAt: 99 });
+  });
+
+  it("recognizes the message when the code is missing", () => {
+    expect(parsePairingRequired({ message: "Pairing required" }, null)).toEqual({
+      deviceId: null,
+      requestId: undefined,
+      pairingCode: undefined,
+      expiresAt: undefined,
+    });
+  });
+
+  it("ignores other connect errors", () => {
+    expect(parsePairingRequired({ code: "UNAUTHORIZED", message: "bad token" }, "device-1")).toBeNull();
+  });
+});
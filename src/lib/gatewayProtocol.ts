@@ -0,0 +1,651 @@
+type JsonRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is JsonRecord {
+  return typeof value === "object" && value !== null;
+}
+
+/** Raised when a gateway payload does not match the shape this client was built against. */
+export class GatewayProtocolError extends Error {
+  readonly source: string;
+
+  constructor(source: string, detail: string) {
+    super(`${source}: 网关返回格式不符合协议 (${detail})`);
+    this.name = "GatewayProtocolError";
+    this.source = source;
+  }
+}
+
+function expectRecord(source: string, value: unknown): JsonRecord {
+  if (!isRecord(value) || Array.isArray(value)) {
+    throw new GatewayProtocolError(source, "payload is not an object");
+  }
+  return value;
+}
+
+function expectArray(source: string, record: JsonRecord, field: string): unknown[] {
+  const value = record[field];
+  if (!Array.isArray(value)) {
+    throw new GatewayProtocolError(source, `"${field}" is not an array`);
+  }
+  return value;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function optionalStringArray(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  return value.filter((item): item is string => typeof item === "string");
+}
+
+function parseChatAttachmentFeature(record: JsonRecord): GatewayChatAttachmentFeature {
+  return {
+    mimeTypes: optionalStringArray(record.mimeTypes),
+    maxBytes: optionalNumber(record.maxBytes),
+    maxTotalBytes: optionalNumber(record.maxTotalBytes),
+    maxDimensionPx: optionalNumber(record.maxDimensionPx),
+    maxCount: optionalNumber(record.maxCount),
+  };
+}
+
+type SnapshotSessionDefaults = {
+  defaultAgentId?: string;
+  mainKey?: string;
+  mainSessionKey?: string;
+  scope?: string;
+};
+
+type SnapshotShape = {
+  sessionDefaults?: SnapshotSessionDefaults;
+  presence?: GatewayPresenceEntry[];
+  health?: HealthEventPayload;
+};
+
+export type GatewayChatAttachmentFeature = {
+  /** Accepted MIME types; empty or absent means any image type. */
+  mimeTypes?: string[];
+  maxBytes?: number;
+  maxTotalBytes?: number;
+  /** Longest image edge the model accepts; larger images are downscaled before sending. */
+  maxDimensionPx?: number;
+  maxCount?: number;
+};
+
+export type HelloOkPayload = {
+  type: "hello-ok";
+  protocol: number;
+  features?: {
+    methods?: string[];
+    events?: string[];
+    chatAttachments?: GatewayChatAttachmentFeature;
+  };
+  snapshot?: SnapshotShape;
+  policy?: {
+    tickIntervalMs?: number;
+  };
+  /** What the gateway actually granted; may be narrower than what was requested. */
+  auth?: {
+    role?: string;
+    scopes?: string[];
+  };
+};
+
+export type GatewayConnectParams = {
+  minProtocol: number;
+  maxProtocol: number;
+  client: {
+    id: string;
+    version: string;
+    platform: string;
+    mode: string;
+    instanceId: string;
+  };
+  role: string;
+  scopes: string[];
+  caps: string[];
+  locale?: string;
+  userAgent?: string;
+  auth?: { token: string };
+  device?: {
+    id: string;
+    publicKey: string;
+    signature: string;
+    signedAt: number;
+    nonce?: string;
+  };
+};
+
+export type GatewayAgentSummary = {
+  id: string;
+  name?: string;
+  identityName?: string;
+  /** Narrows the gateway-wide limits for this agent's model; null when it takes no images. */
+  chatAttachments?: GatewayChatAttachmentFeature | null;
+};
+
+export type AgentsListResult = {
+  defaultId?: string;
+  agents: GatewayAgentSummary[];
+};
+
+export type GatewaySessionSummary = {
+  key: string;
+  /** Set by `sessions.patch`; shown instead of the key when present. */
+  label?: string;
+  displayName?: string;
+  /** Last activity, epoch ms. */
+  updatedAt?: number;
+  model?: string;
+  modelProvider?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+  contextTokens?: number;
+};
+
+export type SessionsListParams = {
+  includeGlobal?: boolean;
+  includeUnknown?: boolean;
+  limit?: number;
+  /** Only this agent's sessions; older gateways ignore it and list everything. */
+  agentId?: string;
+};
+
+export type SessionsListResult = {
+  sessions: GatewaySessionSummary[];
+};
+
+export type SessionsResolveParams = {
+  key: string;
+  includeGlobal?: boolean;
+};
+
+export type SessionsResolveResult = {
+  key: string;
+};
+
+export type SessionsPatchParams = {
+  key: string;
+  /** Null clears the label. */
+  label?: string | null;
+};
+
+export type SessionsPatchResult = {
+  key: string;
+};
+
+export type SessionsResetParams = {
+  key: string;
+};
+
+export type SessionsResetResult = {
+  key: string;
+};
+
+export type SessionsDeleteParams = {
+  key: string;
+  /** Also remove the transcript file, not just the session entry. */
+  deleteTranscript?: boolean;
+};
+
+export type SessionsDeleteResult = {
+  /** False when the gateway had no such session. */
+  deleted: boolean;
+};
+
+export type ChatHistoryParams = {
+  sessionKey: string;
+  limit?: number;
+  /** `nextCursor` of a previous page; returns the page of messages just before it. */
+  before?: string;
+};
+
+export type ChatHistoryResult = {
+  /** Raw transcript entries, oldest first; their content shape varies by provider and is mapped by the UI. */
+  messages: unknown[];
+  /** Present when the gateway pages history; absent on gateways that only return the latest `limit` messages. */
+  nextCursor?: string;
+  hasMore?: boolean;
+};
+
+export type ChatSendAttachment = {
+  type: "image";
+  mimeType: string;
+  content: string;
+  fileName: string;
+};
+
+export type ChatSendParams = {
+  sessionKey: string;
+  message: string;
+  attachments?: ChatSendAttachment[];
+  deliver?: boolean;
+  idempotencyKey: string;
+};
+
+export type ChatSendResult = {
+  runId?: string;
+  status?: string;
+};
+
+export type ChatAbortParams = {
+  sessionKey: string;
+  /** Omit to abort whatever is running in the session. */
+  runId?: string;
+};
+
+export type ChatAbortResult = {
+  /** False when nothing was running any more; absent on gateways that only ack. */
+  aborted?: boolean;
+  runIds: string[];
+};
+
+export type ChatEventState = "queued" | "running" | "delta" | "final" | "aborted" | "error";
+
+export type ChatEventPayload = {
+  runId: string;
+  sessionKey: string;
+  state: ChatEventState;
+  message?: unknown;
+  errorMessage?: string;
+};
+
+export type ConnectChallengePayload = {
+  nonce: string;
+};
+
+export type TickEventPayload = {
+  ts?: number;
+};
+
+/** One connected client or node as reported by the gateway's presence list. */
+export type GatewayPresenceEntry = {
+  /** Stable per-entry key: instance ID, then device ID, then host. */
+  key: string;
+  host?: string;
+  platform?: string;
+  mode?: string;
+  version?: string;
+  deviceId?: string;
+  instanceId?: string;
+  roles?: string[];
+  lastInputSeconds?: number;
+  reason?: string;
+  ts?: number;
+};
+
+export type PresenceEventPayload = {
+  presence: GatewayPresenceEntry[];
+};
+
+export type HealthEventPayload = {
+  ok: boolean;
+  ts?: number;
+  durationMs?: number;
+  /** Human-readable reason when the gateway reports itself unhealthy. */
+  summary?: string;
+};
+
+/** Agent run stream: "lifecycle" (phase start/end/error), "tool" (phase start/update/result) or provider-specific. */
+export type AgentEventPayload = {
+  runId: string;
+  stream: string;
+  seq?: number;
+  ts?: number;
+  sessionKey?: string;
+  data: JsonRecord;
+};
+
+export type DevicePairResolvedPayload = {
+  requestId?: string;
+  deviceId?: string;
+  decision: "approved" | "rejected";
+};
+
+/** Pairing details carried by a rejected `connect` when the device still needs operator approval. */
+export type GatewayPairingRequest = {
+  deviceId: string | null;
+  requestId?: string;
+  /** Short code the operator can match against the approval prompt, when the gateway issues one. */
+  pairingCode?: string;
+  expiresAt?: number;
+};
+
+const PAIRING_REQUIRED_CODES = new Set(["NOT_PAIRED", "PAIRING_REQUIRED", "DEVICE_NOT_PAIRED"]);
+
+/** Returns pairing details when a `connect` error means "waiting for approval", otherwise null. */
+export function parsePairingRequired(
+  error: { code?: string; message: string; details?: unknown },
+  deviceId: string | null,
+): GatewayPairingRequest | null {
+  const codeMatches = typeof error.code === "string" && PAIRING_REQUIRED_CODES.has(error.code.toUpperCase());
+  if (!codeMatches && !/pairing required|not paired/i.test(error.message)) {
+    return null;
+  }
+  const details = isRecord(error.details) ? error.details : {};
+  return {
+    deviceId: optionalString(details.deviceId) ?? deviceId,
+    requestId: optionalString(details.requestId),
+    pairingCode: optionalString(details.pairingCode) ?? optionalString(details.code),
+    expiresAt: optionalNumber(details.expiresAtMs) ?? optionalNumber(details.expiresAt),
+  };
+}
+
+/** Request method name -> params/result types understood by this client. */
+export type GatewayMethodMap = {
+  connect: { params: GatewayConnectParams; result: HelloOkPayload };
+  "agents.list": { params: Record<string, never>; result: AgentsListResult };
+  "sessions.list": { params: SessionsListParams; result: SessionsListResult };
+  "sessions.resolve": { params: SessionsResolveParams; result: SessionsResolveResult };
+  "sessions.patch": { params: SessionsPatchParams; result: SessionsPatchResult };
+  "sessions.reset": { params: SessionsResetParams; result: SessionsResetResult };
+  "sessions.delete": { params: SessionsDeleteParams; result: SessionsDeleteResult };
+  "chat.history": { params: ChatHistoryParams; result: ChatHistoryResult };
+  "chat.send": { params: ChatSendParams; result: ChatSendResult };
+  "chat.abort": { params: ChatAbortParams; result: ChatAbortResult };
+};
+
+export type GatewayMethod = keyof GatewayMethodMap;
+export type GatewayParams<M extends GatewayMethod> = GatewayMethodMap[M]["params"];
+export type GatewayResult<M extends GatewayMethod> = GatewayMethodMap[M]["result"];
+
+/** Broadcast event name -> payload type understood by this client. */
+export type GatewayEventMap = {
+  "connect.challenge": ConnectChallengePayload;
+  chat: ChatEventPayload;
+  tick: TickEventPayload;
+  "device.pair.resolved": DevicePairResolvedPayload;
+  presence: PresenceEventPayload;
+  health: HealthEventPayload;
+  agent: AgentEventPayload;
+};
+
+export type GatewayEventName = keyof GatewayEventMap;
+export type GatewayEventPayload<E extends GatewayEventName> = GatewayEventMap[E];
+
+const CHAT_EVENT_STATES: readonly ChatEventState[] = ["queued", "running", "delta", "final", "aborted", "error"];
+
+function parsePresenceList(entries: unknown[]): GatewayPresenceEntry[] {
+  const presence: GatewayPresenceEntry[] = [];
+  for (const candidate of entries) {
+    if (!isRecord(candidate)) {
+      continue;
+    }
+    const instanceId = optionalString(candidate.instanceId);
+    const deviceId = optionalString(candidate.deviceId);
+    const host = optionalString(candidate.host);
+    const key = instanceId ?? deviceId ?? host;
+    if (!key) {
+      continue;
+    }
+    presence.push({
+      key,
+      host,
+      platform: optionalString(candidate.platform),
+      mode: optionalString(candidate.mode),
+      version: optionalString(candidate.version),
+      deviceId,
+      instanceId,
+      roles: optionalStringArray(candidate.roles),
+      lastInputSeconds: optionalNumber(candidate.lastInputSeconds),
+      reason: optionalString(candidate.reason),
+      ts: optionalNumber(candidate.ts),
+    });
+  }
+  return presence;
+}
+
+function parseHealth(record: JsonRecord): HealthEventPayload {
+  return {
+    ok: record.ok !== false,
+    ts: optionalNumber(record.ts),
+    durationMs: optionalNumber(record.durationMs),
+    summary: optionalString(record.summary) ?? optionalString(record.error),
+  };
+}
+
+function validateHello(value: unknown): HelloOkPayload {
+  const record = expectRecord("connect", value);
+  if (typeof record.protocol !== "number") {
+    throw new GatewayProtocolError("connect", `"protocol" is not a number`);
+  }
+  const features = isRecord(record.features)
+    ? {
+        methods: optionalStringArray(record.features.methods),
+        events: optionalStringArray(record.features.events),
+        chatAttachments: isRecord(record.features.chatAttachments)
+          ? parseChatAttachmentFeature(record.features.chatAttachments)
+          : undefined,
+      }
+    : undefined;
+  const snapshot = isRecord(record.snapshot)
+    ? {
+        ...(record.snapshot as SnapshotShape),
+        presence: Array.isArray(record.snapshot.presence) ? parsePresenceList(record.snapshot.presence) : undefined,
+        health: isRecord(record.snapshot.health) ? parseHealth(record.snapshot.health) : undefined,
+      }
+    : undefined;
+  const policy = isRecord(record.policy) ? { tickIntervalMs: optionalNumber(record.policy.tickIntervalMs) } : undefined;
+  const auth = isRecord(record.auth)
+    ? { role: optionalString(record.auth.role), scopes: optionalStringArray(record.auth.scopes) }
+    : undefined;
+  return {
+    ...record,
+    type: "hello-ok",
+    protocol: record.protocol,
+    features,
+    snapshot,
+    policy,
+    auth,
+  };
+}
+
+function validateAgentsList(value: unknown): AgentsListResult {
+  const record = expectRecord("agents.list", value);
+  const agents: GatewayAgentSummary[] = [];
+  for (const candidate of expectArray("agents.list", record, "agents")) {
+    if (!isRecord(candidate) || typeof candidate.id !== "string" || !candidate.id.trim()) {
+      continue;
+    }
+    agents.push({
+      id: candidate.id.trim(),
+      name: optionalString(candidate.name),
+      identityName: isRecord(candidate.identity) ? optionalString(candidate.identity.name) : undefined,
+      chatAttachments:
+        candidate.chatAttachments === null
+          ? null
+          : isRecord(candidate.chatAttachments)
+            ? parseChatAttachmentFeature(candidate.chatAttachments)
+            : undefined,
+    });
+  }
+  return {
+    defaultId: optionalString(record.defaultId),
+    agents,
+  };
+}
+
+function validateSessionsList(value: unknown): SessionsListResult {
+  const record = expectRecord("sessions.list", value);
+  const sessions: GatewaySessionSummary[] = [];
+  for (const candidate of expectArray("sessions.list", record, "sessions")) {
+    if (!isRecord(candidate) || typeof candidate.key !== "string") {
+      continue;
+    }
+    const updatedAt = optionalNumber(candidate.updatedAt) ?? Date.parse(optionalString(candidate.updatedAt) ?? "");
+    sessions.push({
+      key: candidate.key.trim(),
+      label: optionalString(candidate.label)?.trim() || undefined,
+      displayName: optionalString(candidate.displayName)?.trim() || undefined,
+      updatedAt: Number.isFinite(updatedAt) ? updatedAt : undefined,
+      model: optionalString(candidate.model),
+      modelProvider: optionalString(candidate.modelProvider),
+      inputTokens: optionalNumber(candidate.inputTokens),
+      outputTokens: optionalNumber(candidate.outputTokens),
+      totalTokens: optionalNumber(candidate.totalTokens),
+      contextTokens: optionalNumber(candidate.contextTokens),
+    });
+  }
+  return { sessions };
+}
+
+function validateSessionsResolve(value: unknown): SessionsResolveResult {
+  const record = expectRecord("sessions.resolve", value);
+  if (typeof record.key !== "string" || !record.key.trim()) {
+    throw new GatewayProtocolError("sessions.resolve", `"key" is missing`);
+  }
+  return { key: record.key.trim() };
+}
+
+/** `sessions.patch` / `sessions.reset` may ack without a body; the key sent is then still the key. */
+function validateSessionKeyAck(source: string) {
+  return (value: unknown): { key: string } => {
+    if (value === undefined || value === null) {
+      return { key: "" };
+    }
+    const record = expectRecord(source, value);
+    const entry = isRecord(record.entry) ? record.entry : record;
+    return { key: optionalString(record.key)?.trim() || optionalString(entry.key)?.trim() || "" };
+  };
+}
+
+function validateSessionsDelete(value: unknown): SessionsDeleteResult {
+  if (value === undefined || value === null) {
+    return { deleted: true };
+  }
+  const record = expectRecord("sessions.delete", value);
+  return { deleted: typeof record.deleted === "boolean" ? record.deleted : record.ok !== false };
+}
+
+function validateChatHistory(value: unknown): ChatHistoryResult {
+  const record = expectRecord("chat.history", value);
+  return {
+    messages: expectArray("chat.history", record, "messages"),
+    nextCursor: optionalString(record.nextCursor) || undefined,
+    hasMore: typeof record.hasMore === "boolean" ? record.hasMore : undefined,
+  };
+}
+
+function validateChatSend(value: unknown): ChatSendResult {
+  // Some gateways acknowledge chat.send with an empty payload.
+  if (value === undefined || value === null) {
+    return {};
+  }
+  const record = expectRecord("chat.send", value);
+  const runId = optionalString(record.runId)?.trim();
+  return {
+    runId: runId || undefined,
+    status: optionalString(record.status),
+  };
+}
+
+function validateChatAbort(value: unknown): ChatAbortResult {
+  if (value === undefined || value === null) {
+    return { runIds: [] };
+  }
+  const record = expectRecord("chat.abort", value);
+  return {
+    aborted: typeof record.aborted === "boolean" ? record.aborted : undefined,
+    runIds: optionalStringArray(record.runIds) ?? [],
+  };
+}
+
+export const gatewayResultValidators: { [M in GatewayMethod]: (value: unknown) => GatewayResult<M> } = {
+  connect: validateHello,
+  "agents.list": validateAgentsList,
+  "sessions.list": validateSessionsList,
+  "sessions.resolve": validateSessionsResolve,
+  "sessions.patch": validateSessionKeyAck("sessions.patch"),
+  "sessions.reset": validateSessionKeyAck("sessions.reset"),
+  "sessions.delete": validateSessionsDelete,
+  "chat.history": validateChatHistory,
+  "chat.send": validateChatSend,
+  "chat.abort": validateChatAbort,
+};
+
+function validateConnectChallenge(value: unknown): ConnectChallengePayload {
+  const record = expectRecord("event connect.challenge", value);
+  if (typeof record.nonce !== "string" || !record.nonce) {
+    throw new GatewayProtocolError("event connect.challenge", `"nonce" is missing`);
+  }
+  return { nonce: record.nonce };
+}
+
+function validateChatEvent(value: unknown): ChatEventPayload {
+  const record = expectRecord("event chat", value);
+  const state = record.state;
+  if (typeof record.runId !== "string" || typeof record.sessionKey !== "string") {
+    throw new GatewayProtocolError("event chat", `"runId" or "sessionKey" is missing`);
+  }
+  if (typeof state !== "string" || !CHAT_EVENT_STATES.includes(state as ChatEventState)) {
+    throw new GatewayProtocolError("event chat", `unknown state ${JSON.stringify(state)}`);
+  }
+  return {
+    runId: record.runId,
+    sessionKey: record.sessionKey,
+    state: state as ChatEventState,
+    message: record.message,
+    errorMessage: optionalString(record.errorMessage),
+  };
+}
+
+function validateTick(value: unknown): TickEventPayload {
+  return { ts: isRecord(value) ? optionalNumber(value.ts) : undefined };
+}
+
+function validateDevicePairResolved(value: unknown): DevicePairResolvedPayload {
+  const record = expectRecord("event device.pair.resolved", value);
+  if (record.decision !== "approved" && record.decision !== "rejected") {
+    throw new GatewayProtocolError("event device.pair.resolved", `unknown decision ${JSON.stringify(record.decision)}`);
+  }
+  return {
+    requestId: optionalString(record.requestId),
+    deviceId: optionalString(record.deviceId),
+    decision: record.decision,
+  };
+}
+
+function validatePresence(value: unknown): PresenceEventPayload {
+  const record = expectRecord("event presence", value);
+  return { presence: parsePresenceList(expectArray("event presence", record, "presence")) };
+}
+
+function validateHealth(value: unknown): HealthEventPayload {
+  return parseHealth(expectRecord("event health", value));
+}
+
+function validateAgentEvent(value: unknown): AgentEventPayload {
+  const record = expectRecord("event agent", value);
+  if (typeof record.runId !== "string" || typeof record.stream !== "string") {
+    throw new GatewayProtocolError("event agent", `"runId" or "stream" is missing`);
+  }
+  return {
+    runId: record.runId,
+    stream: record.stream,
+    seq: optionalNumber(record.seq),
+    ts: optionalNumber(record.ts),
+    sessionKey: optionalString(record.sessionKey),
+    data: isRecord(record.data) && !Array.isArray(record.data) ? record.data : {},
+  };
+}
+
+export const gatewayEventValidators: { [E in GatewayEventName]: (value: unknown) => GatewayEventPayload<E> } = {
+  "connect.challenge": validateConnectChallenge,
+  chat: validateChatEvent,
+  tick: validateTick,
+  "device.pair.resolved": validateDevicePairResolved,
+  presence: validatePresence,
+  health: validateHealth,
+  agent: validateAgentEvent,
+};
+
+export function isKnownGatewayEvent(event: string): event is GatewayEventName {
+  return Object.prototype.hasOwnProperty.call(gatewayEventValidators, event);
+}
@@ -1,7 +1,40 @@
+import { DEFAULT_CONNECTION_PROFILE_ID, getConnectionProfile } from "./connectionProfiles";
+import { buildDeviceAuthPayload, loadOrCreateDeviceIdentity, signDevicePayload } from "./deviceIdentity";
+import {
+  GATEWAY_SOCKET_OPEN,
+  type GatewayEnvironment,
+  type GatewaySocket,
+  type GatewaySocketEvent,
+  type GatewayTimerHandle,
+  resolveGatewayEnvironment,
+} from "./gatewayEnvironment";
+import {
+  type GatewayConnectParams,
+  type GatewayEventName,
+  type GatewayEventPayload,
+  type GatewayMethod,
+  type GatewayPairingRequest,
+  type GatewayParams,
+  GatewayProtocolError,
+  type GatewayResult,
+  type HelloOkPayload,
+  gatewayEventValidators,
+  gatewayResultValidators,
+  isKnownGatewayEvent,
+  parsePairingRequired,
+} from "./gatewayProtocol";
+
 type JsonRecord = Record<string, unknown>;
 
-const DEVICE_STORE_KEY = "openclaw.gateway.device.v1";
 const WS_CONNECT_TIMEOUT_MS = 700;
+const RECONNECT_BASE_DELAY_MS = 800;
+const RECONNECT_MAX_DELAY_MS = 15000;
+const RECONNECT_MAX_ATTEMPTS = 20;
+const LIVENESS_MISSED_TICKS = 3;
+const LIVENESS_MIN_INTERVAL_MS = 1000;
+const DEFAULT_REQUEST_TIMEOUT_MS = 8000;
+const PAIRING_POLL_INTERVAL_MS = 5000;
+const PAIRING_MAX_WAIT_MS = 10 * 60 * 1000;
 
 function isRecord(value: unknown): value is JsonRecord {
   return typeof value === "object" && value !== null;
@@ -14,162 +47,6 @@ function createId(): string {
   return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
 }
 
-function toBase64Url(bytes: Uint8Array): string {
-  let binary = "";
-  for (let index = 0; index < bytes.length; index += 1) {
-    binary += String.fromCharCode(bytes[index]);
-  }
-  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/g, "");
-}
-
-function fromBase64Url(value: string): Uint8Array {
-  const normalized = value.replace(/-/g, "+").replace(/_/g, "/");
-  const padded = normalized + "=".repeat((4 - (normalized.length % 4)) % 4);
-  const binary = atob(padded);
-  const bytes = new Uint8Array(binary.length);
-  for (let index = 0; index < binary.length; index += 1) {
-    bytes[index] = binary.charCodeAt(index);
-  }
-  return bytes;
-}
-
-function bytesToHex(bytes: Uint8Array): string {
-  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
-}
-
-function supportsEd25519(): boolean {
-  return typeof crypto !== "undefined" && typeof crypto.subtle !== "undefined";
-}
-
-async function sha256Hex(bytes: Uint8Array): Promise<string> {
-  const normalized = new Uint8Array(bytes.length);
-  normalized.set(bytes);
-  const digest = await crypto.subtle.digest("SHA-256", normalized);
-  return bytesToHex(new Uint8Array(digest));
-}
-
-type StoredDeviceIdentity = {
-  deviceId: string;
-  publicKey: string;
-  privateKeyJwk: JsonWebKey;
-};
-
-type DeviceIdentity = {
-  deviceId: string;
-  publicKey: string;
-  privateKey: CryptoKey;
-};
-
-async function importStoredPrivateKey(jwk: JsonWebKey): Promise<CryptoKey> {
-  return crypto.subtle.importKey(
-    "jwk",
-    jwk,
-    { name: "Ed25519" },
-    false,
-    ["sign"],
-  );
-}
-
-async function createAndPersistDeviceIdentity(): Promise<DeviceIdentity | null> {
-  if (!supportsEd25519()) {
-    return null;
-  }
-
-  try {
-    const keyPair = await crypto.subtle.generateKey(
-      { name: "Ed25519" },
-      true,
-      ["sign", "verify"],
-    );
-    const publicRaw = new Uint8Array(await crypto.subtle.exportKey("raw", keyPair.publicKey));
-    const privateKeyJwk = await crypto.subtle.exportKey("jwk", keyPair.privateKey);
-    const publicKey = toBase64Url(publicRaw);
-    const deviceId = await sha256Hex(publicRaw);
-
-    const stored: StoredDeviceIdentity = {
-      deviceId,
-      publicKey,
-      privateKeyJwk,
-    };
-    localStorage.setItem(DEVICE_STORE_KEY, JSON.stringify(stored));
-
-    return {
-      deviceId,
-      publicKey,
-      privateKey: keyPair.privateKey,
-    };
-  } catch {
-    return null;
-  }
-}
-
-async function loadOrCreateDeviceIdentity(): Promise<DeviceIdentity | null> {
-  if (!supportsEd25519()) {
-    return null;
-  }
-
-  try {
-    const raw = localStorage.getItem(DEVICE_STORE_KEY);
-    if (!raw) {
-      return createAndPersistDeviceIdentity();
-    }
-
-    const stored = JSON.parse(raw) as StoredDeviceIdentity;
-    if (
-      typeof stored.deviceId !== "string" ||
-      typeof stored.publicKey !== "string" ||
-      !isRecord(stored.privateKeyJwk)
-    ) {
-      return createAndPersistDeviceIdentity();
-    }
-
-    const privateKey = await importStoredPrivateKey(stored.privateKeyJwk);
-    const normalizedPublicKey = toBase64Url(fromBase64Url(stored.publicKey));
-    return {
-      deviceId: stored.deviceId,
-      publicKey: normalizedPublicKey,
-      privateKey,
-    };
-  } catch {
-    return createAndPersistDeviceIdentity();
-  }
-}
-
-function buildDeviceAuthPayload(params: {
-  deviceId: string;
-  clientId: string;
-  clientMode: string;
-  role: string;
-  scopes: string[];
-  signedAtMs: number;
-  token: string | null;
-  nonce?: string;
-}): string {
-  const version = params.nonce ? "v2" : "v1";
-  const payload = [
-    version,
-    params.deviceId,
-    params.clientId,
-    params.clientMode,
-    params.role,
-    params.scopes.join(","),
-    String(params.signedAtMs),
-    params.token ?? "",
-  ];
-
-  if (version === "v2") {
-    payload.push(params.nonce ?? "");
-  }
-
-  return payload.join("|");
-}
-
-async function signDevicePayload(privateKey: CryptoKey, payload: string): Promise<string> {
-  const data = new TextEncoder().encode(payload);
-  const signature = await crypto.subtle.sign("Ed25519", privateKey, data);
-  return toBase64Url(new Uint8Array(signature));
-}
-
 export type GatewayEventFrame = {
   type: "event";
   event: string;
@@ -184,7 +61,9 @@ type GatewayResponseFrame = {
   ok: boolean;
   payload?: unknown;
   error?: {
+    code?: string;
     message?: string;
+    details?: unknown;
   };
 };
 
@@ -198,32 +77,86 @@ type GatewayRequestFrame = {
 type GatewayFrame = GatewayResponseFrame | GatewayEventFrame;
 
 type PendingRequest = {
+  method: string;
   resolve: (value: unknown) => void;
   reject: (reason: Error) => void;
+  startedAt: number;
+  timeoutMs: number;
+  timer: GatewayTimerHandle | null;
+  detachSignal: (() => void) | null;
 };
 
-type SnapshotSessionDefaults = {
-  defaultAgentId?: string;
-  mainKey?: string;
-  mainSessionKey?: string;
-  scope?: string;
+export type GatewayRequestOptions = {
+  /** Overrides the client-wide timeout; 0 disables the timeout for this request. */
+  timeoutMs?: number;
+  signal?: AbortSignal;
 };
 
-type SnapshotShape = {
-  sessionDefaults?: SnapshotSessionDefaults;
+export type GatewayInflightRequest = {
+  id: string;
+  method: string;
+  startedAt: number;
+  timeoutMs: number;
 };
 
-export type HelloOkPayload = {
-  type: "hello-ok";
-  protocol: number;
-  features?: {
-    methods?: string[];
-    events?: string[];
-  };
-  snapshot?: SnapshotShape;
-  policy?: {
-    tickIntervalMs?: number;
-  };
+export type GatewayRequestFailure = "timeout" | "aborted" | "rejected";
+
+export class GatewayRequestError extends Error {
+  readonly method: string;
+  readonly kind: GatewayRequestFailure;
+  /** Gateway error code and details; only set for "rejected" failures. */
+  readonly code?: string;
+  readonly details?: unknown;
+
+  constructor(
+    method: string,
+    kind: GatewayRequestFailure,
+    message: string,
+    info: { code?: string; details?: unknown } = {},
+  ) {
+    super(message);
+    this.name = "GatewayRequestError";
+    this.method = method;
+    this.kind = kind;
+    this.code = info.code;
+    this.details = info.details;
+  }
+}
+
+type TypedEventHandler = (payload: unknown, frame: GatewayEventFrame) => void;
+
+export type GatewayReconnectOptions = {
+  enabled?: boolean;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  maxAttempts?: number;
+};
+
+export type GatewayLivenessSample = {
+  /** Epoch millis of the last frame of any kind received from the gateway. */
+  lastSeenAt: number;
+  /** Round-trip time of the most recent request/response pair, if any. */
+  latencyMs: number | null;
+};
+
+export type GatewaySequenceGap = {
+  expected: number;
+  received: number;
+  /** The first frame after the gap; it is still delivered to event handlers. */
+  frame: GatewayEventFrame;
+};
+
+/** Raw wire traffic, for debugging tools; `frame` is null when the text was not valid JSON. */
+export type GatewayFrameTrace = {
+  direction: "in" | "out";
+  at: number;
+  raw: string;
+  frame: unknown;
+};
+
+export type GatewayHelloInfo = {
+  /** True when this hello completes an automatic reconnect rather than the initial connect. */
+  resumed: boolean;
 };
 
 type ClientOptions = {
@@ -231,66 +164,163 @@ type ClientOptions = {
   token?: string;
   clientId?: string;
   clientVersion?: string;
-  onHello?: (hello: HelloOkPayload) => void;
+  /** Role and scopes requested in `connect`; defaults to the least-privileged profile. */
+  role?: string;
+  scopes?: string[];
+  requestTimeoutMs?: number;
+  reconnect?: GatewayReconnectOptions;
+  onHello?: (hello: HelloOkPayload, info: GatewayHelloInfo) => void;
+  onReconnecting?: (attempt: number, delayMs: number) => void;
+  onLiveness?: (sample: GatewayLivenessSample) => void;
+  onSequenceGap?: (gap: GatewaySequenceGap) => void;
+  /**
+   * The device is waiting for operator approval. The client keeps retrying `connect`
+   * (and retries immediately on a `device.pair.resolved` approval) until approved or stopped.
+   */
+  onPairingRequired?: (request: GatewayPairingRequest) => void;
   onClose?: (code: number, reason: string) => void;
   onError?: (error: Error) => void;
+  /** Payloads that fail validation; the connection itself stays usable. */
+  onProtocolError?: (error: GatewayProtocolError) => void;
+  /** Socket factory, timers, storage and platform info; browser globals are used for anything omitted. */
+  environment?: Partial<GatewayEnvironment>;
 };
 
+function computeReconnectDelay(attempt: number, options: GatewayReconnectOptions | undefined): number {
+  const baseDelay = options?.baseDelayMs ?? RECONNECT_BASE_DELAY_MS;
+  const maxDelay = options?.maxDelayMs ?? RECONNECT_MAX_DELAY_MS;
+  const exponential = Math.min(maxDelay, baseDelay * 2 ** Math.max(0, attempt - 1));
+  // Jitter between 50% and 100% so a fleet of phones does not reconnect in lockstep.
+  return Math.round(exponential * (0.5 + Math.random() * 0.5));
+}
+
 export class OpenClawGatewayClient {
   private readonly options: ClientOptions;
+  private readonly env: GatewayEnvironment;
   private readonly pending = new Map<string, PendingRequest>();
   private readonly eventHandlers = new Set<(frame: GatewayEventFrame) => void>();
-  private ws: WebSocket | null = null;
-  private connectTimer: number | null = null;
+  private readonly typedEventHandlers = new Map<GatewayEventName, Set<TypedEventHandler>>();
+  private readonly inflightHandlers = new Set<(requests: GatewayInflightRequest[]) => void>();
+  private readonly frameHandlers = new Set<(trace: GatewayFrameTrace) => void>();
+  private ws: GatewaySocket | null = null;
+  private connectTimer: GatewayTimerHandle | null = null;
+  private reconnectTimer: GatewayTimerHandle | null = null;
+  private reconnectAttempt = 0;
+  private livenessTimer: GatewayTimerHandle | null = null;
+  private lastFrameAt = 0;
+  private latencyMs: number | null = null;
+  private lastEventSeq: number | null = null;
   private connectNonce: string | null = null;
   private connectSent = false;
+  private connectRejected = false;
+  private connectDeviceId: string | null = null;
+  private pairingRequest: GatewayPairingRequest | null = null;
+  private pairingStartedAt = 0;
+  private pairingTimer: GatewayTimerHandle | null = null;
+  private helloReceived = false;
   private disposed = false;
-  private deviceIdentityPromise: Promise<DeviceIdentity | null> | null = null;
   private readonly instanceId = createId();
   hello: HelloOkPayload | null = null;
 
   constructor(options: ClientOptions) {
     this.options = options;
+    this.env = resolveGatewayEnvironment(options.environment);
   }
 
   get connected(): boolean {
-    return this.ws?.readyState === WebSocket.OPEN;
+    return this.ws?.readyState === GATEWAY_SOCKET_OPEN;
   }
 
   start(): void {
     this.stop();
     this.disposed = false;
     this.hello = null;
-    this.ws = new WebSocket(this.options.url);
-    this.ws.addEventListener("open", this.handleOpen);
-    this.ws.addEventListener("message", this.handleMessage);
-    this.ws.addEventListener("close", this.handleClose);
-    this.ws.addEventListener("error", this.handleSocketError);
+    this.helloReceived = false;
+    this.reconnectAttempt = 0;
+    this.openSocket();
+  }
+
+  /** Pairing details while the device waits for approval, otherwise null. */
+  get pendingPairing(): GatewayPairingRequest | null {
+    return this.pairingRequest;
   }
 
   stop(): void {
     this.disposed = true;
     this.clearConnectTimer();
+    this.clearReconnectTimer();
+    this.clearPairingTimer();
+    this.pairingRequest = null;
+    this.stopLivenessWatch();
     this.connectSent = false;
     this.connectNonce = null;
     if (this.ws) {
+      this.detachSocket(this.ws);
       this.ws.close(1000, "client stop");
       this.ws = null;
     }
     this.flushPending(new Error("gateway client stopped"));
   }
 
-  onEvent(handler: (frame: GatewayEventFrame) => void): () => void {
+  /** Subscribes to a known event; payloads are validated before the handler runs. */
+  onEvent<E extends GatewayEventName>(
+    event: E,
+    handler: (payload: GatewayEventPayload<E>, frame: GatewayEventFrame) => void,
+  ): () => void {
+    const handlers = this.typedEventHandlers.get(event) ?? new Set<TypedEventHandler>();
+    const typedHandler = handler as TypedEventHandler;
+    handlers.add(typedHandler);
+    this.typedEventHandlers.set(event, handlers);
+    return () => {
+      handlers.delete(typedHandler);
+    };
+  }
+
+  /** Subscribes to every event frame, including events this client has no schema for. */
+  onAnyEvent(handler: (frame: GatewayEventFrame) => void): () => void {
     this.eventHandlers.add(handler);
     return () => {
       this.eventHandlers.delete(handler);
     };
   }
 
-  request<T = unknown>(method: string, params?: unknown): Promise<T> {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+  /** Snapshot of requests still waiting for a response, oldest first. */
+  getInflightRequests(): GatewayInflightRequest[] {
+    return Array.from(this.pending.entries(), ([id, pending]) => ({
+      id,
+      method: pending.method,
+      startedAt: pending.startedAt,
+      timeoutMs: pending.timeoutMs,
+    }));
+  }
+
+  onInflightChange(handler: (requests: GatewayInflightRequest[]) => void): () => void {
+    this.inflightHandlers.add(handler);
+    return () => {
+      this.inflightHandlers.delete(handler);
+    };
+  }
+
+  /** Observes every frame sent or received, including unparsable and unknown ones. */
+  onFrame(handler: (trace: GatewayFrameTrace) => void): () => void {
+    this.frameHandlers.add(handler);
+    return () => {
+      this.frameHandlers.delete(handler);
+    };
+  }
+
+  request<M extends GatewayMethod>(
+    method: M,
+    params: GatewayParams<M>,
+    options: GatewayRequestOptions = {},
+  ): Promise<GatewayResult<M>> {
+    if (!this.ws || this.ws.readyState !== GATEWAY_SOCKET_OPEN) {
       return Promise.reject(new Error("gateway not connected"));
     }
+    const { signal } = options;
+    if (signal?.aborted) {
+      return Promise.reject(new GatewayRequestError(method, "aborted", `${method} 请求已取消`));
+    }
 
     const id = createId();
     const frame: GatewayRequestFrame = {
@@ -299,37 +329,250 @@ export class OpenClawGatewayClient {
       method,
       params,
     };
-
-    const promise = new Promise<T>((resolve, reject) => {
-      this.pending.set(id, {
-        resolve: (value) => resolve(value as T),
+    const timeoutMs = options.timeoutMs ?? this.options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+
+    const validate = gatewayResultValidators[method] as (value: unknown) => GatewayResult<M>;
+    const promise = new Promise<GatewayResult<M>>((resolve, reject) => {
+      const pending: PendingRequest = {
+        method,
+        resolve: (value) => {
+          try {
+            resolve(validate(value));
+          } catch (error) {
+            reject(error instanceof Error ? error : new Error(String(error)));
+          }
+        },
         reject,
-      });
+        startedAt: this.env.timers.now(),
+        timeoutMs,
+        timer: null,
+        detachSignal: null,
+      };
+      if (timeoutMs > 0) {
+        pending.timer = this.env.timers.setTimeout(() => {
+          if (this.settlePending(id)) {
+            reject(new GatewayRequestError(method, "timeout", `${method} 请求超时`));
+          }
+        }, timeoutMs);
+      }
+      if (signal) {
+        const onAbort = () => {
+          if (this.settlePending(id)) {
+            reject(new GatewayRequestError(method, "aborted", `${method} 请求已取消`));
+          }
+        };
+        signal.addEventListener("abort", onAbort, { once: true });
+        pending.detachSignal = () => signal.removeEventListener("abort", onAbort);
+      }
+      this.pending.set(id, pending);
     });
 
-    this.ws.send(JSON.stringify(frame));
+    const raw = JSON.stringify(frame);
+    this.ws.send(raw);
+    this.emitFrame("out", raw, frame);
+    this.emitInflight();
     return promise;
   }
 
+  private openSocket(): void {
+    this.connectRejected = false;
+    // Sequence numbers are scoped to a single gateway connection.
+    this.lastEventSeq = null;
+    this.ws = this.env.createSocket(this.options.url);
+    this.ws.addEventListener("open", this.handleOpen);
+    this.ws.addEventListener("message", this.handleMessage);
+    this.ws.addEventListener("close", this.handleClose);
+    this.ws.addEventListener("error", this.handleSocketError);
+  }
+
+  private detachSocket(ws: GatewaySocket): void {
+    ws.removeEventListener("open", this.handleOpen);
+    ws.removeEventListener("message", this.handleMessage);
+    ws.removeEventListener("close", this.handleClose);
+    ws.removeEventListener("error", this.handleSocketError);
+  }
+
+  private startLivenessWatch(tickIntervalMs: number | undefined): void {
+    this.stopLivenessWatch();
+    if (typeof tickIntervalMs !== "number" || !Number.isFinite(tickIntervalMs) || tickIntervalMs <= 0) {
+      return;
+    }
+    const deadlineMs = Math.max(LIVENESS_MIN_INTERVAL_MS, tickIntervalMs) * LIVENESS_MISSED_TICKS;
+    this.livenessTimer = this.env.timers.setInterval(() => {
+      if (this.env.timers.now() - this.lastFrameAt <= deadlineMs) {
+        return;
+      }
+      this.abandonSocket(4000, `no gateway frames for ${deadlineMs}ms`);
+    }, Math.max(LIVENESS_MIN_INTERVAL_MS, Math.round(tickIntervalMs / 2)));
+  }
+
+  private stopLivenessWatch(): void {
+    if (this.livenessTimer !== null) {
+      this.env.timers.clearInterval(this.livenessTimer);
+      this.livenessTimer = null;
+    }
+  }
+
+  /**
+   * Drops a half-open socket without waiting for the close handshake, which
+   * may never complete when the peer is gone.
+   */
+  private abandonSocket(code: number, reason: string): void {
+    const ws = this.ws;
+    if (!ws) {
+      return;
+    }
+    this.detachSocket(ws);
+    try {
+      ws.close(code, reason);
+    } catch {
+      // Socket already unusable.
+    }
+    this.handleSocketClosed(code, reason);
+  }
+
+  private emitLiveness(): void {
+    this.options.onLiveness?.({
+      lastSeenAt: this.lastFrameAt,
+      latencyMs: this.latencyMs,
+    });
+  }
+
+  private shouldReconnect(code: number): boolean {
+    if (this.options.reconnect?.enabled === false) {
+      return false;
+    }
+    // Normal closure and rejected handshakes (bad token etc.) are not transient, and a
+    // gateway that never completed a handshake is reported as a failed connect instead.
+    return code !== 1000 && !this.connectRejected && this.helloReceived;
+  }
+
+  private scheduleReconnect(code: number, reason: string): void {
+    const maxAttempts = this.options.reconnect?.maxAttempts ?? RECONNECT_MAX_ATTEMPTS;
+    if (this.reconnectAttempt >= maxAttempts) {
+      this.options.onClose?.(code, reason);
+      return;
+    }
+    this.reconnectAttempt += 1;
+    const delayMs = computeReconnectDelay(this.reconnectAttempt, this.options.reconnect);
+    this.options.onReconnecting?.(this.reconnectAttempt, delayMs);
+    this.clearReconnectTimer();
+    this.reconnectTimer = this.env.timers.setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.disposed) {
+        this.openSocket();
+      }
+    }, delayMs);
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer !== null) {
+      this.env.timers.clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private awaitPairing(request: GatewayPairingRequest): void {
+    if (!this.pairingRequest) {
+      this.pairingStartedAt = this.env.timers.now();
+    }
+    if (this.env.timers.now() - this.pairingStartedAt > PAIRING_MAX_WAIT_MS) {
+      this.pairingRequest = null;
+      this.connectRejected = true;
+      this.options.onError?.(new Error("device pairing was not approved in time"));
+      this.ws?.close(4008, "pairing timed out");
+      return;
+    }
+    this.pairingRequest = request;
+    this.options.onPairingRequired?.(request);
+    // Keep the socket open until the next poll so a `device.pair.resolved` event can short-circuit the wait.
+    this.schedulePairingPoll();
+  }
+
+  private schedulePairingPoll(): void {
+    this.clearPairingTimer();
+    this.pairingTimer = this.env.timers.setTimeout(() => {
+      this.pairingTimer = null;
+      this.retryPairedConnect();
+    }, PAIRING_POLL_INTERVAL_MS);
+  }
+
+  /** Reconnects at once with a fresh challenge. */
+  private retryPairedConnect(): void {
+    if (this.disposed) {
+      return;
+    }
+    if (this.ws) {
+      // handleSocketClosed re-arms the poll timer; this retry does not wait for it.
+      this.abandonSocket(4009, "pairing retry");
+    }
+    if (this.disposed || !this.pairingRequest) {
+      return;
+    }
+    this.clearPairingTimer();
+    this.openSocket();
+  }
+
+  private clearPairingTimer(): void {
+    if (this.pairingTimer !== null) {
+      this.env.timers.clearTimeout(this.pairingTimer);
+      this.pairingTimer = null;
+    }
+  }
+
   private clearConnectTimer(): void {
     if (this.connectTimer !== null) {
-      window.clearTimeout(this.connectTimer);
+      this.env.timers.clearTimeout(this.connectTimer);
       this.connectTimer = null;
     }
   }
 
+  /** Removes a pending entry and its timer/abort hooks; null when it was already settled. */
+  private settlePending(id: string): PendingRequest | null {
+    const pending = this.pending.get(id);
+    if (!pending) {
+      return null;
+    }
+    this.pending.delete(id);
+    if (pending.timer !== null) {
+      this.env.timers.clearTimeout(pending.timer);
+    }
+    pending.detachSignal?.();
+    this.emitInflight();
+    return pending;
+  }
+
   private flushPending(error: Error): void {
-    for (const pending of this.pending.values()) {
-      pending.reject(error);
+    for (const id of Array.from(this.pending.keys())) {
+      this.settlePending(id)?.reject(error);
+    }
+  }
+
+  private emitFrame(direction: GatewayFrameTrace["direction"], raw: string, frame: unknown): void {
+    if (this.frameHandlers.size === 0) {
+      return;
+    }
+    const trace: GatewayFrameTrace = { direction, at: this.env.timers.now(), raw, frame };
+    for (const handler of this.frameHandlers) {
+      handler(trace);
+    }
+  }
+
+  private emitInflight(): void {
+    if (this.inflightHandlers.size === 0) {
+      return;
+    }
+    const snapshot = this.getInflightRequests();
+    for (const handler of this.inflightHandlers) {
+      handler(snapshot);
     }
-    this.pending.clear();
   }
 
   private readonly handleOpen = (): void => {
     this.connectNonce = null;
     this.connectSent = false;
     this.clearConnectTimer();
-    this.connectTimer = window.setTimeout(() => {
+    this.connectTimer = this.env.timers.setTimeout(() => {
       void this.sendConnect();
     }, WS_CONNECT_TIMEOUT_MS);
   };
@@ -338,66 +581,150 @@ export class OpenClawGatewayClient {
     this.options.onError?.(new Error("websocket transport error"));
   };
 
-  private readonly handleClose = (event: CloseEvent): void => {
+  private readonly handleClose = (event: GatewaySocketEvent): void => {
+    this.handleSocketClosed(event.code ?? 1006, event.reason || "");
+  };
+
+  private handleSocketClosed(code: number, reason: string): void {
     this.clearConnectTimer();
+    this.stopLivenessWatch();
     this.connectSent = false;
     this.connectNonce = null;
-    this.flushPending(new Error(`gateway closed (${event.code}): ${event.reason || "no reason"}`));
+    this.flushPending(new Error(`gateway closed (${code}): ${reason || "no reason"}`));
     this.ws = null;
-    if (!this.disposed) {
-      this.options.onClose?.(event.code, event.reason || "");
+    if (this.disposed) {
+      return;
     }
-  };
+    if (this.pairingRequest) {
+      if (this.env.timers.now() - this.pairingStartedAt > PAIRING_MAX_WAIT_MS) {
+        this.clearPairingTimer();
+        this.pairingRequest = null;
+        this.options.onError?.(new Error("device pairing was not approved in time"));
+        this.options.onClose?.(code, reason);
+        return;
+      }
+      // Keep polling at the pairing interval, even when the gateway itself is unreachable.
+      if (this.pairingTimer === null) {
+        this.schedulePairingPoll();
+      }
+      return;
+    }
+    if (this.shouldReconnect(code)) {
+      this.scheduleReconnect(code, reason);
+      return;
+    }
+    this.options.onClose?.(code, reason);
+  }
 
-  private readonly handleMessage = (event: MessageEvent<string>): void => {
+  private readonly handleMessage = (event: GatewaySocketEvent): void => {
+    const raw = String(event.data);
     let frame: GatewayFrame;
     try {
-      frame = JSON.parse(String(event.data));
+      frame = JSON.parse(raw);
     } catch {
+      this.emitFrame("in", raw, null);
       return;
     }
+    this.emitFrame("in", raw, frame);
+    this.lastFrameAt = this.env.timers.now();
 
     if (frame.type === "event") {
-      if (frame.event === "connect.challenge" && isRecord(frame.payload)) {
-        const nonce = frame.payload.nonce;
-        if (typeof nonce === "string" && nonce.length > 0) {
-          this.connectNonce = nonce;
-          void this.sendConnect();
+      if (typeof frame.seq === "number" && Number.isFinite(frame.seq)) {
+        const lastSeq = this.lastEventSeq;
+        if (lastSeq !== null && frame.seq <= lastSeq) {
+          // Duplicate or reordered frame older than state already applied.
+          return;
+        }
+        this.lastEventSeq = frame.seq;
+        if (lastSeq !== null && frame.seq > lastSeq + 1) {
+          this.options.onSequenceGap?.({ expected: lastSeq + 1, received: frame.seq, frame });
         }
       }
-
-      for (const handler of this.eventHandlers) {
-        handler(frame);
-      }
+      this.dispatchEvent(frame);
       return;
     }
 
-    const pending = this.pending.get(frame.id);
+    const pending = this.settlePending(frame.id);
     if (!pending) {
       return;
     }
-    this.pending.delete(frame.id);
+    this.latencyMs = this.lastFrameAt - pending.startedAt;
+    this.emitLiveness();
     if (frame.ok) {
       pending.resolve(frame.payload);
       return;
     }
 
     let message = "request failed";
-    if (isRecord(frame.error) && typeof frame.error.message === "string") {
-      message = frame.error.message;
+    let code: string | undefined;
+    let details: unknown;
+    if (isRecord(frame.error)) {
+      if (typeof frame.error.message === "string") {
+        message = frame.error.message;
+      }
+      code = typeof frame.error.code === "string" ? frame.error.code : undefined;
+      details = frame.error.details;
     }
-    pending.reject(new Error(message));
+    pending.reject(new GatewayRequestError(pending.method, "rejected", message, { code, details }));
   };
 
-  private async getDeviceIdentity(): Promise<DeviceIdentity | null> {
-    if (!this.deviceIdentityPromise) {
-      this.deviceIdentityPromise = loadOrCreateDeviceIdentity();
+  private dispatchEvent(frame: GatewayEventFrame): void {
+    if (isKnownGatewayEvent(frame.event)) {
+      let payload: unknown;
+      try {
+        payload = gatewayEventValidators[frame.event](frame.payload);
+      } catch (error) {
+        if (error instanceof GatewayProtocolError) {
+          this.options.onProtocolError?.(error);
+        }
+        payload = undefined;
+      }
+
+      if (payload !== undefined) {
+        if (frame.event === "connect.challenge") {
+          this.connectNonce = (payload as GatewayEventPayload<"connect.challenge">).nonce;
+          void this.sendConnect();
+        }
+        if (frame.event === "tick") {
+          this.emitLiveness();
+        }
+        if (frame.event === "device.pair.resolved") {
+          this.handlePairResolved(payload as GatewayEventPayload<"device.pair.resolved">);
+        }
+        for (const handler of this.typedEventHandlers.get(frame.event) ?? []) {
+          handler(payload, frame);
+        }
+      }
+    }
+
+    for (const handler of this.eventHandlers) {
+      handler(frame);
     }
-    return this.deviceIdentityPromise;
+  }
+
+  private handlePairResolved(payload: GatewayEventPayload<"device.pair.resolved">): void {
+    const request = this.pairingRequest;
+    if (!request) {
+      return;
+    }
+    const matchesDevice = !payload.deviceId || payload.deviceId === request.deviceId;
+    const matchesRequest = !payload.requestId || !request.requestId || payload.requestId === request.requestId;
+    if (!matchesDevice || !matchesRequest) {
+      return;
+    }
+    if (payload.decision === "approved") {
+      this.retryPairedConnect();
+      return;
+    }
+    this.clearPairingTimer();
+    this.pairingRequest = null;
+    this.connectRejected = true;
+    this.options.onError?.(new Error("device pairing was rejected"));
+    this.ws?.close(4008, "pairing rejected");
   }
 
   private async sendConnect(): Promise<void> {
-    if (this.connectSent || !this.ws || this.ws.readyState !== WebSocket.OPEN) {
+    if (this.connectSent || !this.ws || this.ws.readyState !== GATEWAY_SOCKET_OPEN) {
       return;
     }
 
@@ -406,23 +733,17 @@ export class OpenClawGatewayClient {
 
     const clientId = this.options.clientId ?? "webchat-ui";
     const clientMode = "webchat";
-    const role = "operator";
-    const scopes = ["operator.admin"];
+    const defaultProfile = getConnectionProfile(DEFAULT_CONNECTION_PROFILE_ID);
+    const role = this.options.role ?? defaultProfile.role;
+    const scopes = this.options.scopes ?? defaultProfile.scopes;
     const token = this.options.token?.trim() || null;
-    let device:
-      | {
-          id: string;
-          publicKey: string;
-          signature: string;
-          signedAt: number;
-          nonce?: string;
-        }
-      | undefined;
+    let device: GatewayConnectParams["device"];
 
     try {
-      const identity = await this.getDeviceIdentity();
+      const identity = await loadOrCreateDeviceIdentity(this.env.storage);
+      this.connectDeviceId = identity?.deviceId ?? null;
       if (identity) {
-        const signedAt = Date.now();
+        const signedAt = this.env.timers.now();
         const payload = buildDeviceAuthPayload({
           deviceId: identity.deviceId,
           clientId,
@@ -446,21 +767,21 @@ export class OpenClawGatewayClient {
       this.options.onError?.(error instanceof Error ? error : new Error(String(error)));
     }
 
-    const connectParams: Record<string, unknown> = {
+    const connectParams: GatewayConnectParams = {
       minProtocol: 3,
       maxProtocol: 3,
       client: {
         id: clientId,
         version: this.options.clientVersion ?? "0.1.0",
-        platform: navigator.platform || "web",
+        platform: this.env.platform.platform,
         mode: clientMode,
         instanceId: this.instanceId,
       },
       role,
       scopes,
       caps: [],
-      locale: navigator.language,
-      userAgent: navigator.userAgent,
+      locale: this.env.platform.locale,
+      userAgent: this.env.platform.userAgent,
     };
 
     if (token) {
@@ -471,11 +792,28 @@ export class OpenClawGatewayClient {
     }
 
     try {
-      const hello = await this.request<HelloOkPayload>("connect", connectParams);
+      const hello = await this.request("connect", connectParams);
+      const resumed = this.helloReceived;
       this.hello = hello;
-      this.options.onHello?.(hello);
+      this.helloReceived = true;
+      this.reconnectAttempt = 0;
+      this.clearPairingTimer();
+      this.pairingRequest = null;
+      this.startLivenessWatch(hello.policy?.tickIntervalMs);
+      this.options.onHello?.(hello, { resumed });
     } catch (error) {
+      const pairing =
+        error instanceof GatewayRequestError && error.kind === "rejected"
+          ? parsePairingRequired(error, this.connectDeviceId)
+          : null;
+      if (pairing) {
+        this.awaitPairing(pairing);
+        return;
+      }
       this.options.onError?.(error instanceof Error ? error : new Error(String(error)));
+      // Only a gateway rejection (bad token etc.) stops reconnecting; a slow or cancelled
+      // handshake goes through the usual backoff.
+      this.connectRejected = error instanceof GatewayRequestError && error.kind === "rejected";
       this.ws?.close(4008, "connect failed");
     }
   }
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OutboundAttachment } from "./attachmentText";
+import { loadOutboundQueue, type QueuedPrompt, saveOutboundQueue } from "./outboundQueue";
+
+const QUEUE_STORE_KEY = "openclaw.outbound.queue.v1";
+
+/** In-memory `localStorage`; writes longer than `quota` characters fail like a full browser store. */
+class MemoryStorage {
+  readonly items = new Map<string, string>();
+  quota = Number.POSITIVE_INFINITY;
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    if (value.length > this.quota) {
+      throw new DOMException("quota exceeded", "QuotaExceededError");
+    }
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+const attachment: OutboundAttachment = {
+  fileName: "shot.png",
+  mimeType: "image/png",
+  size: 4096,
+  absolutePath: "/uploads/shot.png",
+  relativePath: "uploads/shot.png",
+  imageDataUrl: `data:image/png;base64,${"A".repeat(4000)}`,
+};
+
+function queued(id: string, extra: Partial<QueuedPrompt> = {}): QueuedPrompt {
+  return {
+    id,
+    idempotencyKey: `idem-${id}`,
+    sessionKey: "agent:main:main",
+    prompt: `prompt ${id}`,
+    attachments: [],
+    createdAt: "2026-03-01T10:00:00.000Z",
+    ...extra,
+  };
+}
+
+let storage: MemoryStorage;
+
+beforeEach(() => {
+  storage = new MemoryStorage();
+  vi.stubGlobal("localStorage", storage);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("outbound queue storage", () => {
+  it("round-trips queued prompts in order", () => {
+    const queue = [queued("1"), queued("2", { attachments: [attachment] })];
+    saveOutboundQueue(queue);
+    expect(loadOutboundQueue()).toEqual(queue);
+  });
+
+  it("removes the stored queue once it is empty", () => {
+    saveOutboundQueue([queued("1")]);
+    saveOutboundQueue([]);
+    expect(storage.items.has(QUEUE_STORE_KEY)).toBe(false);
+    expect(loadOutboundQueue()).toEqual([]);
+  });
+
+  it("drops malformed entries and unreadable data", () => {
+    storage.setItem(QUEUE_STORE_KEY, JSON.stringify([queued("1"), { id: "2", prompt: "no key" }, null]));
+    expect(loadOutboundQueue().map((item) => item.id)).toEqual(["1"]);
+
+    storage.setItem(QUEUE_STORE_KEY, "{not json");
+    expect(loadOutboundQueue()).toEqual([]);
+
+    storage.setItem(QUEUE_STORE_KEY, JSON.stringify({ id: "1" }));
+    expect(loadOutboundQueue()).toEqual([]);
+  });
+
+  it("falls back to path references when inline data exceeds the quota", () => {
+    storage.quota = 2000;
+    saveOutboundQueue([queued("1", { attachments: [{ ...attachment, textContent: "extracted text" }] })]);
+    const [item] = loadOutboundQueue();
+    expect(item.attachments).toEqual([
+      {
+        fileName: "shot.png",
+        mimeType: "image/png",
+        size: 4096,
+        absolutePath: "/uploads/shot.png",
+        relativePath: "uploads/shot.png",
+      },
+    ]);
+  });
+
+  it("keeps going when storage is unavailable", () => {
+    storage.quota = 0;
+    expect(() => saveOutboundQueue([queued("1")])).not.toThrow();
+    vi.stubGlobal("localStorage", undefined);
+    expect(loadOutboundQueue()).toEqual([]);
+  });
+});
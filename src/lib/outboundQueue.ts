@@ -0,0 +1,65 @@
+import type { OutboundAttachment } from "./attachmentText";
+
+const QUEUE_STORE_KEY = "openclaw.outbound.queue.v1";
+
+/** A prompt composed while the gateway was unreachable, waiting to be sent to its session. */
+export type QueuedPrompt = {
+  id: string;
+  /** Reused on every delivery attempt so the gateway can drop duplicates after a lost ack. */
+  idempotencyKey: string;
+  sessionKey: string;
+  prompt: string;
+  attachments: OutboundAttachment[];
+  createdAt: string;
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function isQueuedPrompt(value: unknown): value is QueuedPrompt {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    typeof value.idempotencyKey === "string" &&
+    typeof value.sessionKey === "string" &&
+    typeof value.prompt === "string" &&
+    typeof value.createdAt === "string" &&
+    Array.isArray(value.attachments)
+  );
+}
+
+export function loadOutboundQueue(): QueuedPrompt[] {
+  try {
+    const raw = localStorage.getItem(QUEUE_STORE_KEY);
+    if (!raw) {
+      return [];
+    }
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isQueuedPrompt) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveOutboundQueue(queue: QueuedPrompt[]): void {
+  try {
+    if (queue.length === 0) {
+      localStorage.removeItem(QUEUE_STORE_KEY);
+      return;
+    }
+    localStorage.setItem(QUEUE_STORE_KEY, JSON.stringify(queue));
+  } catch {
+    // Inline image data and file text can exceed the storage quota. The files are already saved
+    // by the upload API, so fall back to path references only.
+    try {
+      const slim = queue.map((item) => ({
+        ...item,
+        attachments: item.attachments.map((attachment) => ({ ...attachment, imageDataUrl: undefined, textContent: undefined })),
+      }));
+      localStorage.setItem(QUEUE_STORE_KEY, JSON.stringify(slim));
+    } catch {
+      // Storage unavailable; the queue still lives in memory for this page.
+    }
+  }
+}
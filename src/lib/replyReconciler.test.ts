@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { isReplyComplete, locateReplyInHistory, type ReplyAnchor } from "./replyReconciler";
+
+const SENT_AT = Date.parse("2026-03-01T10:00:00Z");
+
+const anchor: ReplyAnchor = {
+  runId: "run-1",
+  idempotencyKey: "idem-1",
+  prompt: "summarize the report",
+  sentAt: SENT_AT,
+};
+
+function user(content: unknown, extra: Record<string, unknown> = {}): Record<string, unknown> {
+  return { role: "user", content, timestamp: SENT_AT + 100, ...extra };
+}
+
+function assistant(text: string, extra: Record<string, unknown> = {}): Record<string, unknown> {
+  return { role: "assistant", content: [{ type: "text", text }], ...extra };
+}
+
+describe("locateReplyInHistory", () => {
+  it("returns null while the prompt is not in the page", () => {
+    const history = [user("an older question"), assistant("an older answer", { stopReason: "stop" })];
+    expect(locateReplyInHistory(history, anchor)).toBeNull();
+  });
+
+  it("returns the entries after the matching prompt", () => {
+    const reply = assistant("here is the summary", { stopReason: "stop" });
+    const history = [user("hi"), assistant("hello"), user("summarize the report"), reply];
+    expect(locateReplyInHistory(history, anchor)).toEqual({ entries: [reply], closed: false });
+  });
+
+  it("matches prompts the gateway wrapped in extra text", () => {
+    const reply = assistant("done");
+    const history = [user([{ type: "text", text: "[Mon 10:00] summarize the report" }]), reply];
+    expect(locateReplyInHistory(history, anchor)?.entries).toEqual([reply]);
+  });
+
+  it("skips a matching prompt sent well before this one", () => {
+    const stale = user("summarize the report", { timestamp: SENT_AT - 60 * 60 * 1000 });
+    const history = [stale, assistant("the old summary", { stopReason: "stop" })];
+    expect(locateReplyInHistory(history, anchor)).toBeNull();
+  });
+
+  it("accepts prompt times in seconds and as date strings", () => {
+    const inSeconds = [user("summarize the report", { timestamp: SENT_AT / 1000 }), assistant("a")];
+    const asString = [user("summarize the report", { timestamp: undefined, createdAt: "2026-03-01T10:00:01Z" }), assistant("b")];
+    expect(locateReplyInHistory(inSeconds, anchor)?.entries).toHaveLength(1);
+    expect(locateReplyInHistory(asString, anchor)?.entries).toHaveLength(1);
+  });
+
+  it("anchors on the latest of several identical prompts", () => {
+    const second = assistant("second answer");
+    const history = [
+      user("summarize the report"),
+      assistant("first answer", { stopReason: "stop" }),
+      user("summarize the report"),
+      second,
+    ];
+    expect(locateReplyInHistory(history, anchor)?.entries).toEqual([second]);
+  });
+
+  it("closes the span at the next prompt", () => {
+    const reply = assistant("summary");
+    const history = [user("summarize the report"), reply, user("thanks"), assistant("you're welcome")];
+    expect(locateReplyInHistory(history, anchor)).toEqual({ entries: [reply], closed: true });
+  });
+
+  it("keeps tool-result entries inside the reply", () => {
+    const call = assistant("", { stopReason: "toolUse" });
+    const result = user([{ type: "tool_result", tool_use_id: "call-1", content: "42" }]);
+    const final = assistant("the answer is 42", { stopReason: "stop" });
+    const history = [user("summarize the report"), call, result, final];
+    expect(locateReplyInHistory(history, anchor)).toEqual({ entries: [call, result, final], closed: false });
+  });
+
+  it("prefers entries tagged with the run's ids", () => {
+    const tagged = assistant("tagged reply", { meta: { runId: "run-1" } });
+    const history = [user("something else entirely"), tagged, user("summarize the report"), assistant("untagged")];
+    expect(locateReplyInHistory(history, anchor)).toEqual({ entries: [tagged], closed: false });
+  });
+
+  it("anchors on a prompt tagged with the idempotency key even when its text differs", () => {
+    const reply = assistant("reply");
+    const history = [user("rewritten by the gateway", { idempotencyKey: "idem-1" }), reply];
+    expect(locateReplyInHistory(history, anchor)?.entries).toEqual([reply]);
+  });
+
+  it("ignores entries that are not objects", () => {
+    const reply = assistant("reply");
+    expect(locateReplyInHistory([null, "noise", user("summarize the report"), 7, reply], anchor)?.entries).toEqual([reply]);
+  });
+});
+
+describe("isReplyComplete", () => {
+  it("is complete once a later prompt closes the span", () => {
+    expect(isReplyComplete({ entries: [assistant("partial")], closed: true })).toBe(true);
+  });
+
+  it("is complete when the last entry ends the turn", () => {
+    expect(isReplyComplete({ entries: [assistant("done", { stopReason: "stop" })], closed: false })).toBe(true);
+  });
+
+  it("is not complete while the agent is still calling tools", () => {
+    expect(isReplyComplete({ entries: [assistant("", { stopReason: "toolUse" })], closed: false })).toBe(false);
+    expect(isReplyComplete({ entries: [assistant("", { stopReason: "tool_calls" })], closed: false })).toBe(false);
+  });
+
+  it("is not complete without a stop reason or any entries", () => {
+    expect(isReplyComplete({ entries: [assistant("streaming")], closed: false })).toBe(false);
+    expect(isReplyComplete({ entries: [], closed: false })).toBe(false);
+  });
+});
@@ -0,0 +1,148 @@
+import { extractToolResults } from "./chatContent";
+
+/**
+ * Finds the reply to one specific prompt in a `chat.history` page, for runs whose chat events
+ * went missing. Live events are matched to runs by runId / idempotency key; this is the
+ * fallback, and it anchors on the prompt that was actually sent instead of guessing from
+ * "the latest assistant message".
+ */
+
+/** How a reply bubble got its final content. */
+export type ReplyResolution = "event" | "history" | "timeout" | "local";
+
+export type ReplyAnchor = {
+  runId: string;
+  idempotencyKey: string;
+  /** The message exactly as sent to the gateway. */
+  prompt: string;
+  sentAt: number;
+};
+
+export type HistoryReplySpan = {
+  /** Transcript entries after the prompt, up to the next prompt; empty while nothing is written. */
+  entries: Record<string, unknown>[];
+  /** Another prompt follows, so the reply cannot grow any further. */
+  closed: boolean;
+};
+
+/** Tolerated difference between the gateway's clock and ours when checking prompt times. */
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function entryRole(entry: Record<string, unknown>): string {
+  return typeof entry.role === "string" ? entry.role : "";
+}
+
+/** runId / idempotency key tags some gateways store on transcript entries. */
+function entryRunIds(entry: Record<string, unknown>): string[] {
+  const sources = [entry, isRecord(entry.meta) ? entry.meta : null, isRecord(entry.metadata) ? entry.metadata : null];
+  const ids: string[] = [];
+  for (const source of sources) {
+    if (!source) {
+      continue;
+    }
+    for (const field of ["runId", "idempotencyKey", "clientRunId"]) {
+      const value = source[field];
+      if (typeof value === "string" && value) {
+        ids.push(value);
+      }
+    }
+  }
+  return ids;
+}
+
+function entryText(entry: Record<string, unknown>): string {
+  const content = entry.content ?? entry.message;
+  if (typeof content === "string") {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return "";
+  }
+  return content
+    .map((block) => (typeof block === "string" ? block : isRecord(block) && typeof block.text === "string" ? block.text : ""))
+    .join("");
+}
+
+function entryTime(entry: Record<string, unknown>): number | null {
+  for (const candidate of [entry.timestamp, entry.createdAt, entry.created_at, entry.ts]) {
+    if (typeof candidate === "number" && Number.isFinite(candidate)) {
+      return candidate < 1e12 ? candidate * 1000 : candidate;
+    }
+    if (typeof candidate === "string") {
+      const parsed = Date.parse(candidate);
+      if (Number.isFinite(parsed)) {
+        return parsed;
+      }
+    }
+  }
+  return null;
+}
+
+/** An assistant entry that ended the turn; a tool-use stop means the agent loop goes on. */
+function endsTurn(entry: Record<string, unknown>): boolean {
+  const stopReason = typeof entry.stopReason === "string" ? entry.stopReason.trim() : "";
+  return entryRole(entry) === "assistant" && stopReason !== "" && !/tool/i.test(stopReason);
+}
+
+/** A user-role entry that starts a turn, as opposed to one that only carries tool results. */
+function isPrompt(entry: Record<string, unknown>): boolean {
+  return entryRole(entry) === "user" && extractToolResults(entry).length === 0;
+}
+
+/**
+ * The transcript entries that answer `anchor`'s prompt. Tagged entries win outright; otherwise
+ * the latest prompt whose text contains what was sent (gateways may wrap it) and that is not
+ * older than the send marks the start. Null while the prompt itself is not in the page yet.
+ */
+export function locateReplyInHistory(messages: unknown[], anchor: ReplyAnchor): HistoryReplySpan | null {
+  const entries = messages.filter(isRecord);
+  const ids = new Set([anchor.runId, anchor.idempotencyKey].filter(Boolean));
+
+  const tagged = entries.filter((entry) => entryRole(entry) !== "user" && entryRunIds(entry).some((id) => ids.has(id)));
+  if (tagged.length > 0) {
+    return { entries: tagged, closed: false };
+  }
+
+  const prompt = anchor.prompt.trim();
+  let promptIndex = -1;
+  for (let index = entries.length - 1; index >= 0; index -= 1) {
+    const entry = entries[index];
+    if (!isPrompt(entry)) {
+      continue;
+    }
+    if (entryRunIds(entry).some((id) => ids.has(id))) {
+      promptIndex = index;
+      break;
+    }
+    const at = entryTime(entry);
+    if (prompt && entryText(entry).includes(prompt) && (at === null || at >= anchor.sentAt - CLOCK_SKEW_MS)) {
+      promptIndex = index;
+      break;
+    }
+  }
+  if (promptIndex < 0) {
+    return null;
+  }
+
+  const reply: Record<string, unknown>[] = [];
+  for (const entry of entries.slice(promptIndex + 1)) {
+    if (isPrompt(entry)) {
+      return { entries: reply, closed: true };
+    }
+    reply.push(entry);
+  }
+  return { entries: reply, closed: false };
+}
+
+/**
+ * Whether `span` holds the complete reply, so settling from it cannot cut off later entries: a
+ * later prompt closed it, or its last entry carries a terminal `stopReason`.
+ */
+export function isReplyComplete(span: HistoryReplySpan): boolean {
+  const last = span.entries.at(-1);
+  return span.closed || (last !== undefined && endsTurn(last));
+}
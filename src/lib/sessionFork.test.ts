@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { attachForkSeed, buildForkSeed, createForkSessionKey, parseForkSeed } from "./sessionFork";
+import { parseSessionAgentId } from "./sessionKeys";
+
+const SOURCE = "agent:main:room-a";
+
+describe("createForkSessionKey", () => {
+  it("creates distinct keys owned by the agent", () => {
+    const first = createForkSessionKey("coder");
+    const second = createForkSessionKey("coder");
+    expect(first).toMatch(/^agent:coder:fork-[a-z0-9]+$/);
+    expect(parseSessionAgentId(first)).toBe("coder");
+    expect(first).not.toBe(second);
+  });
+});
+
+describe("buildForkSeed", () => {
+  it("returns null when there is nothing to carry over", () => {
+    expect(buildForkSeed(SOURCE, [])).toBeNull();
+    expect(buildForkSeed(SOURCE, [{ role: "user", text: "   " }])).toBeNull();
+  });
+
+  it("drops the oldest turns when the transcript is too long", () => {
+    const long = "x".repeat(10000);
+    const seed = buildForkSeed(SOURCE, [
+      { role: "user", text: `first ${long}` },
+      { role: "assistant", text: `second ${long}` },
+      { role: "user", text: `third ${long}` },
+      { role: "assistant", text: "last" },
+    ]);
+    const parsed = parseForkSeed(attachForkSeed(seed ?? "", "go on"));
+    expect(parsed?.turns.map((turn) => turn.text.split(" ")[0])).toEqual(["second", "third", "last"]);
+  });
+});
+
+describe("parseForkSeed", () => {
+  it("round-trips the source session, turns and prompt", () => {
+    const turns = [
+      { role: "user" as const, text: "what is a fork?" },
+      { role: "assistant" as const, text: "A copy of the session.\n\nIt starts empty on the gateway." },
+    ];
+    const seed = buildForkSeed(SOURCE, [...turns, { role: "user", text: "" }]);
+    expect(parseForkSeed(attachForkSeed(seed ?? "", "  and then?  "))).toEqual({
+      sourceSessionKey: SOURCE,
+      turns,
+      prompt: "and then?",
+    });
+  });
+
+  it("ignores ordinary prompts", () => {
+    expect(parseForkSeed("hello")).toBeNull();
+    expect(parseForkSeed("please explain [分支上下文] markers")).toBeNull();
+  });
+
+  it("ignores a header without its footer", () => {
+    expect(parseForkSeed(`[分支上下文] ${SOURCE}\n<<用户>>\ncut off`)).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Forked sessions start empty on the gateway, so the copied transcript travels as a preamble of
+ * the fork's first prompt. The preamble is plain enough for the model to read and structured
+ * enough for the UI to turn back into bubbles when the fork's history is reloaded.
+ */
+
+export type ForkSeedTurn = {
+  role: "user" | "assistant";
+  text: string;
+};
+
+export type ParsedForkSeed = {
+  sourceSessionKey: string;
+  turns: ForkSeedTurn[];
+  /** What the user actually typed after the preamble. */
+  prompt: string;
+};
+
+const SEED_HEADER = "[分支上下文]";
+const SEED_FOOTER = "[分支上下文结束]";
+const TURN_MARKERS: Record<ForkSeedTurn["role"], string> = {
+  user: "<<用户>>",
+  assistant: "<<助手>>",
+};
+const TURN_MARKER_RE = /^<<(用户|助手)>>$/m;
+/** Older turns are dropped first when the transcript would not fit. */
+const MAX_SEED_CHARS = 24000;
+
+export function createForkSessionKey(agentId: string): string {
+  return `agent:${agentId}:fork-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function buildForkSeed(sourceSessionKey: string, turns: ForkSeedTurn[]): string | null {
+  const blocks = turns
+    .filter((turn) => turn.text.trim())
+    .map((turn) => `${TURN_MARKERS[turn.role]}\n${turn.text.trim()}`);
+  let total = blocks.reduce((sum, block) => sum + block.length + 1, 0);
+  while (blocks.length > 0 && total > MAX_SEED_CHARS) {
+    total -= (blocks.shift()?.length ?? 0) + 1;
+  }
+  if (blocks.length === 0) {
+    return null;
+  }
+  return [`${SEED_HEADER} ${sourceSessionKey}`, "以下是分支前的对话记录，请作为上下文继续：", ...blocks, SEED_FOOTER].join("\n");
+}
+
+export function attachForkSeed(seed: string, prompt: string): string {
+  return `${seed}\n\n${prompt}`;
+}
+
+export function parseForkSeed(text: string): ParsedForkSeed | null {
+  if (!text.startsWith(`${SEED_HEADER} `)) {
+    return null;
+  }
+  const footerIndex = text.indexOf(`\n${SEED_FOOTER}`);
+  if (footerIndex < 0) {
+    return null;
+  }
+  const headerEnd = text.indexOf("\n");
+  const sourceSessionKey = text.slice(SEED_HEADER.length + 1, headerEnd).trim();
+  const body = text.slice(headerEnd + 1, footerIndex);
+  const prompt = text.slice(footerIndex + SEED_FOOTER.length + 1).trim();
+
+  const turns: ForkSeedTurn[] = [];
+  const segments = body.split(TURN_MARKER_RE);
+  // split() with a capture group yields [intro, role, text, role, text, ...].
+  for (let index = 1; index + 1 < segments.length; index += 2) {
+    const turnText = segments[index + 1].trim();
+    if (turnText) {
+      turns.push({ role: segments[index] === "用户" ? "user" : "assistant", text: turnText });
+    }
+  }
+  return { sourceSessionKey, turns, prompt };
+}
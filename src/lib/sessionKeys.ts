@@ -0,0 +1,64 @@
+import type { GatewaySessionSummary } from "./gatewayProtocol";
+
+/**
+ * Session keys look like `agent:<agentId>:<rest>`; `agent:<agentId>:main` is the agent's main
+ * session, and older gateways also accept a bare "main" for the default agent's.
+ */
+
+export function parseSessionAgentId(sessionKey: string): string | null {
+  const match = /^agent:([^:]+):/.exec(sessionKey.trim());
+  return match?.[1] ?? null;
+}
+
+/** The gateway refuses to delete a main session; it can only be reset. */
+export function isMainSessionKey(sessionKey: string): boolean {
+  const trimmed = sessionKey.trim();
+  return trimmed === "main" || /^agent:[^:]+:main$/.test(trimmed);
+}
+
+/** Whether two keys name the same session; the main session may be spelled "main" or `agent:<id>:main`. */
+export function isSameSessionKey(left: string, right: string): boolean {
+  const a = left.trim();
+  const b = right.trim();
+  if (a === b) {
+    return true;
+  }
+  return isMainSessionKey(a) && isMainSessionKey(b) && (parseSessionAgentId(a) ?? "main") === (parseSessionAgentId(b) ?? "main");
+}
+
+/** A key the gateway has not seen; the session is created by its first `chat.send`. */
+export function createFreshSessionKey(agentId: string): string {
+  return `agent:${agentId}:webui-${Date.now().toString(36)}`;
+}
+
+/** `agentId`'s sessions from a `sessions.list` page, most recent activity first. */
+export function filterAgentSessions(
+  sessions: GatewaySessionSummary[],
+  agentId: string,
+  defaultAgentId: string | null,
+): GatewaySessionSummary[] {
+  return sessions
+    .filter((session) => (parseSessionAgentId(session.key) ?? (session.key === "main" ? defaultAgentId : null)) === agentId)
+    .sort((left, right) => (right.updatedAt ?? 0) - (left.updatedAt ?? 0));
+}
+
+/** A room's own session, so rooms bound to the same agent do not share one conversation. */
+export function roomSessionKey(agentId: string, roomId: string): string {
+  return `agent:${agentId}:room-${roomId.trim().replace(/\s+/g, "-")}`;
+}
+
+/**
+ * Turns a session key typed by the user into a full key of `agentId`; a bare name such as
+ * "research" gets the `agent:<agentId>:` prefix. Null when it contains whitespace or names
+ * another agent's session.
+ */
+export function normalizeSessionKeyInput(input: string, agentId: string): string | null {
+  const trimmed = input.trim();
+  if (!trimmed || /\s/.test(trimmed)) {
+    return null;
+  }
+  if (!trimmed.startsWith("agent:")) {
+    return `agent:${agentId}:${trimmed}`;
+  }
+  return parseSessionAgentId(trimmed) === agentId && trimmed.length > `agent:${agentId}:`.length ? trimmed : null;
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import type { ChatMessage } from "./chatContent";
+import { cacheableMessages, isSameTurn, reconcileTranscript, transcriptGatewayKey } from "./transcriptCache";
+
+const BASE = Date.parse("2026-03-01T10:00:00Z");
+
+function message(
+  id: string,
+  role: ChatMessage["role"],
+  text: string,
+  minutes: number,
+  extra: Partial<ChatMessage> = {},
+): ChatMessage {
+  return { id, role, text, createdAt: new Date(BASE + minutes * 60 * 1000).toISOString(), ...extra };
+}
+
+const image = { id: "img-1", dataUrl: "data:image/png;base64,AAAA", mimeType: "image/png", fileName: "shot.png" };
+
+describe("transcriptGatewayKey", () => {
+  it("ignores case of scheme and host and trailing slashes", () => {
+    expect(transcriptGatewayKey("WS://Example.COM:18789/")).toBe(transcriptGatewayKey("ws://example.com:18789"));
+    expect(transcriptGatewayKey("wss://gw.example.com/openclaw//")).toBe("wss://gw.example.com/openclaw");
+  });
+
+  it("falls back to the local gateway for an empty URL", () => {
+    expect(transcriptGatewayKey("  ")).toBe("ws://127.0.0.1:18789");
+  });
+});
+
+describe("cacheableMessages", () => {
+  it("keeps settled user and assistant turns only", () => {
+    const kept = [message("u1", "user", "hi", 0), message("a1", "assistant", "hello", 1)];
+    const messages = [
+      ...kept,
+      message("s1", "system", "connected", 2),
+      message("u2", "user", "queued", 3, { pending: true }),
+      message("a2", "assistant", "typing", 4, { streaming: true }),
+    ];
+    expect(cacheableMessages(messages)).toEqual(kept);
+  });
+});
+
+describe("isSameTurn", () => {
+  it("matches the same text and role within the time window", () => {
+    expect(isSameTurn(message("l", "user", "hello", 0), message("r", "user", " hello ", 1))).toBe(true);
+  });
+
+  it("matches a local prompt against the gateway copy with attachment notes", () => {
+    const local = message("l", "user", "look at this", 0);
+    const remote = message("r", "user", "look at this\n\n[附件] shot.png", 0);
+    expect(isSameTurn(local, remote)).toBe(true);
+    expect(isSameTurn(remote, local)).toBe(true);
+  });
+
+  it("rejects different roles, different text and distant times", () => {
+    expect(isSameTurn(message("l", "user", "hello", 0), message("r", "assistant", "hello", 0))).toBe(false);
+    expect(isSameTurn(message("l", "user", "hello", 0), message("r", "user", "goodbye", 0))).toBe(false);
+    expect(isSameTurn(message("l", "user", "hello", 0), message("r", "user", "hello", 5))).toBe(false);
+  });
+
+  it("does not treat an empty bubble as a prefix of everything", () => {
+    expect(isSameTurn(message("l", "assistant", "", 0), message("r", "assistant", "reply", 0))).toBe(false);
+  });
+
+  it("rejects unparseable times", () => {
+    const broken = { ...message("l", "user", "hello", 0), createdAt: "not a date" };
+    expect(isSameTurn(broken, message("r", "user", "hello", 0))).toBe(false);
+  });
+});
+
+describe("reconcileTranscript", () => {
+  it("returns the fetched page when nothing is cached or nothing was fetched", () => {
+    const fetched = [message("u1", "user", "hi", 0)];
+    expect(reconcileTranscript([], fetched)).toBe(fetched);
+    expect(reconcileTranscript(fetched, [])).toEqual([]);
+  });
+
+  it("keeps cached turns older than an overlapping page", () => {
+    const older = [message("c1", "user", "first", 0), message("c2", "assistant", "first reply", 1)];
+    const overlap = message("c3", "user", "second", 10);
+    const fetched = [message("f3", "user", "second", 10), message("f4", "assistant", "second reply", 11)];
+    expect(reconcileTranscript([...older, overlap], fetched)).toEqual([...older, ...fetched]);
+  });
+
+  it("lets the page win for the span it covers", () => {
+    const cached = [message("c1", "user", "question", 0), message("c2", "assistant", "stale answer", 1)];
+    const fetched = [message("f1", "user", "question", 0), message("f2", "assistant", "edited answer", 1)];
+    expect(reconcileTranscript(cached, fetched)).toEqual(fetched);
+  });
+
+  it("drops the cache when it does not reach the page, so no gap hides behind it", () => {
+    const cached = [message("c1", "user", "long ago", 0), message("c2", "assistant", "reply", 1)];
+    const fetched = [message("f1", "user", "much later", 60)];
+    expect(reconcileTranscript(cached, fetched)).toEqual(fetched);
+  });
+
+  it("restores image previews the gateway dropped from a locally sent prompt", () => {
+    const cached = [message("c1", "user", "look at this", 0, { images: [image] })];
+    const fetched = [message("f1", "user", "look at this\n\n[附件] shot.png", 0), message("f2", "assistant", "nice", 1)];
+    const [prompt, reply] = reconcileTranscript(cached, fetched);
+    expect(prompt).toEqual({ ...fetched[0], images: [image] });
+    expect(reply).toBe(fetched[1]);
+  });
+
+  it("ignores pending and system bubbles in the cache", () => {
+    const cached = [message("s1", "system", "note", 0), message("p1", "user", "queued", 1, { pending: true })];
+    const fetched = [message("f1", "user", "hello", 5)];
+    expect(reconcileTranscript(cached, fetched)).toBe(fetched);
+  });
+});
@@ -0,0 +1,192 @@
+import type { ChatMessage } from "./chatContent";
+
+/**
+ * Per-session transcripts kept in IndexedDB, keyed by gateway + session key, so a room renders
+ * at once on switch or reload and stays readable while disconnected. The gateway's
+ * `chat.history` stays authoritative; `reconcileTranscript` lines a fresh page up with the cache.
+ */
+
+export type CachedTranscript = {
+  gateway: string;
+  sessionKey: string;
+  messages: ChatMessage[];
+  updatedAt: number;
+};
+
+export type CachedTranscriptSummary = Omit<CachedTranscript, "messages"> & {
+  messageCount: number;
+};
+
+type TranscriptRecord = CachedTranscript & { id: string };
+
+const DB_NAME = "openclaw-transcripts";
+const DB_VERSION = 1;
+const STORE_NAME = "transcripts";
+const GATEWAY_INDEX = "gateway";
+/** Older turns beyond this are dropped from the cache; the gateway still pages them in. */
+const MAX_CACHED_MESSAGES = 300;
+/** Local send times and gateway timestamps of the same turn differ by this much at most. */
+const SAME_TURN_WINDOW_MS = 2 * 60 * 1000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB unavailable"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+        store.createIndex(GATEWAY_INDEX, "gateway", { unique: false });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error("IndexedDB open failed"));
+    }).catch((error: unknown) => {
+      // Let a later call retry, e.g. after the user leaves private browsing.
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+async function runRequest<T>(mode: IDBTransactionMode, build: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = build(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? new Error("IndexedDB request failed"));
+    transaction.onabort = () => reject(transaction.error ?? new Error("IndexedDB request aborted"));
+  });
+}
+
+function recordId(gateway: string, sessionKey: string): string {
+  return `${gateway}\n${sessionKey}`;
+}
+
+/** Same gateway however the URL was typed: case of scheme/host and trailing slashes ignored. */
+export function transcriptGatewayKey(url: string): string {
+  const trimmed = url.trim() || "ws://127.0.0.1:18789";
+  try {
+    const parsed = new URL(trimmed, typeof location === "undefined" ? "http://localhost" : location.href);
+    return `${parsed.protocol}//${parsed.host}${parsed.pathname.replace(/\/+$/, "")}`;
+  } catch {
+    return trimmed.replace(/\/+$/, "");
+  }
+}
+
+/** What is worth caching: settled user/assistant turns. System notes describe state, not the transcript. */
+export function cacheableMessages(messages: ChatMessage[]): ChatMessage[] {
+  return messages
+    .filter((message) => (message.role === "user" || message.role === "assistant") && !message.pending && !message.streaming)
+    .slice(-MAX_CACHED_MESSAGES);
+}
+
+export async function readCachedTranscript(gateway: string, sessionKey: string): Promise<CachedTranscript | null> {
+  try {
+    const record = await runRequest<TranscriptRecord | undefined>("readonly", (store) =>
+      store.get(recordId(gateway, sessionKey)),
+    );
+    return record && Array.isArray(record.messages) ? record : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function writeCachedTranscript(gateway: string, sessionKey: string, messages: ChatMessage[]): Promise<void> {
+  const record: TranscriptRecord = {
+    id: recordId(gateway, sessionKey),
+    gateway,
+    sessionKey,
+    messages: cacheableMessages(messages),
+    updatedAt: Date.now(),
+  };
+  if (record.messages.length === 0) {
+    return;
+  }
+  try {
+    await runRequest("readwrite", (store) => store.put(record));
+  } catch {
+    // Quota or private mode; the gateway still has the transcript.
+  }
+}
+
+export async function deleteCachedTranscript(gateway: string, sessionKey: string): Promise<void> {
+  try {
+    await runRequest("readwrite", (store) => store.delete(recordId(gateway, sessionKey)));
+  } catch {
+    // Nothing cached, or storage unavailable.
+  }
+}
+
+/** Cached sessions of one gateway, most recently updated first. */
+export async function listCachedTranscripts(gateway: string): Promise<CachedTranscriptSummary[]> {
+  try {
+    const records = await runRequest<TranscriptRecord[]>("readonly", (store) =>
+      store.index(GATEWAY_INDEX).getAll(IDBKeyRange.only(gateway)),
+    );
+    return records
+      .map(({ gateway: recordGateway, sessionKey, messages, updatedAt }) => ({
+        gateway: recordGateway,
+        sessionKey,
+        updatedAt,
+        messageCount: messages.length,
+      }))
+      .sort((left, right) => right.updatedAt - left.updatedAt);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Whether two bubbles are the same turn. A prompt sent from here shows only what was typed,
+ * while the gateway's copy also carries the attachment notes, so prefixes count.
+ */
+export function isSameTurn(left: ChatMessage, right: ChatMessage): boolean {
+  if (left.role !== right.role) {
+    return false;
+  }
+  const gap = Math.abs(Date.parse(left.createdAt) - Date.parse(right.createdAt));
+  if (!(gap <= SAME_TURN_WINDOW_MS)) {
+    return false;
+  }
+  const a = left.text.trim();
+  const b = right.text.trim();
+  return a === b || (a.length > 0 && b.length > 0 && (a.startsWith(b) || b.startsWith(a)));
+}
+
+/**
+ * Merges the latest gateway page into what is already shown: the page wins for the span it
+ * covers, cached turns older than it are kept when the two overlap (otherwise a gap could hide
+ * behind them), and image previews of locally sent prompts survive when the gateway dropped them.
+ */
+export function reconcileTranscript(cached: ChatMessage[], fetched: ChatMessage[]): ChatMessage[] {
+  const known = cacheableMessages(cached);
+  if (fetched.length === 0 || known.length === 0) {
+    return fetched;
+  }
+
+  const withImages = fetched.map((message) => {
+    if (message.role !== "user" || (message.images?.length ?? 0) > 0) {
+      return message;
+    }
+    const local = known.find((candidate) => (candidate.images?.length ?? 0) > 0 && isSameTurn(candidate, message));
+    return local ? { ...message, images: local.images } : message;
+  });
+
+  const boundary = Date.parse(fetched[0].createdAt);
+  const overlaps =
+    known.some((candidate) => fetched.some((message) => isSameTurn(candidate, message))) ||
+    Date.parse(known[known.length - 1].createdAt) >= boundary;
+  if (!overlaps) {
+    return withImages;
+  }
+  const older = known.filter(
+    (candidate) => Date.parse(candidate.createdAt) < boundary && !fetched.some((message) => isSameTurn(candidate, message)),
+  );
+  return [...older, ...withImages];
+}
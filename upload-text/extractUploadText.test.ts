@@ -0,0 +1,345 @@
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { deflateRawSync, deflateSync } from "node:zlib";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { extractUploadText } from "./extractUploadText";
+
+type ZipFixtureEntry = {
+  name: string;
+  content: string | Buffer;
+  /** 0 = stored, 8 = deflate; anything else exercises the unsupported-method path. */
+  method?: number;
+  /** Overrides the uncompressed size written to the central directory. */
+  declaredSize?: number;
+};
+
+/** Minimal ZIP writer: local headers, central directory and end record, no data descriptors. */
+function buildZip(entries: ZipFixtureEntry[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name);
+    const content = typeof entry.content === "string" ? Buffer.from(entry.content) : entry.content;
+    const method = entry.method ?? 8;
+    const data = method === 8 ? deflateRawSync(content) : content;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(entry.declaredSize ?? content.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+type PdfFixtureStream = {
+  dictionary: string;
+  content: string | Buffer;
+  deflate?: boolean;
+};
+
+function buildPdf(streams: PdfFixtureStream[], trailer = ""): Buffer {
+  const parts: Buffer[] = [Buffer.from("%PDF-1.4\n")];
+  streams.forEach((stream, index) => {
+    const raw = typeof stream.content === "string" ? Buffer.from(stream.content, "latin1") : stream.content;
+    const data = stream.deflate ? deflateSync(raw) : raw;
+    const filter = stream.deflate ? " /Filter /FlateDecode" : "";
+    parts.push(
+      Buffer.from(`${index + 1} 0 obj\n<< /Length ${data.length}${filter} ${stream.dictionary}>>\nstream\n`, "latin1"),
+      data,
+      Buffer.from("\nendstream\nendobj\n", "latin1"),
+    );
+  });
+  parts.push(Buffer.from(`trailer\n<< ${trailer}>>\n%%EOF\n`, "latin1"));
+  return Buffer.concat(parts);
+}
+
+function docx(documentXml: string): Buffer {
+  return buildZip([{ name: "word/document.xml", content: documentXml }]);
+}
+
+/** Compresses to a few hundred bytes; far larger once inflated. */
+function filler(bytes: number): Buffer {
+  return Buffer.alloc(bytes, 0x41);
+}
+
+let directory = "";
+let fixtureCount = 0;
+
+async function extract(content: string | Buffer, fileName: string, mimeType = "") {
+  fixtureCount += 1;
+  const filePath = path.join(directory, `${fixtureCount}-${fileName}`);
+  await fs.writeFile(filePath, content);
+  return extractUploadText(filePath, fileName, mimeType);
+}
+
+beforeAll(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), "upload-text-"));
+});
+
+afterAll(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+describe("extractUploadText: plain text", () => {
+  it("ignores files it has no reader for", async () => {
+    expect(await extract(Buffer.from([1, 2, 3]), "photo.bin", "application/octet-stream")).toBeNull();
+  });
+
+  it("decodes UTF-8, drops the BOM and normalizes line breaks", async () => {
+    expect(await extract("\uFEFFline one\r\nline two\r\n\r\n\r\n\r\nend", "notes.txt")).toEqual({
+      kind: "text",
+      text: "line one\nline two\n\nend",
+      truncated: false,
+    });
+  });
+
+  it("detects text by MIME type when the extension says nothing", async () => {
+    expect(await extract('{"ok":true}', "payload", "application/json; charset=utf-8")).toMatchObject({
+      kind: "text",
+      text: '{"ok":true}',
+    });
+  });
+
+  it("refuses binary content behind a text-looking name", async () => {
+    expect(await extract(Buffer.from([0x68, 0x69, 0x00, 0x01]), "data.txt")).toEqual({
+      kind: "text",
+      error: "文件包含二进制内容，无法按文本读取",
+    });
+  });
+
+  it("caps long files and reports the truncation", async () => {
+    const result = await extract("a".repeat(900_000), "big.log");
+    expect(result).toMatchObject({ kind: "text", truncated: true });
+    expect(result && "text" in result ? result.text.length : 0).toBe(200_000);
+  });
+
+  it("does not leave a replacement character where the cut splits a character", async () => {
+    // 266,667 three-byte characters: the 800,000-byte slice ends one byte into the last one.
+    const result = await extract("汉".repeat(266_667), "cjk.md");
+    expect(result).toMatchObject({ kind: "text", truncated: true });
+    expect(result && "text" in result ? result.text.includes("\uFFFD") : true).toBe(false);
+  });
+});
+
+describe("extractUploadText: Office documents", () => {
+  it("reads paragraphs, tabs, breaks and entities from a .docx", async () => {
+    const xml =
+      "<w:document><w:body>" +
+      "<w:p><w:r><w:t>Hello</w:t><w:tab/><w:t>world</w:t></w:r></w:p>" +
+      "<w:p><w:r><w:t>Fish &amp; chips</w:t><w:br/><w:t>&#x4F60;&#22909;</w:t></w:r></w:p>" +
+      "</w:body></w:document>";
+    expect(await extract(docx(xml), "letter.docx")).toEqual({
+      kind: "docx",
+      text: "Hello\tworld\nFish & chips\n你好",
+      truncated: false,
+    });
+  });
+
+  it("reads stored (uncompressed) entries", async () => {
+    const zip = buildZip([{ name: "word/document.xml", content: "<w:p><w:t>stored</w:t></w:p>", method: 0 }]);
+    expect(await extract(zip, "stored.docx")).toMatchObject({ kind: "docx", text: "stored" });
+  });
+
+  it("detects the kind from the MIME type", async () => {
+    const result = await extract(
+      docx("<w:p><w:t>by mime</w:t></w:p>"),
+      "upload",
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    );
+    expect(result).toMatchObject({ kind: "docx", text: "by mime" });
+  });
+
+  it("reads slides of a .pptx in numeric order", async () => {
+    const zip = buildZip([
+      { name: "ppt/slides/slide10.xml", content: "<p:sld><a:p><a:t>Ten</a:t></a:p></p:sld>" },
+      { name: "ppt/slides/slide2.xml", content: "<p:sld><a:p><a:t>Two</a:t></a:p></p:sld>" },
+      { name: "ppt/slides/slide1.xml", content: "<p:sld><a:p><a:t>One</a:t></a:p></p:sld>" },
+    ]);
+    expect(await extract(zip, "deck.pptx")).toMatchObject({
+      kind: "pptx",
+      text: "## 幻灯片 1\nOne\n\n## 幻灯片 2\nTwo\n\n## 幻灯片 3\nTen",
+    });
+  });
+
+  it("reads sheets of a .xlsx with shared, inline and numeric cells", async () => {
+    const zip = buildZip([
+      { name: "xl/workbook.xml", content: '<workbook><sheets><sheet name="Q1 &amp; Q2" sheetId="1"/></sheets></workbook>' },
+      { name: "xl/sharedStrings.xml", content: "<sst><si><t>Name</t></si><si><r><t>Al</t></r><r><t>ice</t></r></si></sst>" },
+      {
+        name: "xl/worksheets/sheet1.xml",
+        content:
+          '<sheetData><row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="inlineStr"><is><t>Score</t></is></c></row>' +
+          '<row r="2"><c r="A2" t="s"><v>1</v></c><c r="B2"><v>42</v></c></row><row r="3"><c r="A3"/></row></sheetData>',
+      },
+    ]);
+    expect(await extract(zip, "scores.xlsx")).toMatchObject({
+      kind: "xlsx",
+      text: "## Q1 & Q2\nName\tScore\nAlice\t42",
+    });
+  });
+
+  it("reports a document without text", async () => {
+    expect(await extract(docx("<w:document><w:body/></w:document>"), "empty.docx")).toEqual({
+      kind: "docx",
+      error: "文档中没有文本内容",
+    });
+  });
+
+  it("reports a missing main part", async () => {
+    expect(await extract(buildZip([{ name: "other.xml", content: "<x/>" }]), "odd.docx")).toEqual({
+      kind: "docx",
+      error: "缺少 word/document.xml",
+    });
+  });
+
+  it("reports a file that is not a ZIP at all", async () => {
+    expect(await extract(Buffer.alloc(64, 0x20), "fake.docx")).toEqual({ kind: "docx", error: "不是有效的 ZIP 文档" });
+  });
+
+  it("reports files too short to hold a ZIP end record", async () => {
+    expect(await extract(Buffer.from("PK"), "tiny.docx")).toMatchObject({ kind: "docx", error: expect.any(String) });
+  });
+
+  it("reports a corrupt central directory", async () => {
+    const zip = docx("<w:p><w:t>x</w:t></w:p>");
+    const centralOffset = zip.readUInt32LE(zip.length - 22 + 16);
+    zip.writeUInt32LE(0xdeadbeef, centralOffset);
+    expect(await extract(zip, "broken.docx")).toEqual({ kind: "docx", error: "ZIP 目录已损坏" });
+  });
+
+  it("reports an entry whose local header is missing", async () => {
+    const zip = docx("<w:p><w:t>x</w:t></w:p>");
+    zip.writeUInt32LE(0, 0);
+    expect(await extract(zip, "broken.docx")).toEqual({ kind: "docx", error: "ZIP 条目已损坏: word/document.xml" });
+  });
+
+  it("reports an unsupported compression method", async () => {
+    const zip = buildZip([{ name: "word/document.xml", content: "<w:p/>", method: 12 }]);
+    expect(await extract(zip, "bzip.docx")).toEqual({ kind: "docx", error: "不支持的 ZIP 压缩方式: 12" });
+  });
+});
+
+describe("extractUploadText: decompression caps", () => {
+  const tooLarge = { kind: "docx", error: "文档解压后过大，无法提取文本" };
+
+  it("rejects an entry whose declared size exceeds the per-entry cap", async () => {
+    expect(await extract(docx(filler(900_000).toString()), "bomb.docx")).toEqual(tooLarge);
+  });
+
+  it("stops inflating an entry that under-declares its size", async () => {
+    const zip = buildZip([{ name: "word/document.xml", content: filler(50 * 1024 * 1024), declaredSize: 100 }]);
+    expect(await extract(zip, "liar.docx")).toEqual(tooLarge);
+  });
+
+  it("rejects documents whose entries together exceed the total budget", async () => {
+    const slide = `<p:sld><a:p><a:t>${"x".repeat(790_000)}</a:t></a:p></p:sld>`;
+    const zip = buildZip(Array.from({ length: 17 }, (_, index) => ({ name: `ppt/slides/slide${index + 1}.xml`, content: slide })));
+    expect(await extract(zip, "many.pptx")).toEqual({ ...tooLarge, kind: "pptx" });
+  });
+
+  it("skips a PDF stream that inflates past the cap but keeps the others", async () => {
+    const pdf = buildPdf([
+      { dictionary: "", content: filler(50 * 1024 * 1024), deflate: true },
+      { dictionary: "", content: "BT /F1 12 Tf (Still here) Tj ET", deflate: true },
+    ]);
+    expect(await extract(pdf, "bomb.pdf")).toMatchObject({ kind: "pdf", text: "Still here" });
+  });
+});
+
+describe("extractUploadText: PDF", () => {
+  it("reads literal strings with escapes, kerning gaps and line moves", async () => {
+    const content = [
+      "BT /F1 12 Tf 72 720 Td",
+      "(Hello\\051 \\(world\\)) Tj",
+      "0 -14 Td [(Split)-300(word)] TJ",
+      "T* (Next\\040line) Tj",
+      "ET",
+    ].join("\n");
+    expect(await extract(buildPdf([{ dictionary: "", content, deflate: true }]), "doc.pdf")).toEqual({
+      kind: "pdf",
+      text: "Hello) (world)\nSplit word\nNext line",
+      truncated: false,
+    });
+  });
+
+  it("maps glyph ids through a ToUnicode CMap", async () => {
+    const cmap = [
+      "/CIDInit /ProcSet findresource begin begincmap",
+      "1 begincodespacerange <0000> <FFFF> endcodespacerange",
+      "2 beginbfchar <0001> <4F60> <0002> <597D> endbfchar",
+      "1 beginbfrange <0010> <0012> <0041> endbfrange",
+      "endcmap",
+    ].join("\n");
+    const pdf = buildPdf([
+      { dictionary: "", content: cmap, deflate: true },
+      { dictionary: "", content: "BT <00010002> Tj 0 -14 Td <001000110012> Tj ET", deflate: true },
+    ]);
+    expect(await extract(pdf, "cid.pdf")).toMatchObject({ kind: "pdf", text: "你好\nABC" });
+  });
+
+  it("decodes UTF-16 strings marked with a byte order mark", async () => {
+    const pdf = buildPdf([{ dictionary: "", content: "BT <FEFF4E2D6587> Tj ET" }]);
+    expect(await extract(pdf, "utf16.pdf")).toMatchObject({ kind: "pdf", text: "中文" });
+  });
+
+  it("ignores image streams and unsupported filters", async () => {
+    const pdf = buildPdf([
+      { dictionary: "/Subtype /Image", content: "BT (not text) Tj ET" },
+      { dictionary: "/Filter /DCTDecode", content: Buffer.from([0xff, 0xd8, 0xff]) },
+      { dictionary: "", content: "BT (Visible) Tj ET" },
+    ]);
+    expect(await extract(pdf, "mixed.pdf")).toMatchObject({ kind: "pdf", text: "Visible" });
+  });
+
+  it("reports a scan without a text layer", async () => {
+    const pdf = buildPdf([{ dictionary: "/Subtype /Image", content: Buffer.from([1, 2, 3]) }]);
+    expect(await extract(pdf, "scan.pdf")).toEqual({ kind: "pdf", error: "未找到可提取的文本（可能是扫描件）" });
+  });
+
+  it("reports encrypted documents", async () => {
+    const pdf = buildPdf([{ dictionary: "", content: "BT (secret) Tj ET" }], "/Encrypt 9 0 R ");
+    expect(await extract(pdf, "locked.pdf")).toEqual({ kind: "pdf", error: "PDF 已加密，无法提取文本" });
+  });
+
+  it("reports files without a PDF header", async () => {
+    expect(await extract("just text", "fake.pdf")).toEqual({ kind: "pdf", error: "不是有效的 PDF 文件" });
+  });
+
+  it("skips corrupt compressed streams", async () => {
+    const pdf = buildPdf([
+      { dictionary: "/Filter /FlateDecode", content: Buffer.from("not zlib at all") },
+      { dictionary: "", content: "BT (Readable) Tj ET" },
+    ]);
+    expect(await extract(pdf, "corrupt.pdf")).toMatchObject({ kind: "pdf", text: "Readable" });
+  });
+
+  it("reports text in a font encoding it cannot map", async () => {
+    // Raw glyph ids without a ToUnicode map decode to control characters.
+    const glyphs = Array.from({ length: 40 }, (_, index) => (0x0e + (index % 16)).toString(16).padStart(2, "0")).join("");
+    const pdf = buildPdf([{ dictionary: "", content: `BT <${glyphs}> Tj ET` }]);
+    expect(await extract(pdf, "glyphs.pdf")).toEqual({ kind: "pdf", error: "提取结果无法识别（字体编码不受支持）" });
+  });
+});
@@ -0,0 +1,624 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { inflateRawSync, inflateSync } from "node:zlib";
+
+/**
+ * Best-effort text extraction for uploaded files, using only Node built-ins. Text-like files are
+ * decoded as UTF-8; PDFs and Office Open XML documents get their visible text pulled out so the
+ * client can inline it into a prompt. Anything unreadable reports an error instead of garbage.
+ */
+
+export type UploadTextKind = "text" | "pdf" | "docx" | "xlsx" | "pptx";
+
+export type UploadTextResult =
+  | { kind: UploadTextKind; text: string; truncated: boolean }
+  | { kind: UploadTextKind; error: string };
+
+/** Returned text is capped here; the client applies its own, smaller inline caps on top. */
+const MAX_EXTRACTED_CHARS = 200_000;
+/** Decompressed bytes allowed per ZIP entry or PDF stream, and per document in total. */
+const MAX_INFLATED_BYTES = MAX_EXTRACTED_CHARS * 4;
+const MAX_INFLATED_TOTAL_BYTES = MAX_INFLATED_BYTES * 16;
+
+const TEXT_MIME_TYPES = new Set([
+  "application/json",
+  "application/ld+json",
+  "application/xml",
+  "application/javascript",
+  "application/x-javascript",
+  "application/typescript",
+  "application/x-sh",
+  "application/x-yaml",
+  "application/yaml",
+  "application/toml",
+  "application/sql",
+  "application/x-ndjson",
+]);
+
+const TEXT_EXTENSIONS = new Set([
+  ".txt", ".md", ".markdown", ".log", ".csv", ".tsv", ".json", ".jsonl", ".ndjson", ".yaml", ".yml", ".toml",
+  ".ini", ".cfg", ".conf", ".env", ".xml", ".html", ".htm", ".css", ".scss", ".less", ".js", ".mjs", ".cjs",
+  ".jsx", ".ts", ".tsx", ".mts", ".cts", ".vue", ".svelte", ".py", ".rb", ".go", ".rs", ".java", ".kt", ".kts",
+  ".swift", ".c", ".h", ".cc", ".cpp", ".hpp", ".cs", ".php", ".lua", ".pl", ".r", ".sql", ".sh", ".bash",
+  ".zsh", ".fish", ".ps1", ".bat", ".dockerfile", ".gradle", ".properties", ".diff", ".patch", ".srt", ".tex",
+]);
+
+const OFFICE_KINDS: Record<string, UploadTextKind> = {
+  ".docx": "docx",
+  ".xlsx": "xlsx",
+  ".pptx": "pptx",
+};
+
+const OFFICE_MIME_KINDS: Record<string, UploadTextKind> = {
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "xlsx",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": "pptx",
+};
+
+function detectKind(fileName: string, mimeType: string): UploadTextKind | null {
+  const extension = path.extname(fileName).toLowerCase();
+  const mime = mimeType.toLowerCase().split(";")[0].trim();
+  if (extension === ".pdf" || mime === "application/pdf") {
+    return "pdf";
+  }
+  const officeKind = OFFICE_KINDS[extension] ?? OFFICE_MIME_KINDS[mime];
+  if (officeKind) {
+    return officeKind;
+  }
+  if (mime.startsWith("text/") || TEXT_MIME_TYPES.has(mime) || mime.endsWith("+json") || mime.endsWith("+xml")) {
+    return "text";
+  }
+  if (TEXT_EXTENSIONS.has(extension) || /^(dockerfile|makefile|readme|license)$/i.test(path.basename(fileName))) {
+    return "text";
+  }
+  return null;
+}
+
+function capText(text: string): { text: string; truncated: boolean } {
+  const normalized = text.replace(/\r\n?/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
+  if (normalized.length <= MAX_EXTRACTED_CHARS) {
+    return { text: normalized, truncated: false };
+  }
+  return { text: normalized.slice(0, MAX_EXTRACTED_CHARS), truncated: true };
+}
+
+/** Decodes no more bytes than the character cap can use; `clipped` when the file was longer. */
+function decodePlainText(buffer: Buffer): { text: string; clipped: boolean } | null {
+  // NUL bytes in the head mean a binary file that merely has a text-looking name.
+  if (buffer.subarray(0, 8192).includes(0)) {
+    return null;
+  }
+  // UTF-8 needs at most four bytes per character.
+  const maxBytes = MAX_EXTRACTED_CHARS * 4;
+  const clipped = buffer.length > maxBytes;
+  let text = new TextDecoder("utf-8").decode(clipped ? buffer.subarray(0, maxBytes) : buffer).replace(/^\uFEFF/, "");
+  if (clipped) {
+    // The cut may split a multi-byte character.
+    text = text.replace(/\uFFFD+$/, "");
+  }
+  return { text, clipped };
+}
+
+/** Share of characters that are letters, digits, punctuation or whitespace. */
+function readableRatio(text: string): number {
+  if (!text) {
+    return 0;
+  }
+  const readable = text.match(/[\p{L}\p{N}\p{P}\p{Zs}\n\t]/gu)?.length ?? 0;
+  return readable / text.length;
+}
+
+/** What is left of a document's decompression allowance; guards against zip bombs. */
+type InflateBudget = {
+  remaining: number;
+};
+
+function createInflateBudget(): InflateBudget {
+  return { remaining: MAX_INFLATED_TOTAL_BYTES };
+}
+
+/** Throws once the output would exceed the per-entry cap or the document's remaining budget. */
+function inflateWithin(data: Buffer, raw: boolean, budget: InflateBudget): Buffer {
+  const maxOutputLength = Math.min(MAX_INFLATED_BYTES, budget.remaining);
+  if (maxOutputLength <= 0) {
+    throw new Error("文档解压后过大，无法提取文本");
+  }
+  let output: Buffer;
+  try {
+    output = raw ? inflateRawSync(data, { maxOutputLength }) : inflateSync(data, { maxOutputLength });
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new Error("文档解压后过大，无法提取文本");
+    }
+    throw error;
+  }
+  budget.remaining -= output.length;
+  return output;
+}
+
+// ---------------------------------------------------------------------------------------------
+// ZIP (Office Open XML containers)
+
+type ZipEntry = {
+  name: string;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+};
+
+function readZipEntries(buffer: Buffer): ZipEntry[] {
+  const minEocdOffset = Math.max(0, buffer.length - 0xffff - 22);
+  let eocd = -1;
+  for (let offset = buffer.length - 22; offset >= minEocdOffset; offset -= 1) {
+    if (buffer.readUInt32LE(offset) === 0x06054b50) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error("不是有效的 ZIP 文档");
+  }
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const entries: ZipEntry[] = [];
+  for (let index = 0; index < entryCount; index += 1) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error("ZIP 目录已损坏");
+    }
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    entries.push({
+      name: buffer.toString("utf8", offset + 46, offset + 46 + nameLength),
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      uncompressedSize: buffer.readUInt32LE(offset + 24),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+function readZipEntry(buffer: Buffer, entry: ZipEntry, budget: InflateBudget): string {
+  // The declared size is checked first; inflateWithin still stops a header that lies about it.
+  if (entry.uncompressedSize > Math.min(MAX_INFLATED_BYTES, budget.remaining)) {
+    throw new Error("文档解压后过大，无法提取文本");
+  }
+  const header = entry.localHeaderOffset;
+  if (buffer.readUInt32LE(header) !== 0x04034b50) {
+    throw new Error(`ZIP 条目已损坏: ${entry.name}`);
+  }
+  const dataStart = header + 30 + buffer.readUInt16LE(header + 26) + buffer.readUInt16LE(header + 28);
+  const data = buffer.subarray(dataStart, dataStart + entry.compressedSize);
+  if (entry.method === 0) {
+    return data.toString("utf8");
+  }
+  if (entry.method === 8) {
+    return inflateWithin(data, true, budget).toString("utf8");
+  }
+  throw new Error(`不支持的 ZIP 压缩方式: ${entry.method}`);
+}
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (match, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower.startsWith("#x")) {
+      return String.fromCodePoint(Number.parseInt(lower.slice(2), 16));
+    }
+    if (lower.startsWith("#")) {
+      return String.fromCodePoint(Number.parseInt(lower.slice(1), 10));
+    }
+    const named: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'" };
+    return named[lower] ?? match;
+  });
+}
+
+/** Keeps paragraph and line structure, drops all markup. */
+function xmlToText(xml: string, paragraphTag: string): string {
+  return decodeXmlEntities(
+    xml
+      .replace(new RegExp(`</${paragraphTag}>`, "g"), "\n")
+      .replace(/<[a-z]+:(?:tab)\b[^>]*\/>/g, "\t")
+      .replace(/<[a-z]+:(?:br|cr)\b[^>]*\/>/g, "\n")
+      .replace(/<[^>]+>/g, ""),
+  );
+}
+
+function numberedEntries(entries: ZipEntry[], pattern: RegExp): ZipEntry[] {
+  return entries
+    .filter((entry) => pattern.test(entry.name))
+    .sort((left, right) => Number(left.name.match(pattern)?.[1] ?? 0) - Number(right.name.match(pattern)?.[1] ?? 0));
+}
+
+function extractDocx(buffer: Buffer, entries: ZipEntry[], budget: InflateBudget): string {
+  const document = entries.find((entry) => entry.name === "word/document.xml");
+  if (!document) {
+    throw new Error("缺少 word/document.xml");
+  }
+  return xmlToText(readZipEntry(buffer, document, budget), "w:p");
+}
+
+function extractPptx(buffer: Buffer, entries: ZipEntry[], budget: InflateBudget): string {
+  const slides = numberedEntries(entries, /^ppt\/slides\/slide(\d+)\.xml$/);
+  return slides
+    .map((slide, index) => `## 幻灯片 ${index + 1}\n${xmlToText(readZipEntry(buffer, slide, budget), "a:p").trim()}`)
+    .join("\n\n");
+}
+
+function extractXlsx(buffer: Buffer, entries: ZipEntry[], budget: InflateBudget): string {
+  const sharedEntry = entries.find((entry) => entry.name === "xl/sharedStrings.xml");
+  const sharedStrings = sharedEntry
+    ? Array.from(readZipEntry(buffer, sharedEntry, budget).matchAll(/<si>([\s\S]*?)<\/si>/g), (match) =>
+        decodeXmlEntities(Array.from(match[1].matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), (run) => run[1]).join("")),
+      )
+    : [];
+  const workbookEntry = entries.find((entry) => entry.name === "xl/workbook.xml");
+  const sheetNames = workbookEntry
+    ? Array.from(readZipEntry(buffer, workbookEntry, budget).matchAll(/<sheet\b[^>]*\bname="([^"]*)"/g), (match) => decodeXmlEntities(match[1]))
+    : [];
+
+  const sheets = numberedEntries(entries, /^xl\/worksheets\/sheet(\d+)\.xml$/);
+  return sheets
+    .map((sheet, index) => {
+      const rows = Array.from(readZipEntry(buffer, sheet, budget).matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g), (row) =>
+        Array.from(row[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g), (cell) => {
+          const attributes = cell[1];
+          const body = cell[2] ?? "";
+          const type = attributes.match(/\bt="([^"]*)"/)?.[1];
+          if (type === "inlineStr") {
+            return decodeXmlEntities(Array.from(body.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), (run) => run[1]).join(""));
+          }
+          const value = decodeXmlEntities(body.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? "");
+          return type === "s" ? (sharedStrings[Number(value)] ?? "") : value;
+        }).join("\t"),
+      ).filter((line) => line.trim());
+      return `## ${sheetNames[index] ?? `工作表 ${index + 1}`}\n${rows.join("\n")}`;
+    })
+    .join("\n\n");
+}
+
+function extractOffice(buffer: Buffer, kind: UploadTextKind): string {
+  const entries = readZipEntries(buffer);
+  const budget = createInflateBudget();
+  if (kind === "docx") {
+    return extractDocx(buffer, entries, budget);
+  }
+  if (kind === "pptx") {
+    return extractPptx(buffer, entries, budget);
+  }
+  return extractXlsx(buffer, entries, budget);
+}
+
+// ---------------------------------------------------------------------------------------------
+// PDF
+
+type PdfStream = {
+  dictionary: string;
+  data: Buffer;
+};
+
+function readPdfStreams(buffer: Buffer): PdfStream[] {
+  const source = buffer.toString("latin1");
+  const streams: PdfStream[] = [];
+  const streamRe = /stream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while ((match = streamRe.exec(source))) {
+    const keywordStart = match.index;
+    // Only a dictionary-terminated keyword opens a stream; skip "endstream" and stray text.
+    if (!/>>\s*$/.test(source.slice(Math.max(0, keywordStart - 16), keywordStart))) {
+      continue;
+    }
+    const objectStart = source.lastIndexOf(" obj", keywordStart);
+    const dictionary = source.slice(objectStart < 0 ? Math.max(0, keywordStart - 2048) : objectStart, keywordStart);
+    const dataStart = match.index + match[0].length;
+    const dataEnd = source.indexOf("endstream", dataStart);
+    if (dataEnd < 0) {
+      break;
+    }
+    streams.push({ dictionary, data: buffer.subarray(dataStart, dataEnd) });
+    streamRe.lastIndex = dataEnd + "endstream".length;
+  }
+  return streams;
+}
+
+function decodePdfStream(stream: PdfStream, budget: InflateBudget): string | null {
+  const filters = stream.dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] ?? "";
+  const names = filters.match(/\/\w+/g) ?? [];
+  if (names.length === 0) {
+    return stream.data.toString("latin1");
+  }
+  if (names.length === 1 && names[0] === "/FlateDecode") {
+    try {
+      return inflateWithin(stream.data, false, budget).toString("latin1");
+    } catch {
+      // Corrupt, or over the size caps; either way the stream yields no text.
+      return null;
+    }
+  }
+  // Images (DCT, JBIG2, ...) and other encodings carry no text.
+  return null;
+}
+
+/** Merged ToUnicode maps of all fonts; good enough for the common single-font CID case. */
+type UnicodeMap = {
+  codeBytes: number;
+  map: Map<number, string>;
+};
+
+function hexToUnicode(hex: string): string {
+  let text = "";
+  for (let index = 0; index + 4 <= hex.length; index += 4) {
+    text += String.fromCharCode(Number.parseInt(hex.slice(index, index + 4), 16));
+  }
+  return text;
+}
+
+function parseToUnicodeMaps(cmaps: string[]): UnicodeMap | null {
+  const map = new Map<number, string>();
+  let codeBytes = 1;
+  for (const cmap of cmaps) {
+    const codespace = cmap.match(/begincodespacerange\s*<([0-9a-fA-F]+)>/);
+    if (codespace) {
+      codeBytes = Math.max(codeBytes, codespace[1].length / 2);
+    }
+    for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+      for (const entry of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+        const code = Number.parseInt(entry[1], 16);
+        if (!map.has(code)) {
+          map.set(code, hexToUnicode(entry[2]));
+        }
+      }
+    }
+    for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+      for (const entry of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+        const start = Number.parseInt(entry[1], 16);
+        const end = Number.parseInt(entry[2], 16);
+        const targets = entry[3].startsWith("[") ? Array.from(entry[3].matchAll(/<([0-9a-fA-F]*)>/g), (item) => item[1]) : null;
+        const base = targets ? "" : entry[3].slice(1, -1);
+        for (let code = start; code <= end && code - start < 0x10000; code += 1) {
+          if (map.has(code)) {
+            continue;
+          }
+          if (targets) {
+            map.set(code, hexToUnicode(targets[code - start] ?? ""));
+          } else {
+            // Increment the last UTF-16 unit of the destination across the range.
+            const first = hexToUnicode(base);
+            const last = first.charCodeAt(first.length - 1) + (code - start);
+            map.set(code, first.slice(0, -1) + String.fromCharCode(last));
+          }
+        }
+      }
+    }
+  }
+  return map.size > 0 ? { codeBytes, map } : null;
+}
+
+function decodePdfStringBytes(bytes: number[], unicodeMap: UnicodeMap | null, hex: boolean): string {
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    let text = "";
+    for (let index = 2; index + 1 < bytes.length; index += 2) {
+      text += String.fromCharCode((bytes[index] << 8) | bytes[index + 1]);
+    }
+    return text;
+  }
+  // Hex strings usually carry glyph ids of embedded fonts; only the ToUnicode map can name them.
+  if (unicodeMap && (hex || unicodeMap.codeBytes === 1)) {
+    let text = "";
+    const step = unicodeMap.codeBytes;
+    for (let index = 0; index + step <= bytes.length; index += step) {
+      const code = step === 2 ? (bytes[index] << 8) | bytes[index + 1] : bytes[index];
+      text += unicodeMap.map.get(code) ?? (step === 1 ? String.fromCharCode(code) : "");
+    }
+    return text;
+  }
+  return String.fromCharCode(...bytes);
+}
+
+function readLiteralString(source: string, start: number): { bytes: number[]; end: number } {
+  const bytes: number[] = [];
+  let depth = 1;
+  let index = start + 1;
+  while (index < source.length && depth > 0) {
+    const char = source[index];
+    if (char === "\\") {
+      const next = source[index + 1];
+      const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12, "(": 40, ")": 41, "\\": 92 };
+      if (next !== undefined && next in escapes) {
+        bytes.push(escapes[next]);
+        index += 2;
+      } else if (next !== undefined && /[0-7]/.test(next)) {
+        const octal = source.slice(index + 1, index + 4).match(/^[0-7]{1,3}/)?.[0] ?? "0";
+        bytes.push(Number.parseInt(octal, 8) & 0xff);
+        index += 1 + octal.length;
+      } else {
+        // Line continuation or unknown escape: the backslash is dropped.
+        index += next === "\r" && source[index + 2] === "\n" ? 3 : 2;
+      }
+      continue;
+    }
+    if (char === "(") {
+      depth += 1;
+    } else if (char === ")") {
+      depth -= 1;
+      if (depth === 0) {
+        break;
+      }
+    }
+    bytes.push(char.charCodeAt(0) & 0xff);
+    index += 1;
+  }
+  return { bytes, end: index + 1 };
+}
+
+function readHexString(source: string, start: number): { bytes: number[]; end: number } {
+  const close = source.indexOf(">", start);
+  const end = close < 0 ? source.length : close;
+  const digits = source.slice(start + 1, end).replace(/[^0-9a-fA-F]/g, "");
+  const padded = digits.length % 2 === 0 ? digits : `${digits}0`;
+  const bytes: number[] = [];
+  for (let index = 0; index < padded.length; index += 2) {
+    bytes.push(Number.parseInt(padded.slice(index, index + 2), 16));
+  }
+  return { bytes, end: end + 1 };
+}
+
+/** Walks the text operators of one content stream; positioning operators become spaces or line breaks. */
+function extractContentStreamText(source: string, unicodeMap: UnicodeMap | null): string {
+  let output = "";
+  const operands: Array<string | number | Array<string | number>> = [];
+  let array: Array<string | number> | null = null;
+  let inText = false;
+  let index = 0;
+
+  const pushOperand = (value: string | number) => {
+    if (array) {
+      array.push(value);
+    } else {
+      operands.push(value);
+    }
+  };
+  const newLine = () => {
+    if (output && !output.endsWith("\n")) {
+      output += "\n";
+    }
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+    if (char === "%") {
+      const lineEnd = source.indexOf("\n", index);
+      index = lineEnd < 0 ? source.length : lineEnd + 1;
+      continue;
+    }
+    if (char === "(") {
+      const literal = readLiteralString(source, index);
+      pushOperand(decodePdfStringBytes(literal.bytes, unicodeMap, false));
+      index = literal.end;
+      continue;
+    }
+    if (char === "<" && source[index + 1] !== "<") {
+      const hexString = readHexString(source, index);
+      pushOperand(decodePdfStringBytes(hexString.bytes, unicodeMap, true));
+      index = hexString.end;
+      continue;
+    }
+    if (char === "[") {
+      array = [];
+      index += 1;
+      continue;
+    }
+    if (char === "]") {
+      if (array) {
+        operands.push(array);
+      }
+      array = null;
+      index += 1;
+      continue;
+    }
+    const token = source.slice(index).match(/^(<<|>>|\/[^\s/[\]()<>{}%]*|[^\s/[\]()<>{}%]+)/)?.[0] ?? char;
+    index += token.length;
+    const number = Number(token);
+    if (token !== "" && !Number.isNaN(number) && /^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+      pushOperand(number);
+      continue;
+    }
+    if (token.startsWith("/") || token === "<<" || token === ">>") {
+      continue;
+    }
+
+    // Operator.
+    if (token === "BT") {
+      inText = true;
+    } else if (token === "ET") {
+      inText = false;
+      newLine();
+    } else if (inText) {
+      if (token === "Tj" || token === "'" || token === "\"") {
+        if (token !== "Tj") {
+          newLine();
+        }
+        const text = operands.at(-1);
+        if (typeof text === "string") {
+          output += text;
+        }
+      } else if (token === "TJ") {
+        const items = operands.at(-1);
+        if (Array.isArray(items)) {
+          for (const item of items) {
+            if (typeof item === "string") {
+              output += item;
+            } else if (item < -200 && !output.endsWith(" ")) {
+              // Large negative kerning is how many generators encode a word gap.
+              output += " ";
+            }
+          }
+        }
+      } else if (token === "Td" || token === "TD") {
+        const ty = operands.at(-1);
+        if (typeof ty === "number" && ty !== 0) {
+          newLine();
+        } else if (output && !/\s$/.test(output)) {
+          output += " ";
+        }
+      } else if (token === "T*" || token === "Tm") {
+        newLine();
+      }
+    }
+    operands.length = 0;
+  }
+  return output;
+}
+
+function extractPdf(buffer: Buffer): string {
+  if (!buffer.subarray(0, 1024).toString("latin1").includes("%PDF-")) {
+    throw new Error("不是有效的 PDF 文件");
+  }
+  if (/\/Encrypt\s/.test(buffer.toString("latin1"))) {
+    throw new Error("PDF 已加密，无法提取文本");
+  }
+  const budget = createInflateBudget();
+  const decoded = readPdfStreams(buffer)
+    .map((stream) => ({ stream, text: decodePdfStream(stream, budget) }))
+    .filter((entry): entry is { stream: PdfStream; text: string } => entry.text !== null);
+  const unicodeMap = parseToUnicodeMaps(decoded.map((entry) => entry.text).filter((text) => text.includes("begincmap")));
+  const pages = decoded
+    .filter(({ stream, text }) => !/\/Subtype\s*\/(Image|Type1C|CIDFontType0C|OpenType)|\/Length[123]\b/.test(stream.dictionary) && /\bBT\b/.test(text))
+    .map(({ text }) => extractContentStreamText(text, unicodeMap).trim())
+    .filter(Boolean);
+  return pages.join("\n\n");
+}
+
+export async function extractUploadText(filePath: string, fileName: string, mimeType: string): Promise<UploadTextResult | null> {
+  const kind = detectKind(fileName, mimeType);
+  if (!kind) {
+    return null;
+  }
+  try {
+    const buffer = await fs.readFile(filePath);
+    if (kind === "text") {
+      const decoded = decodePlainText(buffer);
+      if (!decoded) {
+        return { kind, error: "文件包含二进制内容，无法按文本读取" };
+      }
+      const capped = capText(decoded.text);
+      return { kind, text: capped.text, truncated: capped.truncated || decoded.clipped };
+    }
+    const text = kind === "pdf" ? extractPdf(buffer) : extractOffice(buffer, kind);
+    if (!text.trim()) {
+      return { kind, error: kind === "pdf" ? "未找到可提取的文本（可能是扫描件）" : "文档中没有文本内容" };
+    }
+    if (readableRatio(text) < 0.85) {
+      return { kind, error: "提取结果无法识别（字体编码不受支持）" };
+    }
+    return { kind, ...capText(text) };
+  } catch (error) {
+    return { kind, error: error instanceof Error ? error.message : String(error) };
+  }
+}
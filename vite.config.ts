@@ -7,6 +7,8 @@ import react from "@vitejs/plugin-react";
 import { IncomingForm, type Fields, type File as FormidableFile, type Files, type Part } from "formidable";
 import { defineConfig, loadEnv, type Plugin } from "vite";
 import { WebSocket, WebSocketServer, type RawData } from "ws";
+import { mockGatewayPlugin } from "./mock-gateway/mockGatewayPlugin";
+import { extractUploadText, type UploadTextKind } from "./upload-text/extractUploadText";
 
 type UploadManifestItem = {
   id: string;
@@ -16,6 +18,11 @@ type UploadManifestItem = {
   relativePath: string;
   absolutePath: string;
   uploadedAt: string;
+  /** Set for text-like files, PDFs and Office documents so the client can inline the content. */
+  textKind?: UploadTextKind;
+  textContent?: string;
+  textTruncated?: boolean;
+  textError?: string;
 };
 
 type DevRequest = IncomingMessage & { url?: string; method?: string };
@@ -32,6 +39,8 @@ const roomsBackupDir = path.resolve(uploadRootDir, "rooms-backups");
 const jsonConfigBackupDir = path.resolve(uploadRootDir, "config-backups");
 const defaultOpenClawConfigPath = path.resolve(userHomeDir, ".openclaw/openclaw.json");
 const gatewayProxyPath = "/api/gateway/ws";
+const mockGatewayPath = "/api/gateway/mock";
+const mockGatewayFixturesDir = path.resolve(workspaceRoot, "mock-gateway/fixtures");
 const jsonConfigApiPath = "/api/config-json";
 const jsonConfigTargetsApiPath = "/api/config-json/targets";
 const jsonConfigAllowedRoots = [workspaceRoot, path.resolve(userHomeDir, ".openclaw")];
@@ -83,7 +92,8 @@ async function appendUploadLog(items: UploadManifestItem[]): Promise<void> {
     return;
   }
   await fs.mkdir(uploadRootDir, { recursive: true });
-  const lines = items.map((item) => JSON.stringify(item)).join("\n") + "\n";
+  // The extracted text is reproducible from the file and would bloat the log.
+  const lines = items.map((item) => JSON.stringify({ ...item, textContent: undefined })).join("\n") + "\n";
   await fs.appendFile(uploadLogPath, lines, "utf8");
 }
 
@@ -137,19 +147,28 @@ function createUploadMiddleware() {
           }
 
           const now = new Date().toISOString();
-          const resultFiles: UploadManifestItem[] = uploadedFiles.map((file) => {
+          const resultFiles: UploadManifestItem[] = [];
+          for (const file of uploadedFiles) {
             const absolutePath = path.resolve(file.filepath);
             const relativePath = toPosixPath(path.relative(workspaceRoot, absolutePath));
-            return {
+            const fileName = sanitizeFileName(file.originalFilename ?? path.basename(absolutePath));
+            const mimeType = file.mimetype ?? "application/octet-stream";
+            const extracted = await extractUploadText(absolutePath, fileName, mimeType);
+            resultFiles.push({
               id: randomUUID(),
-              fileName: sanitizeFileName(file.originalFilename ?? path.basename(absolutePath)),
-              mimeType: file.mimetype ?? "application/octet-stream",
+              fileName,
+              mimeType,
               size: file.size,
               relativePath,
               absolutePath,
               uploadedAt: now,
-            };
-          });
+              ...(extracted
+                ? "error" in extracted
+                  ? { textKind: extracted.kind, textError: extracted.error }
+                  : { textKind: extracted.kind, textContent: extracted.text, textTruncated: extracted.truncated }
+                : {}),
+            });
+          }
 
           await appendUploadLog(resultFiles);
           reply(200, { ok: true, files: resultFiles });
@@ -407,6 +426,8 @@ type StoredRoom = {
   id: string;
   name: string;
   agentId: string;
+  /** Omitted for rooms saved before rooms had their own sessions; the client fills in the default. */
+  sessionKey?: string;
 };
 
 function sanitizeRoomsPayload(value: unknown): StoredRoom[] {
@@ -425,7 +446,10 @@ function sanitizeRoomsPayload(value: unknown): StoredRoom[] {
     }
     const name = typeof record.name === "string" && record.name.trim() ? record.name.trim() : id;
     const agentId = typeof record.agentId === "string" && record.agentId.trim() ? record.agentId.trim() : "main";
-    result.push({ id, name, agentId });
+    const sessionKey = typeof record.sessionKey === "string" ? record.sessionKey.trim() : "";
+    result.push(
+      sessionKey && !/\s/.test(sessionKey) && sessionKey.length <= 256 ? { id, name, agentId, sessionKey } : { id, name, agentId },
+    );
   }
   return result;
 }
@@ -718,6 +742,11 @@ export default defineConfig(({ mode }) => {
         pathSuffix: gatewayProxyPath,
         upstreamOrigin: gatewayUpstreamOrigin,
       }),
+      mockGatewayPlugin({
+        fixturesDir: mockGatewayFixturesDir,
+        pathSuffix: mockGatewayPath,
+        defaultFixture: env.OPENCLAW_MOCK_GATEWAY_FIXTURE?.trim(),
+      }),
     ],
   };
 });